@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { isOfflineMode } from '@/lib/offline/mode';
+import { clearResolveCache, resolveCardName, resolveCardNames, type ResolveResult } from '@/lib/scryfall/card-resolver';
+import { parseCardNameVariants, parsePrintingReference } from '@/lib/utils/card-names';
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+function validateAdminAuth(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) return false;
+
+  const token = authHeader.replace('Bearer ', '');
+  return token === ADMIN_TOKEN;
+}
+
+// A 60-card midgame board: both battlefields, hands, graveyards and exile, with repeats and DFC face names
+const SAMPLE_BOARD = [
+  ...Array(4).fill('Mountain'), ...Array(3).fill('Plains'), 'Sacred Foundry', 'Inspiring Vantage', 'Arid Mesa',
+  'Monastery Swiftspear', 'Monastery Swiftspear', 'Ragavan, Nimble Pilferer', 'Phlage, Titan of Fire\'s Fury',
+  'Guide of Souls', 'Ocelot Pride', 'The One Ring', 'Static Prison', 'Lightning Bolt', 'Lightning Bolt',
+  'Lightning Helix', 'Boros Charm', 'Skewer the Critics', 'Play with Fire', 'Galvanic Discharge', 'Galvanic Discharge',
+  ...Array(4).fill('Island'), ...Array(2).fill('Swamp'), 'Watery Grave', 'Polluted Delta', 'Otawara, Soaring City',
+  'Murktide Regent', 'Dragon\'s Rage Channeler', 'Orcish Bowmasters', 'Subtlety', 'Solitude', 'Counterspell',
+  'Counterspell', 'Fatal Push', 'Thoughtseize', 'Consider', 'Expressive Iteration', 'Unholy Heat', 'Spell Pierce',
+  'Delver of Secrets', 'Insectile Aberration', 'Fable of the Mirror-Breaker', 'Reflection of Kiki-Jiki',
+  'Bonecrusher Giant', 'Stomp', 'Brazen Borrower', 'Petty Theft', 'Wrenn and Six', 'Urza\'s Saga',
+  'Mishra\'s Bauble', 'Mishra\'s Bauble',
+];
+
+const RequestSchema = z.object({
+  names: z.array(z.string().min(1)).min(1).max(500).default(SAMPLE_BOARD),
+});
+
+// POST: Time the pre-batching per-name lookups against the batched resolver, cold and warm
+export async function POST(request: NextRequest) {
+  if (!validateAdminAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // The per-name lookups being compared against are Postgres queries
+  if (isOfflineMode()) {
+    return NextResponse.json({ error: 'The resolve benchmark is not available in offline mode' }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = RequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { names } = parsed.data;
+
+    // Resolve once first so Scryfall fallbacks are cached in the database and not timed
+    await resolveCardNames(names);
+
+    const sequential = await time(async () => {
+      const results: ResolveResult[] = [];
+      for (const name of names) results.push(await resolveOneAtATime(name));
+      return results;
+    });
+
+    clearResolveCache();
+    const batchedCold = await time(() => resolveCardNames(names));
+    const batchedWarm = await time(() => resolveCardNames(names));
+
+    const signature = (results: ResolveResult[]) =>
+      JSON.stringify(results.map(r => [r.input, r.status, r.card?.oracleId, r.matchedFace]));
+
+    return NextResponse.json({
+      cards: names.length,
+      distinct: new Set(names).size,
+      sequentialMs: sequential.ms,
+      batchedColdMs: batchedCold.ms,
+      batchedWarmMs: batchedWarm.ms,
+      sameResults:
+        signature(sequential.results) === signature(batchedCold.results)
+        && signature(sequential.results) === signature(batchedWarm.results),
+    });
+  } catch (error) {
+    console.error('Resolve benchmark error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const withRelations = { faces: true, rulings: true } as const;
+
+/**
+ * Resolution as it ran before batching: a findFirst for the name, then one
+ * per face variant. Names neither finds (printings, typos) go to
+ * resolveCardName, which looks them up again before ranking similar names;
+ * the sample board has none.
+ */
+async function resolveOneAtATime(input: string): Promise<ResolveResult> {
+  if (parsePrintingReference(input)) return resolveCardName(input);
+
+  const variants = parseCardNameVariants(input);
+  const card = await db.card.findFirst({
+    where: { normalizedName: variants[0] },
+    include: withRelations,
+  });
+  if (card) return { status: 'exact', card, input };
+
+  for (const variant of variants) {
+    const face = await db.cardFace.findFirst({
+      where: { normalizedName: variant },
+      include: { card: { include: withRelations } },
+    });
+    if (face) return { status: 'face_match', card: face.card, matchedFace: face.faceIndex, input };
+  }
+
+  return resolveCardName(input);
+}
+
+async function time(run: () => Promise<ResolveResult[]>): Promise<{ ms: number; results: ResolveResult[] }> {
+  const start = performance.now();
+  const results = await run();
+  return { ms: Math.round(performance.now() - start), results };
+}
@@ -1,6 +1,8 @@
+import { access } from 'fs/promises';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { startSync, getSyncStatus, getLatestSyncRun } from '@/lib/scryfall/bulk-sync';
+import { isOfflineMode } from '@/lib/offline/mode';
+import { startSync, getSyncStatus, getLatestSyncRun, loadBulkFile } from '@/lib/scryfall/bulk-sync';
 
 const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
 
@@ -13,11 +15,17 @@ function validateAdminAuth(request: NextRequest): boolean {
 }
 
 const PostRequestSchema = z.object({
-  type: z.enum(['oracle_cards', 'rulings', 'full']).default('oracle_cards'),
+  type: z.enum(['oracle_cards', 'default_cards', 'rulings', 'full']).default('oracle_cards'),
   force: z.boolean().default(false),
   resumeId: z.string().optional(),
 });
 
+// Offline mode loads a bulk file from disk instead of downloading one
+const OfflineRequestSchema = z.object({
+  file: z.string().min(1),
+  type: z.enum(['oracle_cards', 'default_cards', 'rulings']).default('oracle_cards'),
+});
+
 // POST: Start or resume a sync
 export async function POST(request: NextRequest) {
   // Check for cron secret (Vercel Cron) or admin token
@@ -30,6 +38,11 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json().catch(() => ({}));
+
+    if (isOfflineMode()) {
+      return await loadOffline(body);
+    }
+
     const parsed = PostRequestSchema.safeParse(body);
 
     if (!parsed.success) {
@@ -71,12 +84,49 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function loadOffline(body: unknown) {
+  const parsed = OfflineRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: parsed.error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { file, type } = parsed.data;
+
+  try {
+    await access(file);
+  } catch {
+    return NextResponse.json({ error: 'File not found', file }, { status: 404 });
+  }
+
+  const result = await loadBulkFile(file, type);
+
+  return NextResponse.json({
+    status: 'COMPLETED',
+    type,
+    processed: result.processed,
+    failed: result.failed,
+    message: 'Bulk file loaded into the offline store',
+  });
+}
+
 // GET: Get sync status
 export async function GET(request: NextRequest) {
   if (!validateAdminAuth(request)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  // Loads run to completion in the POST, so there's nothing to track
+  if (isOfflineMode()) {
+    return NextResponse.json({ message: 'Sync runs are not tracked in offline mode' });
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const syncRunId = searchParams.get('id');
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { parseArenaLog } from '@/lib/arena/log-parser';
+import { importArenaMatch } from '@/lib/arena/import';
+
+const RequestSchema = z.object({
+  log: z.string().min(1, 'Log text is required'), // Contents of Player.log
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = RequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const match = parseArenaLog(parsed.data.log);
+
+    if (match.messagesApplied === 0) {
+      return NextResponse.json(
+        {
+          error: 'No game found',
+          message: 'The log contains no game state messages. Enable Detailed Logs in Arena\'s settings and play a game.',
+        },
+        { status: 422 }
+      );
+    }
+
+    const result = await importArenaMatch(match);
+
+    return NextResponse.json({
+      gameState: result.gameState,
+      gameStateId: match.gameStateId,
+      warnings: result.warnings,
+      unknownGrpIds: result.unknownGrpIds,
+    });
+  } catch (error) {
+    console.error('Arena import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Arena import failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import { access } from 'fs/promises';
+import { applyArenaLogLines, createArenaMatch } from '@/lib/arena/log-parser';
+import { defaultArenaLogPath, tailArenaLog } from '@/lib/arena/log-tail';
+import { importArenaMatch, type ArenaCardCache } from '@/lib/arena/import';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Stream game states from the local Player.log as Server-Sent Events.
+ * Only useful when the app runs on the same machine as Arena.
+ */
+export async function GET(request: NextRequest) {
+  const path = defaultArenaLogPath();
+
+  try {
+    await access(path);
+  } catch {
+    return Response.json(
+      {
+        error: 'Log not found',
+        message: `No Player.log at ${path}. Set ARENA_LOG_PATH to its location.`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const cache: ArenaCardCache = new Map();
+  let match = createArenaMatch();
+  let lastGameStateId: number | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      send('ready', { path });
+
+      tailArenaLog(
+        path,
+        async lines => {
+          if (!applyArenaLogLines(match, lines) || match.gameStateId === lastGameStateId) return;
+          if (match.players.size < 2) return;
+          lastGameStateId = match.gameStateId;
+
+          try {
+            const result = await importArenaMatch(match, cache);
+            send('state', {
+              gameState: result.gameState,
+              gameStateId: match.gameStateId,
+              warnings: result.warnings,
+              unknownGrpIds: result.unknownGrpIds,
+            });
+          } catch (error) {
+            send('warning', { message: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        },
+        {
+          signal: request.signal,
+          onReset: () => {
+            match = createArenaMatch();
+            lastGameStateId = undefined;
+          },
+        }
+      )
+        .catch(error => {
+          console.error('Arena watch error:', error);
+          send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        })
+        .finally(() => {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resolveCardNames } from '@/lib/scryfall/card-resolver';
+import { FORMATS, checkLegality, getLegality, normalizeFormat } from '@/lib/rules/legality';
+import { normalizeName } from '@/lib/utils/card-names';
+
+const RequestSchema = z.object({
+  names: z.array(z.string().min(1)).min(1).max(100), // Repeat a name to check it as several copies
+  format: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = RequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const format = normalizeFormat(parsed.data.format);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unknown format', message: `"${parsed.data.format}" is not one of: ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await resolveCardNames(parsed.data.names);
+
+    const copies = new Map<string, number>();
+    const cards = new Map<string, NonNullable<(typeof results)[number]['card']>>();
+    for (const result of results) {
+      if (!result.card) continue;
+      const key = normalizeName(result.card.name);
+      copies.set(key, (copies.get(key) ?? 0) + 1);
+      cards.set(result.card.oracleId, result.card);
+    }
+
+    const { issues, unchecked } = checkLegality([...cards.values()], format, copies);
+
+    return NextResponse.json({
+      format,
+      legal: issues.length === 0 && unchecked.length === 0 && results.every(r => r.card),
+      cards: results.map(result => ({
+        input: result.input,
+        status: result.status,
+        cardName: result.card?.name,
+        legality: result.card ? getLegality(result.card, format) : null,
+      })),
+      issues,
+      unchecked,
+    });
+  } catch (error) {
+    console.error('Legality check error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -34,6 +34,9 @@ export async function POST(request: NextRequest) {
             cmc: result.card.cmc,
             typeLine: result.card.typeLine,
             oracleText: result.card.oracleText,
+            power: result.card.power,
+            toughness: result.card.toughness,
+            loyalty: result.card.loyalty,
             colors: result.card.colors,
             keywords: result.card.keywords,
             layout: result.card.layout,
@@ -54,7 +57,18 @@ export async function POST(request: NextRequest) {
           }
         : undefined,
       matchedFace: result.matchedFace,
+      score: result.score,
       candidates: result.candidates,
+      printing: result.printing
+        ? {
+            scryfallId: result.printing.scryfallId,
+            set: result.printing.setCode,
+            setName: result.printing.setName,
+            collectorNumber: result.printing.collectorNumber,
+            rarity: result.printing.rarity,
+            arenaId: result.printing.arenaId,
+          }
+        : undefined,
     }));
 
     return NextResponse.json({ resolved });
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isOfflineMode } from '@/lib/offline/mode';
+import { SearchQueryError, searchCards } from '@/lib/scryfall/search';
+
+const QuerySchema = z.object({
+  q: z.string().min(1),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(request: NextRequest) {
+  // Queries compile to Postgres filters, which the SQLite store doesn't run
+  if (isOfflineMode()) {
+    return NextResponse.json({ error: 'Search is not available in offline mode' }, { status: 503 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = QuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { q, page, pageSize } = parsed.data;
+    const result = await searchCards(q, { page, pageSize });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message, position: error.position },
+        { status: 400 }
+      );
+    }
+    console.error('Card search error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { GameStateSchema, isMultiplayer } from '@/lib/schemas/game-state';
+import { printPuzzle } from '@/lib/forge/puzzle';
+import { resolvePuzzleCards } from '@/lib/forge/resolve';
+
+const RequestSchema = z.object({
+  gameState: GameStateSchema,
+  metadata: z.record(z.string(), z.string()).optional(), // [metadata] lines, e.g. { Name, Goal, Turns }
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = RequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { metadata } = parsed.data;
+
+    if (isMultiplayer(parsed.data.gameState)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: [{ path: ['gameState', 'players'], message: 'Forge puzzles support two players only' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { gameState, unknownCards } = await resolvePuzzleCards(parsed.data.gameState, 'forge');
+    const { text, warnings } = printPuzzle(gameState, metadata);
+
+    return NextResponse.json({
+      puzzle: text,
+      unknownCards,
+      warnings: [
+        ...warnings,
+        ...unknownCards.map(name => `Card not found: "${name}"`),
+      ],
+    });
+  } catch (error) {
+    console.error('Forge export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { parsePuzzle } from '@/lib/forge/puzzle';
+import { resolvePuzzleCards } from '@/lib/forge/resolve';
+
+const RequestSchema = z.object({
+  puzzle: z.string().min(1, 'Puzzle text is required'), // Contents of a .pzl file
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = RequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const puzzle = parsePuzzle(parsed.data.puzzle);
+
+    if (!puzzle.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid puzzle',
+          details: puzzle.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { gameState, unknownCards } = await resolvePuzzleCards(puzzle.data.gameState, 'oracle');
+
+    return NextResponse.json({
+      gameState,
+      metadata: puzzle.data.metadata,
+      unknownCards,
+      warnings: [
+        ...puzzle.warnings,
+        ...unknownCards.map(name => `Card not found: "${name}"`),
+      ],
+    });
+  } catch (error) {
+    console.error('Forge import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
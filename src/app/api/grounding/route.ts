@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { GameStateSchema } from '@/lib/schemas/game-state';
+import { describeSchemaUpgrade, migrateGameState } from '@/lib/schemas/migrations';
+import { attachDecklist, parseDecklist } from '@/lib/rules/draw-odds';
+import { ZoneValidationError } from '@/lib/rules/zone-validation';
+import { lintGameState } from '@/lib/rules/integrity';
 import { buildGroundingPacket, serializeGroundingPacket } from '@/lib/schemas/grounding-packet';
 import { PRESETS } from '@/lib/utils/presets';
 
@@ -8,12 +12,24 @@ const RequestSchema = z.object({
   gameState: GameStateSchema,
   preset: z.enum(['paper_casual', 'paper_fnm', 'paper_competitive', 'arena_bo1', 'arena_bo3']).default('arena_bo1'),
   format: z.string().optional(),
+  decklist: z.string().optional(), // Text decklist for the advised player, e.g. "4 Lightning Bolt" per line, with an optional sideboard and companion
+  strict: z.boolean().default(false), // Reject cards in zones their types don't allow instead of warning
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = RequestSchema.safeParse(body);
+
+    // Older gameState versions are upgraded before validation
+    const migration = migrateGameState(body?.gameState);
+    if (!migration.success) {
+      return NextResponse.json(
+        { error: 'Unsupported schema version', message: migration.error },
+        { status: 400 }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse({ ...body, gameState: migration.document });
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -25,9 +41,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { gameState, preset, format } = parsed.data;
+    const { preset, format, strict } = parsed.data;
+
+    let gameState = parsed.data.gameState;
+    if (parsed.data.decklist) {
+      const { errors, ...deck } = parseDecklist(parsed.data.decklist);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid decklist', details: errors }, { status: 400 });
+      }
+      gameState = attachDecklist(gameState, deck);
+    }
 
-    const result = await buildGroundingPacket(gameState, preset, format);
+    const result = await buildGroundingPacket(gameState, preset, format, { strict });
 
     return NextResponse.json({
       groundingPacket: result.packet,
@@ -36,11 +61,27 @@ export async function POST(request: NextRequest) {
         input: r.input,
         status: r.status,
         cardName: r.card?.name,
+        score: r.score,
         candidates: r.candidates?.map(c => c.name),
       })),
-      warnings: result.warnings,
+      tokens: result.tokenResults.map(r => ({
+        input: r.input,
+        status: r.status,
+        tokenName: r.token?.name,
+        createdBy: r.token?.createdBy,
+      })),
+      warnings: migration.upgrade ? [describeSchemaUpgrade(migration.upgrade), ...result.warnings] : result.warnings,
+      zoneIssues: result.zoneIssues,
+      schemaUpgrade: migration.upgrade,
+      integrity: lintGameState(gameState),
     });
   } catch (error) {
+    if (error instanceof ZoneValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid game state', message: error.message, details: error.issues },
+        { status: 400 }
+      );
+    }
     console.error('Grounding packet error:', error);
     return NextResponse.json(
       {
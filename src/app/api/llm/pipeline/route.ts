@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { GameStateSchema } from '@/lib/schemas/game-state';
+import { describeSchemaUpgrade, migrateGameState } from '@/lib/schemas/migrations';
+import { attachDecklist, parseDecklist } from '@/lib/rules/draw-odds';
+import { ZoneValidationError } from '@/lib/rules/zone-validation';
 import { buildGroundingPacket } from '@/lib/schemas/grounding-packet';
 import { runFullPipeline } from '@/lib/llm/client';
 
@@ -8,12 +11,24 @@ const RequestSchema = z.object({
   gameState: GameStateSchema,
   preset: z.enum(['paper_casual', 'paper_fnm', 'paper_competitive', 'arena_bo1', 'arena_bo3']).default('arena_bo1'),
   format: z.string().optional(),
+  decklist: z.string().optional(), // Text decklist for the advised player, e.g. "4 Lightning Bolt" per line, with an optional sideboard and companion
+  strict: z.boolean().default(false), // Reject cards in zones their types don't allow instead of warning
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = RequestSchema.safeParse(body);
+
+    // Older gameState versions are upgraded before validation
+    const migration = migrateGameState(body?.gameState);
+    if (!migration.success) {
+      return NextResponse.json(
+        { error: 'Unsupported schema version', message: migration.error },
+        { status: 400 }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse({ ...body, gameState: migration.document });
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -25,10 +40,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { gameState, preset, format } = parsed.data;
+    const { preset, format, strict } = parsed.data;
+
+    let gameState = parsed.data.gameState;
+    if (parsed.data.decklist) {
+      const { errors, ...deck } = parseDecklist(parsed.data.decklist);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid decklist', details: errors }, { status: 400 });
+      }
+      gameState = attachDecklist(gameState, deck);
+    }
 
     // Build grounding packet
-    const groundingResult = await buildGroundingPacket(gameState, preset, format);
+    const groundingResult = await buildGroundingPacket(gameState, preset, format, { strict });
 
     if (groundingResult.warnings.length > 0) {
       console.warn('Grounding warnings:', groundingResult.warnings);
@@ -60,10 +84,23 @@ export async function POST(request: NextRequest) {
         citations: pipelineResult.referee.data.citations,
         meta: pipelineResult.referee.meta,
       },
+      stateBasedActionCheck: pipelineResult.stateBasedActionCheck,
+      manaCostCheck: pipelineResult.manaCostCheck,
+      combatCheck: pipelineResult.combatCheck,
       finalRecommendation: pipelineResult.finalRecommendation,
-      groundingWarnings: groundingResult.warnings,
+      groundingWarnings: migration.upgrade
+        ? [describeSchemaUpgrade(migration.upgrade), ...groundingResult.warnings]
+        : groundingResult.warnings,
+      zoneIssues: groundingResult.zoneIssues,
+      schemaUpgrade: migration.upgrade,
     });
   } catch (error) {
+    if (error instanceof ZoneValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid game state', message: error.message, details: error.issues },
+        { status: 400 }
+      );
+    }
     console.error('Pipeline error:', error);
     return NextResponse.json(
       {
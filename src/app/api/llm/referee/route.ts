@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { GroundingPacketSchema } from '@/lib/schemas/grounding-packet';
+import { migrateGroundingPacket } from '@/lib/schemas/migrations';
 import { callReferee } from '@/lib/llm/client';
 
 const RequestSchema = z.object({
@@ -15,7 +16,17 @@ const RequestSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = RequestSchema.safeParse(body);
+
+    // Older groundingPacket versions are upgraded before validation
+    const migration = migrateGroundingPacket(body?.groundingPacket);
+    if (!migration.success) {
+      return NextResponse.json(
+        { error: 'Unsupported schema version', message: migration.error },
+        { status: 400 }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse({ ...body, groundingPacket: migration.document });
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -34,6 +45,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       ...result.data,
       meta: result.meta,
+      schemaUpgrade: migration.upgrade,
     });
   } catch (error) {
     console.error('Referee error:', error);
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { GroundingPacketSchema } from '@/lib/schemas/grounding-packet';
+import { migrateGroundingPacket } from '@/lib/schemas/migrations';
 import { callRulesClerk } from '@/lib/llm/client';
+import { compareStateBasedActions } from '@/lib/rules/state-based-actions';
+import { checkLegalActionCosts } from '@/lib/rules/mana-solver';
+import { attachCombatOutcomes } from '@/lib/rules/combat';
+import { getPlayer } from '@/lib/schemas/game-state';
 
 const RequestSchema = z.object({
   groundingPacket: GroundingPacketSchema,
@@ -11,7 +16,17 @@ const RequestSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = RequestSchema.safeParse(body);
+
+    // Older groundingPacket versions are upgraded before validation
+    const migration = migrateGroundingPacket(body?.groundingPacket);
+    if (!migration.success) {
+      return NextResponse.json(
+        { error: 'Unsupported schema version', message: migration.error },
+        { status: 400 }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse({ ...body, groundingPacket: migration.document });
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -29,7 +44,19 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       ...result.data,
+      legalActions: attachCombatOutcomes(result.data.legalActions, groundingPacket.gameState, groundingPacket.cardDatabase),
+      stateBasedActionCheck: groundingPacket.stateBasedActions
+        ? compareStateBasedActions(groundingPacket.stateBasedActions, result.data.stateBasedActions)
+        : undefined,
+      manaCostCheck: groundingPacket.availableMana
+        ? checkLegalActionCosts(
+            result.data.legalActions,
+            groundingPacket.availableMana,
+            getPlayer(groundingPacket.gameState, groundingPacket.availableMana.player)?.life ?? 0
+          )
+        : undefined,
       meta: result.meta,
+      schemaUpgrade: migration.upgrade,
     });
   } catch (error) {
     console.error('Rules Clerk error:', error);
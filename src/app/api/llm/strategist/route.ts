@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { GroundingPacketSchema } from '@/lib/schemas/grounding-packet';
+import { migrateGroundingPacket } from '@/lib/schemas/migrations';
 import { LegalActionSchema } from '@/lib/llm/schemas';
 import { callStrategist } from '@/lib/llm/client';
+import { attachCombatOutcomes, checkCombatOutcomes } from '@/lib/rules/combat';
 
 const RequestSchema = z.object({
   groundingPacket: GroundingPacketSchema,
@@ -13,7 +15,17 @@ const RequestSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = RequestSchema.safeParse(body);
+
+    // Older groundingPacket versions are upgraded before validation
+    const migration = migrateGroundingPacket(body?.groundingPacket);
+    if (!migration.success) {
+      return NextResponse.json(
+        { error: 'Unsupported schema version', message: migration.error },
+        { status: 400 }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse({ ...body, groundingPacket: migration.document });
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -25,13 +37,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { groundingPacket, legalActions, preset } = parsed.data;
+    const { groundingPacket, preset } = parsed.data;
+    const legalActions = attachCombatOutcomes(parsed.data.legalActions, groundingPacket.gameState, groundingPacket.cardDatabase);
 
     const result = await callStrategist(groundingPacket, legalActions, preset);
 
     return NextResponse.json({
       ...result.data,
+      combatCheck: checkCombatOutcomes(legalActions, result.data.rankedLines, groundingPacket.gameState),
       meta: result.meta,
+      schemaUpgrade: migration.upgrade,
     });
   } catch (error) {
     console.error('Strategist error:', error);
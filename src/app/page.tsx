@@ -4,12 +4,15 @@ import { useState, useCallback } from 'react';
 import { PresetSelector } from '@/components/PresetSelector';
 import { FormatSelector } from '@/components/FormatSelector';
 import { GameStateEditor } from '@/components/GameStateEditor';
+import { ArenaLogImport } from '@/components/ArenaLogImport';
 import { CardResolutionDisplay } from '@/components/CardResolutionDisplay';
 import { GroundingPreview } from '@/components/GroundingPreview';
 import { LLMPipeline } from '@/components/LLMPipeline';
 import { ResultsPanel } from '@/components/ResultsPanel';
+import { createHistory, pushHistory, type GameHistory } from '@/lib/history/timeline';
+import { carryOverEffects, clearExpiredEffects } from '@/lib/rules/effects';
 import type { PresetKey } from '@/lib/utils/presets';
-import type { GameState } from '@/lib/schemas/game-state';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
 import type { GroundingPacket } from '@/lib/schemas/grounding-packet';
 import type { RulesClerkOutput, StrategistOutput, RefereeOutput, LegalAction } from '@/lib/llm/schemas';
 
@@ -40,6 +43,7 @@ export default function Home() {
   const [gameStateJson, setGameStateJson] = useState('');
   const [parsedGameState, setParsedGameState] = useState<GameState | null>(null);
   const [isValidJson, setIsValidJson] = useState(false);
+  const [history, setHistory] = useState<GameHistory>(createHistory);
 
   // Resolution state
   const [resolutions, setResolutions] = useState<Resolution[]>([]);
@@ -77,6 +81,14 @@ export default function Home() {
     setRefereeStatus('idle');
   }, []);
 
+  const handleArenaImport = useCallback((imported: GameState) => {
+    // Arena doesn't log the effects ledger, so it carries over from the board being replaced
+    const { state } = carryOverEffects(parsedGameState, imported);
+    setGameStateJson(JSON.stringify(state, null, 2));
+    handleValidate(true, state);
+    setHistory(previous => pushHistory(previous, state));
+  }, [handleValidate, parsedGameState]);
+
   const handleResolveAndGround = async () => {
     if (!parsedGameState) return;
 
@@ -111,9 +123,7 @@ export default function Home() {
     }
   };
 
-  const handleRunPipeline = async () => {
-    if (!parsedGameState) return;
-
+  const runPipeline = async (gameState: GameState) => {
     setIsRunningPipeline(true);
     setError(null);
     setRulesClerkStatus('running');
@@ -125,7 +135,7 @@ export default function Home() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          gameState: parsedGameState,
+          gameState,
           preset,
           format: format || undefined,
         }),
@@ -164,6 +174,23 @@ export default function Home() {
     }
   };
 
+  const handleRunPipeline = () => {
+    if (!parsedGameState) return;
+
+    // Expired effects leave the ledger, and new ones are stamped with the turn they were added
+    const { state } = clearExpiredEffects(parsedGameState);
+    if (parsedGameState.effects) {
+      setGameStateJson(JSON.stringify(state, null, 2));
+      setParsedGameState(state);
+    }
+
+    // Every analysed state goes on the timeline (a no-op if it is unchanged)
+    const parsed = GameStateSchema.safeParse(state);
+    if (parsed.success) setHistory(previous => pushHistory(previous, parsed.data));
+
+    runPipeline(state);
+  };
+
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
       {/* Header */}
@@ -191,10 +218,15 @@ export default function Home() {
 
           {/* Game State Editor */}
           <div className="p-4 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+            {preset.startsWith('arena') && <ArenaLogImport onImport={handleArenaImport} />}
+
             <GameStateEditor
               value={gameStateJson}
               onChange={setGameStateJson}
               onValidate={handleValidate}
+              history={history}
+              onHistoryChange={setHistory}
+              onRunSnapshot={runPipeline}
             />
 
             {/* Resolve Button */}
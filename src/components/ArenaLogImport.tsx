@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { GameState } from '@/lib/schemas/game-state';
+
+interface ArenaLogImportProps {
+  onImport: (state: GameState) => void;
+}
+
+interface ArenaImportResponse {
+  gameState: GameState;
+  gameStateId?: number;
+  warnings: string[];
+}
+
+export function ArenaLogImport({ onImport }: ArenaLogImportProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [isWatching, setIsWatching] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  // Close the live tail when the component goes away
+  useEffect(() => () => eventSourceRef.current?.close(), []);
+
+  const applyResult = (data: ArenaImportResponse) => {
+    onImport(data.gameState);
+    setWarnings(data.warnings);
+    setStatus(`Turn ${data.gameState.turn}, ${data.gameState.phase}${data.gameStateId ? ` (state #${data.gameStateId})` : ''}`);
+  };
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/arena/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ log: await file.text() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to import Arena log');
+      }
+
+      applyResult(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'An error occurred');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleWatch = () => {
+    if (isWatching) {
+      eventSourceRef.current?.close();
+      eventSourceRef.current = null;
+      setIsWatching(false);
+      setStatus(null);
+      return;
+    }
+
+    setError(null);
+    const source = new EventSource('/api/arena/watch');
+    eventSourceRef.current = source;
+    setIsWatching(true);
+    setStatus('Waiting for a game...');
+
+    source.addEventListener('state', event => {
+      applyResult(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('warning', event => {
+      setWarnings([JSON.parse((event as MessageEvent).data).message]);
+    });
+    source.onerror = () => {
+      // The watch route answers 404 when it can't find Player.log
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Lost connection to the Arena log watcher. Is ARENA_LOG_PATH set on the server?');
+        setIsWatching(false);
+        setStatus(null);
+      }
+    };
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mb-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          MTG Arena
+        </label>
+        <div className="flex items-center gap-3 text-xs">
+          <label className={`text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 ${
+            isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+          }`}>
+            {isImporting ? 'Importing...' : 'Import Player.log'}
+            <input
+              type="file"
+              accept=".log,.txt"
+              className="hidden"
+              disabled={isImporting}
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={toggleWatch}
+            className={isWatching
+              ? 'text-red-600 hover:text-red-700 dark:text-red-400'
+              : 'text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300'}
+          >
+            {isWatching ? 'Stop Watching' : 'Watch Live'}
+          </button>
+        </div>
+      </div>
+
+      {status && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {isWatching && <span className="inline-block w-2 h-2 mr-1 rounded-full bg-green-500" />}
+          {status}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {warnings.map((warning, i) => (
+        <p key={i} className="text-xs text-amber-600 dark:text-amber-400">
+          ⚠ {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
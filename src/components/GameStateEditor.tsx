@@ -1,7 +1,18 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { GameState } from '@/lib/schemas/game-state';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
+import { parseNotation, formatNotationIssue, type NotationIssue } from '@/lib/notation/parser';
+import { printNotation } from '@/lib/notation/printer';
+import { EXAMPLE_NOTATION } from '@/lib/notation/grammar';
+import { lintGameState, type IntegrityIssue } from '@/lib/rules/integrity';
+import {
+  getCurrentEntry,
+  goToEntry,
+  pushHistory,
+  stepHistory,
+  type GameHistory,
+} from '@/lib/history/timeline';
 
 // Example state uses a simpler format - the actual schema has defaults
 const EXAMPLE_STATE = {
@@ -37,19 +48,42 @@ const EXAMPLE_STATE = {
   stack: [],
 } as const;
 
+type EditorMode = 'json' | 'notation';
+
 interface GameStateEditorProps {
   value: string;
   onChange: (value: string) => void;
   onValidate: (valid: boolean, state: GameState | null) => void;
+  history?: GameHistory;
+  onHistoryChange?: (history: GameHistory) => void;
+  onRunSnapshot?: (state: GameState) => void;
 }
 
-export function GameStateEditor({ value, onChange, onValidate }: GameStateEditorProps) {
+export function GameStateEditor({
+  value,
+  onChange,
+  onValidate,
+  history,
+  onHistoryChange,
+  onRunSnapshot,
+}: GameStateEditorProps) {
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<EditorMode>('json');
+  const [notation, setNotation] = useState('');
+  const [notationErrors, setNotationErrors] = useState<NotationIssue[]>([]);
+  const [integrityIssues, setIntegrityIssues] = useState<IntegrityIssue[]>([]);
+
+  // Lint states that pass the schema; anything else is left to the schema errors
+  const lint = useCallback((candidate: unknown) => {
+    const parsed = GameStateSchema.safeParse(candidate);
+    setIntegrityIssues(parsed.success ? lintGameState(parsed.data) : []);
+  }, []);
 
   const handleChange = useCallback(
     (newValue: string) => {
       onChange(newValue);
       setError(null);
+      setIntegrityIssues([]);
 
       if (!newValue.trim()) {
         onValidate(false, null);
@@ -58,16 +92,89 @@ export function GameStateEditor({ value, onChange, onValidate }: GameStateEditor
 
       try {
         const parsed = JSON.parse(newValue);
+        lint(parsed);
         onValidate(true, parsed);
       } catch (e) {
         setError('Invalid JSON');
         onValidate(false, null);
       }
     },
-    [onChange, onValidate]
+    [onChange, onValidate, lint]
+  );
+
+  const handleNotationChange = useCallback(
+    (newValue: string) => {
+      setNotation(newValue);
+      setNotationErrors([]);
+      setIntegrityIssues([]);
+
+      if (!newValue.trim()) {
+        onValidate(false, null);
+        return;
+      }
+
+      const result = parseNotation(newValue);
+      if (!result.success) {
+        setNotationErrors(result.errors);
+        onValidate(false, null);
+        return;
+      }
+
+      // Keep the JSON view in sync so switching back shows the same state
+      onChange(JSON.stringify(result.data, null, 2));
+      setError(null);
+      lint(result.data);
+      onValidate(true, result.data);
+    },
+    [onChange, onValidate, lint]
   );
 
+  const switchMode = (newMode: EditorMode) => {
+    if (newMode === mode) return;
+
+    if (newMode === 'notation') {
+      // Carry the current JSON over when it describes a valid state
+      try {
+        const parsed = GameStateSchema.safeParse(JSON.parse(value));
+        if (parsed.success) {
+          setNotation(printNotation(parsed.data));
+          setNotationErrors([]);
+        }
+      } catch {
+        // Keep whatever notation was there before
+      }
+    }
+
+    setMode(newMode);
+  };
+
+  const showSnapshot = (next: GameHistory) => {
+    const entry = getCurrentEntry(next);
+    if (!entry || !onHistoryChange) return;
+    onHistoryChange(next);
+    if (mode === 'notation') setNotation(printNotation(entry.state));
+    handleChange(JSON.stringify(entry.state, null, 2));
+  };
+
+  const takeSnapshot = () => {
+    if (!history || !onHistoryChange) return;
+    try {
+      const parsed = GameStateSchema.safeParse(JSON.parse(value));
+      if (!parsed.success) {
+        setError('Only a valid game state can be snapshotted');
+        return;
+      }
+      onHistoryChange(pushHistory(history, parsed.data));
+    } catch {
+      setError('Invalid JSON');
+    }
+  };
+
   const loadExample = () => {
+    if (mode === 'notation') {
+      handleNotationChange(EXAMPLE_NOTATION);
+      return;
+    }
     const exampleJson = JSON.stringify(EXAMPLE_STATE, null, 2);
     handleChange(exampleJson);
   };
@@ -76,38 +183,166 @@ export function GameStateEditor({ value, onChange, onValidate }: GameStateEditor
     <div className="flex flex-col gap-2">
       <div className="flex items-center justify-between">
         <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
-          Game State (JSON)
+          Game State ({mode === 'json' ? 'JSON' : 'Notation'})
         </label>
-        <button
-          onClick={loadExample}
-          className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-        >
-          Load Example
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex text-xs rounded-md border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+            {(['json', 'notation'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => switchMode(option)}
+                className={`px-2 py-1 ${
+                  mode === option
+                    ? 'bg-blue-600 text-white'
+                    : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                }`}
+              >
+                {option === 'json' ? 'JSON' : 'Notation'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={loadExample}
+            className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Load Example
+          </button>
+        </div>
       </div>
 
-      <textarea
-        value={value}
-        onChange={e => handleChange(e.target.value)}
-        placeholder="Paste your game state JSON here..."
-        className={`w-full h-80 p-3 text-sm font-mono rounded-md border ${
-          error
-            ? 'border-red-500 focus:ring-red-500'
-            : 'border-zinc-300 dark:border-zinc-700 focus:ring-blue-500'
-        } bg-white dark:bg-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2`}
-        spellCheck={false}
-      />
-
-      {error && <p className="text-xs text-red-500">{error}</p>}
-
-      <div className="text-xs text-zinc-500 dark:text-zinc-400 space-y-1">
-        <p>Required fields: turn, phase, priority</p>
-        <p>
-          Phase values: untap, upkeep, draw, precombat_main, begin_combat,
-          declare_attackers, declare_blockers, combat_damage, end_combat,
-          postcombat_main, end, cleanup
-        </p>
-      </div>
+      {mode === 'json' ? (
+        <textarea
+          value={value}
+          onChange={e => handleChange(e.target.value)}
+          placeholder="Paste your game state JSON here..."
+          className={`w-full h-80 p-3 text-sm font-mono rounded-md border ${
+            error
+              ? 'border-red-500 focus:ring-red-500'
+              : 'border-zinc-300 dark:border-zinc-700 focus:ring-blue-500'
+          } bg-white dark:bg-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2`}
+          spellCheck={false}
+        />
+      ) : (
+        <textarea
+          value={notation}
+          onChange={e => handleNotationChange(e.target.value)}
+          placeholder="T5 main1 me:18 opp:7 | bf: Llanowar Elves(T), Forest x3 | hand: Lightning Bolt"
+          className={`w-full h-48 p-3 text-sm font-mono rounded-md border ${
+            notationErrors.length > 0
+              ? 'border-red-500 focus:ring-red-500'
+              : 'border-zinc-300 dark:border-zinc-700 focus:ring-blue-500'
+          } bg-white dark:bg-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2`}
+          spellCheck={false}
+        />
+      )}
+
+      {history && onHistoryChange && (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-zinc-500 dark:text-zinc-400">
+              History {history.entries.length > 0 && `(${history.current + 1}/${history.entries.length})`}
+            </span>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => showSnapshot(stepHistory(history, -1))}
+                disabled={history.current <= 0}
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ◀ Back
+              </button>
+              <button
+                onClick={() => showSnapshot(stepHistory(history, 1))}
+                disabled={history.current >= history.entries.length - 1}
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Forward ▶
+              </button>
+              <button
+                onClick={takeSnapshot}
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Snapshot
+              </button>
+            </div>
+          </div>
+
+          {history.entries.length > 0 && (
+            <ol className="max-h-40 overflow-y-auto text-xs rounded-md border border-zinc-200 dark:border-zinc-800 divide-y divide-zinc-200 dark:divide-zinc-800">
+              {history.entries.map((entry, i) => (
+                <li
+                  key={entry.id}
+                  className={`flex items-center justify-between gap-2 px-2 py-1 ${
+                    i === history.current ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  }`}
+                >
+                  <button
+                    onClick={() => showSnapshot(goToEntry(history, i))}
+                    className="flex-1 text-left truncate text-zinc-700 dark:text-zinc-300"
+                    title={entry.label}
+                  >
+                    <span className="text-zinc-400 mr-2">{new Date(entry.createdAt).toLocaleTimeString()}</span>
+                    {entry.label}
+                  </button>
+                  {onRunSnapshot && (
+                    <button
+                      onClick={() => onRunSnapshot(entry.state)}
+                      className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      Run
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {mode === 'json' && error && <p className="text-xs text-red-500">{error}</p>}
+
+      {mode === 'notation' && notationErrors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-0.5 font-mono">
+          {notationErrors.map((issue, i) => (
+            <li key={i}>{formatNotationIssue(issue)}</li>
+          ))}
+        </ul>
+      )}
+
+      {integrityIssues.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {integrityIssues.map((issue, i) => (
+            <li
+              key={i}
+              className={issue.severity === 'error' ? 'text-red-500' : 'text-amber-600 dark:text-amber-400'}
+            >
+              <span className="font-mono">{issue.path}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {mode === 'notation' ? (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400 space-y-1">
+          <p>Header: T5 main1 me:18 opp:7 active:opp prio:me mana:2G lands:1 fmt:modern</p>
+          <p>
+            Zones: bf, hand, gy, exile, lib, cmd, sb, companion, out, stack — prefix with opp (or a seat ID) for other players.
+            Separate zones with | and cards with commas; quote names containing commas.
+          </p>
+          <p>
+            Cards: Name(T, SS, id:x, on:x, dmg:2, atk, blk:x, ctrl:opp)[+1/+1:2] x3 — tokens: Name(token, 1/1) —
+            stack: Name(by:opp, tgt:x, ability)
+          </p>
+        </div>
+      ) : (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400 space-y-1">
+          <p>Required fields: turn, phase, priority, and either you + opponent or players (3–6 seats)</p>
+          <p>
+            Phase values: untap, upkeep, draw, precombat_main, begin_combat,
+            declare_attackers, declare_blockers, combat_damage, end_combat,
+            postcombat_main, end, cleanup
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ArenaCard } from '@prisma/client';
+import { getPlayer } from '@/lib/schemas/game-state';
+import { resolveArenaIds } from '@/lib/scryfall/card-resolver';
+import { importArenaMatch, type ArenaCardCache } from './import';
+import { applyArenaLogLines, createArenaMatch, parseArenaLog } from './log-parser';
+
+vi.mock('@/lib/scryfall/card-resolver', () => ({
+  resolveArenaIds: vi.fn(),
+}));
+
+const CARDS: Record<number, string> = {
+  95206: 'Forest',
+  93927: 'Llanowar Elves',
+  92863: 'Shock',
+  93963: 'Grizzly Bears',
+  95200: 'Mountain',
+};
+
+const log = readFileSync(join(__dirname, 'fixtures', 'player-log-excerpt.log'), 'utf8');
+
+beforeEach(() => {
+  vi.mocked(resolveArenaIds).mockReset().mockImplementation(async grpIds => new Map(
+    grpIds
+      .filter(grpId => CARDS[grpId])
+      .map(grpId => [grpId, { grpId, name: CARDS[grpId], oracleId: `oracle-${grpId}` } as ArenaCard])
+  ));
+});
+
+describe('importArenaMatch', () => {
+  it('builds the game state of the latest match', async () => {
+    const { gameState } = await importArenaMatch(parseArenaLog(log));
+
+    expect(gameState).toMatchObject({
+      turn: 5,
+      phase: 'combat_damage',
+      activePlayer: 'you',
+      priority: 'you',
+      life: { you: 20, opponent: 15 },
+      landsPlayedThisTurn: 1,
+    });
+    const you = getPlayer(gameState, 'you')!.zones;
+    const opponent = getPlayer(gameState, 'opponent')!.zones;
+
+    expect(you.battlefield.map(object => object.name)).toEqual([
+      'Forest',
+      'Forest',
+      'Forest',
+      'Llanowar Elves',
+    ]);
+    expect(you.battlefield[3]).toMatchObject({
+      id: '203',
+      tapped: true,
+      attacking: true,
+      attackingTarget: 'opponent',
+      counters: { '+1/+1': 1 },
+    });
+    expect(opponent.battlefield[1]).toMatchObject({ name: 'Grizzly Bears', summoningSick: true });
+    expect(opponent.hand).toEqual({ count: 3 });
+    expect(opponent.graveyard).toEqual([{ name: 'Shock', oracleId: 'oracle-92863' }]);
+    expect(you.library).toEqual({ count: 49 });
+  });
+
+  it('reports grpIds no card was found for', async () => {
+    const result = await importArenaMatch(parseArenaLog(log));
+
+    expect(result.unknownGrpIds).toEqual([99999999]);
+    expect(result.warnings).toContain('No card found for Arena grpId 99999999');
+  });
+
+  it('only looks up grpIds missing from the cache', async () => {
+    const lines = log.split(/\r?\n/);
+    const firstDiff = lines.findIndex(line => line.includes('GameStateType_Diff'));
+    const match = createArenaMatch();
+    const cache: ArenaCardCache = new Map();
+
+    applyArenaLogLines(match, lines.slice(0, firstDiff));
+    await importArenaMatch(match, cache);
+    applyArenaLogLines(match, lines.slice(firstDiff));
+    await importArenaMatch(match, cache);
+
+    expect(resolveArenaIds).toHaveBeenCalledTimes(1);
+    expect(cache.get(99999999)).toBeNull();
+  });
+
+  it('rejects a log without a game', async () => {
+    await expect(importArenaMatch(createArenaMatch())).rejects.toThrow('No game state found');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * MTG Arena import - resolves grpIds and builds the GameState
+ */
+
+import { resolveArenaIds } from '@/lib/scryfall/card-resolver';
+import type { ArenaMatch } from './log-parser';
+import {
+  arenaMatchToGameState,
+  collectGrpIds,
+  type ArenaCardInfo,
+  type ArenaImportResult,
+} from './to-game-state';
+
+// grpId -> card, or null when Scryfall doesn't know the grpId
+export type ArenaCardCache = Map<number, ArenaCardInfo | null>;
+
+/**
+ * Convert the current state of a match, looking up grpIds not yet in the cache.
+ * Pass the same cache across calls when following a live log.
+ */
+export async function importArenaMatch(
+  match: ArenaMatch,
+  cache: ArenaCardCache = new Map()
+): Promise<ArenaImportResult> {
+  const missing = collectGrpIds(match).filter(grpId => !cache.has(grpId));
+
+  if (missing.length > 0) {
+    const resolved = await resolveArenaIds(missing);
+    for (const grpId of missing) {
+      const card = resolved.get(grpId);
+      cache.set(grpId, card ? { name: card.name, oracleId: card.oracleId } : null);
+    }
+  }
+
+  return arenaMatchToGameState(match, cache);
+}
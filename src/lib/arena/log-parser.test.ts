@@ -0,0 +1,50 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { applyArenaLogLines, createArenaMatch, parseArenaLog } from './log-parser';
+
+const log = readFileSync(join(__dirname, 'fixtures', 'player-log-excerpt.log'), 'utf8');
+const lines = log.split(/\r?\n/);
+
+describe('applyArenaLogLines', () => {
+  it('ignores lines without game state messages', () => {
+    const match = createArenaMatch();
+    const roomState = lines.findIndex(line => line.includes('"matchGameRoomStateChangedEvent"'));
+
+    expect(applyArenaLogLines(match, lines.slice(0, roomState + 1))).toBe(false);
+    expect(match.messagesApplied).toBe(0);
+    expect(match.playerNames.get(2)).toBe('Sparky');
+  });
+
+  it('starts over when a new match begins', () => {
+    const match = createArenaMatch();
+    applyArenaLogLines(match, lines);
+
+    expect(match.matchId).toBe('4C0FFEE1-2B7A-4F1D-9C3E-0D5A3B6E7F81');
+    expect(match.playerNames.get(2)).toBe('Goldfish');
+    expect(match.messagesApplied).toBe(3);
+    expect(match.localSeat).toBe(1);
+  });
+
+  it('folds diffs into the full state', () => {
+    const match = createArenaMatch();
+    applyArenaLogLines(match, lines);
+
+    expect(match.gameStateId).toBe(43);
+    expect(match.players.get(2)?.lifeTotal).toBe(15);
+    expect(match.turnInfo).toMatchObject({ turnNumber: 5, step: 'Step_CombatDamage', activePlayer: 1 });
+    expect(match.objects.has(220)).toBe(false);
+    expect(match.objects.get(250)?.zoneId).toBe(28);
+    expect(match.objects.get(203)).toMatchObject({ isTapped: true, attackState: 'AttackState_Attacking' });
+    expect(match.persistentAnnotations.has(7)).toBe(true);
+    expect(match.landsPlayed).toEqual({ turn: 5, count: 1 });
+  });
+
+  it('reaches the same state line by line as all at once', () => {
+    const match = createArenaMatch();
+    const changed = lines.map(line => applyArenaLogLines(match, [line]));
+
+    expect(changed.filter(Boolean)).toHaveLength(4);
+    expect(match).toEqual(parseArenaLog(log));
+  });
+});
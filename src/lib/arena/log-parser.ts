@@ -0,0 +1,276 @@
+/**
+ * MTG Arena Player.log parser
+ * Reads the GRE (Game Rules Engine) JSON messages Arena writes to Player.log
+ * (with detailed logs enabled) and folds the full and diff game state messages
+ * into the current match state.
+ */
+
+// ============ GRE Message Types ============
+// Only the fields the importer reads; Arena sends many more.
+
+export interface GreGameObject {
+  instanceId: number;
+  grpId: number;
+  type: string; // GameObjectType_Card, GameObjectType_Token, GameObjectType_Ability, ...
+  zoneId: number;
+  visibility?: string;
+  ownerSeatId: number;
+  controllerSeatId?: number;
+  cardTypes?: string[];
+  subtypes?: string[];
+  superTypes?: string[];
+  color?: string[];
+  power?: { value: number };
+  toughness?: { value: number };
+  loyalty?: { value: number };
+  isTapped?: boolean;
+  hasSummoningSickness?: boolean;
+  damage?: number;
+  attackState?: string;
+  attackInfo?: { targetId?: number };
+  blockState?: string;
+  blockInfo?: { attackerIds?: number[] };
+  parentId?: number; // Source of an ability on the stack
+  objectSourceGrpId?: number;
+  isFacedown?: boolean;
+}
+
+export interface GreZone {
+  zoneId: number;
+  type: string; // ZoneType_Hand, ZoneType_Battlefield, ...
+  visibility?: string;
+  ownerSeatId?: number;
+  objectInstanceIds?: number[];
+}
+
+export interface GrePlayer {
+  systemSeatNumber: number;
+  lifeTotal: number;
+  status?: string; // PlayerStatus_InGame
+}
+
+export interface GreTurnInfo {
+  turnNumber?: number;
+  phase?: string;
+  step?: string;
+  activePlayer?: number;
+  priorityPlayer?: number;
+  decisionPlayer?: number;
+}
+
+export interface GreAnnotation {
+  id: number;
+  affectorId?: number;
+  affectedIds?: number[];
+  type: string[];
+  details?: Array<{
+    key: string;
+    valueInt32?: number[];
+    valueString?: string[];
+  }>;
+}
+
+export interface GreGameStateMessage {
+  type?: string; // GameStateType_Full or GameStateType_Diff
+  gameStateId?: number;
+  gameInfo?: {
+    matchID?: string;
+    gameNumber?: number;
+    stage?: string;
+    matchState?: string;
+  };
+  players?: GrePlayer[];
+  turnInfo?: GreTurnInfo;
+  zones?: GreZone[];
+  gameObjects?: GreGameObject[];
+  annotations?: GreAnnotation[];
+  persistentAnnotations?: GreAnnotation[];
+  diffDeletedInstanceIds?: number[];
+  diffDeletedPersistentAnnotationIds?: number[];
+}
+
+// ============ Match State ============
+
+export interface ArenaMatch {
+  matchId?: string;
+  gameNumber?: number;
+  localSeat?: number; // Seat of the player whose log this is
+  playerNames: Map<number, string>;
+  gameStateId?: number;
+  players: Map<number, GrePlayer>;
+  turnInfo: GreTurnInfo;
+  zones: Map<number, GreZone>;
+  objects: Map<number, GreGameObject>;
+  persistentAnnotations: Map<number, GreAnnotation>;
+  landsPlayed: { turn: number; count: number };
+  messagesApplied: number;
+}
+
+export function createArenaMatch(): ArenaMatch {
+  return {
+    playerNames: new Map(),
+    players: new Map(),
+    turnInfo: {},
+    zones: new Map(),
+    objects: new Map(),
+    persistentAnnotations: new Map(),
+    landsPlayed: { turn: 0, count: 0 },
+    messagesApplied: 0,
+  };
+}
+
+// ============ Log Parsing ============
+
+/**
+ * Parse a whole Player.log into the state of the last match it contains
+ */
+export function parseArenaLog(text: string): ArenaMatch {
+  const match = createArenaMatch();
+  applyArenaLogLines(match, text.split(/\r?\n/));
+  return match;
+}
+
+/**
+ * Apply complete log lines to a match. Returns true when the game state changed.
+ * Lines that aren't GRE JSON are ignored.
+ */
+export function applyArenaLogLines(match: ArenaMatch, lines: string[]): boolean {
+  let changed = false;
+
+  for (const line of lines) {
+    const event = parseJsonLine(line);
+    if (!event) continue;
+
+    const roomState = event.matchGameRoomStateChangedEvent as RoomStateEvent | undefined;
+    if (roomState) {
+      applyRoomState(match, roomState);
+      continue;
+    }
+
+    const greEvent = event.greToClientEvent as { greToClientMessages?: GreMessage[] } | undefined;
+    for (const message of greEvent?.greToClientMessages ?? []) {
+      if (message.type !== 'GREMessageType_GameStateMessage' || !message.gameStateMessage) continue;
+
+      if (match.localSeat === undefined && message.systemSeatIds?.length) {
+        match.localSeat = message.systemSeatIds[0];
+      }
+      applyGameStateMessage(match, message.gameStateMessage);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+interface GreMessage {
+  type: string;
+  systemSeatIds?: number[];
+  gameStateMessage?: GreGameStateMessage;
+}
+
+interface RoomStateEvent {
+  gameRoomInfo?: {
+    gameRoomConfig?: {
+      matchId?: string;
+      reservedPlayers?: Array<{ playerName?: string; systemSeatId?: number }>;
+    };
+  };
+}
+
+/**
+ * Log lines carry JSON either on their own or after a "[UnityCrossThreadLogger]..." prefix
+ */
+function parseJsonLine(line: string): Record<string, unknown> | null {
+  const start = line.indexOf('{');
+  if (start < 0 || !line.trimEnd().endsWith('}')) return null;
+
+  try {
+    const parsed = JSON.parse(line.slice(start));
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function applyRoomState(match: ArenaMatch, event: RoomStateEvent): void {
+  const config = event.gameRoomInfo?.gameRoomConfig;
+  if (!config) return;
+
+  // A new match starts from scratch
+  if (config.matchId && config.matchId !== match.matchId) {
+    Object.assign(match, createArenaMatch(), { matchId: config.matchId });
+  }
+
+  for (const player of config.reservedPlayers ?? []) {
+    if (player.systemSeatId !== undefined && player.playerName) {
+      match.playerNames.set(player.systemSeatId, player.playerName);
+    }
+  }
+}
+
+// ============ Game State Messages ============
+
+/**
+ * Fold one GameStateMessage into the match. Full messages replace the board;
+ * diff messages update the objects, zones and players they mention.
+ */
+export function applyGameStateMessage(match: ArenaMatch, message: GreGameStateMessage): void {
+  if (message.type === 'GameStateType_Full') {
+    match.players.clear();
+    match.zones.clear();
+    match.objects.clear();
+    match.persistentAnnotations.clear();
+  }
+
+  if (message.gameInfo) {
+    if (message.gameInfo.matchID) match.matchId = message.gameInfo.matchID;
+    if (message.gameInfo.gameNumber !== undefined) match.gameNumber = message.gameInfo.gameNumber;
+  }
+  if (message.gameStateId !== undefined) match.gameStateId = message.gameStateId;
+
+  for (const player of message.players ?? []) {
+    match.players.set(player.systemSeatNumber, player);
+  }
+  if (message.turnInfo) {
+    match.turnInfo = { ...match.turnInfo, ...message.turnInfo };
+  }
+  for (const zone of message.zones ?? []) {
+    match.zones.set(zone.zoneId, zone);
+  }
+  for (const object of message.gameObjects ?? []) {
+    match.objects.set(object.instanceId, object);
+  }
+  for (const instanceId of message.diffDeletedInstanceIds ?? []) {
+    match.objects.delete(instanceId);
+  }
+
+  for (const annotation of message.persistentAnnotations ?? []) {
+    match.persistentAnnotations.set(annotation.id, annotation);
+  }
+  for (const id of message.diffDeletedPersistentAnnotationIds ?? []) {
+    match.persistentAnnotations.delete(id);
+  }
+
+  trackLandsPlayed(match, message.annotations ?? []);
+  match.messagesApplied++;
+}
+
+/**
+ * Count "PlayLand" zone transfers during the current turn
+ */
+function trackLandsPlayed(match: ArenaMatch, annotations: GreAnnotation[]): void {
+  const turn = match.turnInfo.turnNumber ?? 0;
+  if (match.landsPlayed.turn !== turn) {
+    match.landsPlayed = { turn, count: 0 };
+  }
+
+  for (const annotation of annotations) {
+    if (!annotation.type.includes('AnnotationType_ZoneTransfer')) continue;
+    const category = getAnnotationDetail(annotation, 'category')?.valueString?.[0];
+    if (category === 'PlayLand') match.landsPlayed.count++;
+  }
+}
+
+export function getAnnotationDetail(annotation: GreAnnotation, key: string) {
+  return annotation.details?.find(detail => detail.key === key);
+}
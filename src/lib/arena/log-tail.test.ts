@@ -0,0 +1,50 @@
+import { appendFile, copyFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tailArenaLog } from './log-tail';
+
+const fixture = join(__dirname, 'fixtures', 'player-log-excerpt.log');
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'arena-log-'));
+  path = join(dir, 'Player.log');
+  await copyFile(fixture, path);
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('tailArenaLog', () => {
+  it('starts at the line that began the latest match', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    await tailArenaLog(path, lines => {
+      received.push(...lines);
+      controller.abort();
+    }, { signal: controller.signal, intervalMs: 10 });
+
+    expect(received[0]).toContain('"playerName": "Goldfish"');
+    expect(received.some(line => line.includes('Sparky'))).toBe(false);
+    expect(received.at(-1)).toContain('GREMessageType_PromptReq');
+  });
+
+  it('hands over lines appended later, once complete', async () => {
+    const controller = new AbortController();
+    const batches: string[][] = [];
+
+    await tailArenaLog(path, async lines => {
+      batches.push(lines);
+      if (batches.length === 1) await appendFile(path, 'first\r\nsecond');
+      if (batches.length === 2) await appendFile(path, ' half\r\n');
+      if (batches.length === 3) controller.abort();
+    }, { signal: controller.signal, intervalMs: 10 });
+
+    expect(batches.slice(1)).toEqual([['first'], ['second half']]);
+  });
+});
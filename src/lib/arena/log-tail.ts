@@ -0,0 +1,130 @@
+/**
+ * Follow MTG Arena's Player.log as it grows
+ * Polls the file for appended data and hands over complete lines, starting
+ * at the latest match. Arena truncates the log when it restarts; the tail
+ * then starts over.
+ */
+
+import { open, stat } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const POLL_INTERVAL_MS = 1000;
+const CHUNK_SIZE = 1024 * 1024; // Most bytes read at once, however far behind the tail is
+
+// Logged when a match starts; everything before it belongs to earlier matches
+const MATCH_START_MARKER = Buffer.from('MatchGameRoomStateType_Playing');
+
+/**
+ * Where Arena writes Player.log, overridable with ARENA_LOG_PATH
+ */
+export function defaultArenaLogPath(): string {
+  if (process.env.ARENA_LOG_PATH) return process.env.ARENA_LOG_PATH;
+
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Logs', 'Wizards Of The Coast', 'MTGA', 'Player.log');
+  }
+  return join(homedir(), 'AppData', 'LocalLow', 'Wizards Of The Coast', 'MTGA', 'Player.log');
+}
+
+export interface TailOptions {
+  signal: AbortSignal;
+  intervalMs?: number;
+  onReset?: () => void; // The log was truncated (Arena restarted)
+}
+
+/**
+ * Call onLines with every complete line of the log, starting from the line
+ * that began the latest match, until the signal aborts. Each call is awaited
+ * before the next read.
+ */
+export async function tailArenaLog(
+  path: string,
+  onLines: (lines: string[]) => Promise<void> | void,
+  options: TailOptions
+): Promise<void> {
+  const { signal, intervalMs = POLL_INTERVAL_MS, onReset } = options;
+  let offset = await findLastMatchStart(path, (await stat(path)).size);
+  let partial = '';
+  let decoder = new TextDecoder(); // Keeps multi-byte characters split across reads intact
+
+  while (!signal.aborted) {
+    const { size } = await stat(path);
+
+    if (size < offset) {
+      offset = 0;
+      partial = '';
+      decoder = new TextDecoder();
+      onReset?.();
+    }
+
+    for await (const bytes of readChunks(path, offset, size)) {
+      if (signal.aborted) return;
+      offset += bytes.length;
+
+      const lines = (partial + decoder.decode(bytes, { stream: true })).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      if (lines.length > 0) await onLines(lines);
+    }
+
+    await waitFor(intervalMs, signal);
+  }
+}
+
+/**
+ * Byte offset of the line holding the last match start before end, or 0
+ */
+async function findLastMatchStart(path: string, end: number): Promise<number> {
+  let matchStart = 0;
+  let lineStart = 0; // Start of the line the chunk being read begins in
+  let carry = Buffer.alloc(0); // Tail of the previous chunk, for markers split across chunks
+  let position = 0;
+
+  for await (const bytes of readChunks(path, 0, end)) {
+    const buffer = Buffer.concat([carry, bytes]);
+    const bufferStart = position - carry.length;
+
+    const found = buffer.lastIndexOf(MATCH_START_MARKER);
+    if (found >= 0) {
+      const newline = buffer.lastIndexOf(0x0a, found);
+      matchStart = newline >= 0 ? bufferStart + newline + 1 : lineStart;
+    }
+
+    const lastNewline = bytes.lastIndexOf(0x0a);
+    if (lastNewline >= 0) lineStart = position + lastNewline + 1;
+
+    position += bytes.length;
+    carry = buffer.subarray(Math.max(0, buffer.length - (MATCH_START_MARKER.length - 1)));
+  }
+
+  return matchStart;
+}
+
+/**
+ * The bytes from start to end, CHUNK_SIZE at a time
+ */
+async function* readChunks(path: string, start: number, end: number): AsyncGenerator<Buffer> {
+  const file = await open(path, 'r');
+  try {
+    for (let position = start; position < end;) {
+      const buffer = Buffer.alloc(Math.min(CHUNK_SIZE, end - position));
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+      if (bytesRead === 0) return;
+
+      position += bytesRead;
+      yield buffer.subarray(0, bytesRead);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+function waitFor(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * Convert a parsed Arena match into a GameState
+ * Arena identifies cards by grpId; names come from a grpId -> card lookup
+ * built with resolveArenaIds.
+ */
+
+import {
+  GameStateSchema,
+  type CardReference,
+  type CommandObject,
+  type GameState,
+  type Permanent,
+  type Phase,
+  type PlayerId,
+  type StackItem,
+  type Token,
+} from '@/lib/schemas/game-state';
+import {
+  getAnnotationDetail,
+  type ArenaMatch,
+  type GreGameObject,
+  type GreZone,
+} from './log-parser';
+
+export interface ArenaCardInfo {
+  name: string;
+  oracleId: string;
+}
+
+export interface ArenaImportResult {
+  gameState: GameState;
+  warnings: string[];
+  unknownGrpIds: number[];
+}
+
+// ============ Arena Enums ============
+
+const STEP_PHASES: Record<string, Phase> = {
+  Step_Untap: 'untap',
+  Step_Upkeep: 'upkeep',
+  Step_Draw: 'draw',
+  Step_BeginCombat: 'begin_combat',
+  Step_DeclareAttack: 'declare_attackers',
+  Step_DeclareBlock: 'declare_blockers',
+  Step_FirstStrikeDamage: 'combat_damage',
+  Step_CombatDamage: 'combat_damage',
+  Step_EndCombat: 'end_combat',
+  Step_End: 'end',
+  Step_Cleanup: 'cleanup',
+};
+
+const PHASES: Record<string, Phase> = {
+  Phase_Beginning: 'upkeep',
+  Phase_Main1: 'precombat_main',
+  Phase_Combat: 'begin_combat',
+  Phase_Main2: 'postcombat_main',
+  Phase_Ending: 'end',
+};
+
+const COLORS: Record<string, string> = {
+  CardColor_White: 'W',
+  CardColor_Blue: 'U',
+  CardColor_Black: 'B',
+  CardColor_Red: 'R',
+  CardColor_Green: 'G',
+};
+
+// counter_type values of AnnotationType_Counter that map onto our counter names
+const COUNTER_TYPES: Record<number, string> = {
+  1: '+1/+1',
+  2: '-1/-1',
+};
+
+const CARD_OBJECT_TYPES = ['GameObjectType_Card', 'GameObjectType_Token'];
+
+// ============ Conversion ============
+
+/**
+ * Every grpId the conversion will need a name for
+ */
+export function collectGrpIds(match: ArenaMatch): number[] {
+  const grpIds = new Set<number>();
+
+  for (const object of match.objects.values()) {
+    if ((CARD_OBJECT_TYPES.includes(object.type) || object.type === 'GameObjectType_Emblem') && object.grpId) {
+      grpIds.add(object.grpId);
+    }
+    if (object.type === 'GameObjectType_Ability' && object.objectSourceGrpId) grpIds.add(object.objectSourceGrpId);
+  }
+
+  return [...grpIds];
+}
+
+/**
+ * Build a GameState from the current state of an Arena match
+ */
+export function arenaMatchToGameState(
+  match: ArenaMatch,
+  cards: ReadonlyMap<number, ArenaCardInfo | null>
+): ArenaImportResult {
+  if (match.players.size < 2) {
+    throw new Error('No game state found in the log. Enable Detailed Logs in Arena\'s settings and start a game.');
+  }
+
+  const warnings: string[] = [];
+  const unknownGrpIds = new Set<number>();
+
+  // Seats -> player IDs: the log's owner is always "you"
+  const seats = [...match.players.keys()].sort((a, b) => a - b);
+  const localSeat = match.localSeat ?? seats[0];
+  const twoPlayer = seats.length === 2;
+  const playerIds = new Map<number, PlayerId>(
+    seats.map(seat => [
+      seat,
+      seat === localSeat ? 'you' : twoPlayer ? 'opponent' : `seat${seat}`,
+    ])
+  );
+  const toPlayerId = (seat: number | undefined): PlayerId => playerIds.get(seat ?? localSeat) ?? 'you';
+
+  const cardRef = (grpId: number): CardReference => {
+    const card = cards.get(grpId);
+    if (card) return { name: card.name, oracleId: card.oracleId };
+    unknownGrpIds.add(grpId);
+    return { name: `Unknown Arena card ${grpId}` };
+  };
+
+  const counters = collectCounters(match);
+  const attachments = collectAttachments(match);
+
+  // Commanders are cards; emblems are the only command objects Arena logs
+  const commandEntries = (objects: GreGameObject[]): Array<CardReference | CommandObject> => objects.flatMap(object => {
+    if (isCardObject(object)) return [cardRef(object.grpId)];
+    if (object.type === 'GameObjectType_Emblem') return [{ type: 'emblem' as const, ...cardRef(object.grpId) }];
+    return [];
+  });
+
+  const zonesFor = (seat: number) => {
+    const ownedZone = (type: string) => [...match.zones.values()].find(
+      zone => zone.type === type && zone.ownerSeatId === seat
+    );
+    const visible = (zone: GreZone | undefined) => zoneObjects(match, zone).filter(isCardObject);
+    const hand = ownedZone('ZoneType_Hand');
+    const library = ownedZone('ZoneType_Library');
+    const command = ownedZone('ZoneType_Command');
+    // Arena only reveals sideboard cards when an effect can fetch them (Learn, Wishes)
+    const sideboard = visible(ownedZone('ZoneType_Sideboard')).map(object => cardRef(object.grpId));
+    const handSize = hand?.objectInstanceIds?.length ?? 0;
+    const knownHand = visible(hand).map(object => cardRef(object.grpId));
+
+    return {
+      battlefield: [] as Array<Permanent | Token>,
+      hand: seat === localSeat && knownHand.length === handSize
+        ? knownHand
+        : { count: handSize, known: knownHand.length > 0 ? knownHand : undefined },
+      graveyard: visible(ownedZone('ZoneType_Graveyard')).map(object => cardRef(object.grpId)),
+      exile: visible(ownedZone('ZoneType_Exile')).map(object => cardRef(object.grpId)),
+      library: library ? { count: library.objectInstanceIds?.length ?? 0 } : undefined,
+      commandZone: command ? commandEntries(zoneObjects(match, command)) : undefined,
+      sideboard: sideboard.length > 0 ? sideboard : undefined,
+    };
+  };
+
+  const zonesBySeat = new Map(seats.map(seat => [seat, zonesFor(seat)]));
+
+  // Battlefield objects go to their controller's battlefield
+  const battlefield = [...match.zones.values()].find(zone => zone.type === 'ZoneType_Battlefield');
+  for (const object of zoneObjects(match, battlefield)) {
+    if (!isCardObject(object)) continue;
+    if (!object.grpId) {
+      warnings.push(`Skipped a face-down permanent (instance ${object.instanceId})`);
+      continue;
+    }
+
+    const seat = object.controllerSeatId ?? object.ownerSeatId;
+    const permanent = toPermanent(object, cardRef(object.grpId), {
+      counters: counters.get(object.instanceId),
+      attachedTo: attachments.get(object.instanceId),
+      attackTarget: object.attackInfo?.targetId,
+      playerIds,
+    });
+    zonesBySeat.get(seat)?.battlefield.push(permanent);
+  }
+
+  // Arena lists the stack top first; the game state lists it bottom first
+  const stackZone = [...match.zones.values()].find(zone => zone.type === 'ZoneType_Stack');
+  const stack: StackItem[] = zoneObjects(match, stackZone)
+    .reverse()
+    .map(object => {
+      const isAbility = object.type === 'GameObjectType_Ability';
+      return {
+        id: String(object.instanceId),
+        type: isAbility ? 'ability' as const : 'spell' as const,
+        source: cardRef(isAbility ? object.objectSourceGrpId ?? object.grpId : object.grpId),
+        controller: toPlayerId(object.controllerSeatId ?? object.ownerSeatId),
+      };
+    });
+
+  const turnInfo = match.turnInfo;
+  const phase = (turnInfo.step && STEP_PHASES[turnInfo.step]) || (turnInfo.phase && PHASES[turnInfo.phase]) || 'precombat_main';
+  const activePlayer = toPlayerId(turnInfo.activePlayer);
+  const life = (seat: number) => match.players.get(seat)?.lifeTotal ?? 20;
+
+  const base = {
+    turn: Math.max(1, turnInfo.turnNumber ?? 1),
+    phase,
+    priority: toPlayerId(turnInfo.priorityPlayer ?? turnInfo.activePlayer),
+    activePlayer,
+    stack,
+    landsPlayedThisTurn: match.landsPlayed.count, // Only the active player plays lands
+    notes: `Imported from MTG Arena${match.gameNumber ? ` (game ${match.gameNumber})` : ''}`,
+  };
+
+  const opponentSeat = seats.find(seat => seat !== localSeat)!;
+  const raw = twoPlayer
+    ? {
+        ...base,
+        life: { you: life(localSeat), opponent: life(opponentSeat) },
+        you: zonesBySeat.get(localSeat),
+        opponent: zonesBySeat.get(opponentSeat),
+      }
+    : {
+        ...base,
+        perspective: 'you',
+        players: seats.map((seat, turnOrder) => ({
+          id: toPlayerId(seat),
+          name: match.playerNames.get(seat),
+          turnOrder,
+          life: life(seat),
+          zones: zonesBySeat.get(seat),
+          eliminated: match.players.get(seat)?.status === 'PlayerStatus_Eliminated' || undefined,
+        })),
+      };
+
+  if (unknownGrpIds.size > 0) {
+    warnings.push(`No card found for Arena grpId${unknownGrpIds.size > 1 ? 's' : ''} ${[...unknownGrpIds].join(', ')}`);
+  }
+
+  return {
+    gameState: GameStateSchema.parse(raw),
+    warnings,
+    unknownGrpIds: [...unknownGrpIds],
+  };
+}
+
+// ============ Objects ============
+
+function zoneObjects(match: ArenaMatch, zone: GreZone | undefined): GreGameObject[] {
+  return (zone?.objectInstanceIds ?? [])
+    .map(instanceId => match.objects.get(instanceId))
+    .filter((object): object is GreGameObject => object !== undefined);
+}
+
+function isCardObject(object: GreGameObject): boolean {
+  return CARD_OBJECT_TYPES.includes(object.type);
+}
+
+function stripPrefix(value: string): string {
+  return value.replace(/^[A-Za-z]+_/, '');
+}
+
+function toPermanent(
+  object: GreGameObject,
+  ref: CardReference,
+  extra: {
+    counters?: Record<string, number>;
+    attachedTo?: number;
+    attackTarget?: number;
+    playerIds: Map<number, PlayerId>;
+  }
+): Permanent | Token {
+  const counters = { ...extra.counters };
+  if (object.loyalty) counters.loyalty = object.loyalty.value;
+
+  const isCreature = object.cardTypes?.includes('CardType_Creature') ?? false;
+  const attacking = object.attackState === 'AttackState_Attacking' || undefined;
+  const attackingTarget = attacking && extra.attackTarget !== undefined
+    ? extra.playerIds.get(extra.attackTarget) ?? String(extra.attackTarget)
+    : undefined;
+  const blocking = object.blockState === 'BlockState_Blocking' && object.blockInfo?.attackerIds?.length
+    ? String(object.blockInfo.attackerIds[0])
+    : undefined;
+
+  const shared = {
+    id: String(object.instanceId),
+    tapped: object.isTapped ?? false,
+    counters: Object.keys(counters).length > 0 ? counters : undefined,
+    damage: object.damage || undefined,
+    attacking,
+    attackingTarget,
+    blocking,
+  };
+
+  if (object.type === 'GameObjectType_Token') {
+    const unnamed = ref.name.startsWith('Unknown Arena card');
+    return {
+      type: 'token',
+      name: unnamed && object.subtypes?.length ? object.subtypes.map(stripPrefix).join(' ') : ref.name,
+      characteristics: {
+        power: object.power ? String(object.power.value) : undefined,
+        toughness: object.toughness ? String(object.toughness.value) : undefined,
+        colors: (object.color ?? []).map(color => COLORS[color]).filter(Boolean),
+        types: [...(object.superTypes ?? []), ...(object.cardTypes ?? []), ...(object.subtypes ?? [])].map(stripPrefix),
+      },
+      ...shared,
+    };
+  }
+
+  return {
+    ...ref,
+    ...shared,
+    summoningSick: isCreature && (object.hasSummoningSickness ?? false),
+    attachedTo: extra.attachedTo !== undefined ? String(extra.attachedTo) : undefined,
+  };
+}
+
+// ============ Persistent Annotations ============
+
+function collectCounters(match: ArenaMatch): Map<number, Record<string, number>> {
+  const counters = new Map<number, Record<string, number>>();
+
+  for (const annotation of match.persistentAnnotations.values()) {
+    if (!annotation.type.includes('AnnotationType_Counter')) continue;
+
+    const kind = COUNTER_TYPES[getAnnotationDetail(annotation, 'counter_type')?.valueInt32?.[0] ?? -1];
+    const count = getAnnotationDetail(annotation, 'count')?.valueInt32?.[0] ?? 0;
+    if (!kind || count <= 0) continue;
+
+    for (const instanceId of annotation.affectedIds ?? []) {
+      counters.set(instanceId, { ...counters.get(instanceId), [kind]: count });
+    }
+  }
+
+  return counters;
+}
+
+/**
+ * Aura/Equipment instance -> the permanent it is attached to
+ */
+function collectAttachments(match: ArenaMatch): Map<number, number> {
+  const attachments = new Map<number, number>();
+
+  for (const annotation of match.persistentAnnotations.values()) {
+    if (!annotation.type.includes('AnnotationType_Attachment')) continue;
+    const target = annotation.affectedIds?.[0];
+    if (annotation.affectorId !== undefined && target !== undefined) {
+      attachments.set(annotation.affectorId, target);
+    }
+  }
+
+  return attachments;
+}
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPlayer } from '@/lib/schemas/game-state';
+import { resolveCardNames, type CardWithRelations } from '@/lib/scryfall/card-resolver';
+import { parsePuzzle, printPuzzle, type Puzzle } from './puzzle';
+import { resolvePuzzleCards } from './resolve';
+
+vi.mock('@/lib/scryfall/card-resolver', () => ({
+  resolveCardNames: vi.fn(),
+}));
+
+const text = readFileSync(join(__dirname, 'fixtures', 'goblin-rush.pzl'), 'utf8');
+
+function parse(source: string): Puzzle {
+  const result = parsePuzzle(source);
+  if (!result.success) throw new Error(result.errors.map(e => `${e.line}: ${e.message}`).join('; '));
+  expect(result.warnings).toEqual([]);
+  return result.data;
+}
+
+describe('parsePuzzle', () => {
+  const { metadata, gameState } = parse(text);
+  const you = getPlayer(gameState, 'you')!;
+
+  it('reads metadata, life, turn and the active phase', () => {
+    expect(metadata).toMatchObject({ Name: 'Goblin Rush', Goal: 'Win', Turns: '1' });
+    expect(gameState).toMatchObject({
+      turn: 7,
+      phase: 'precombat_main',
+      activePlayer: 'you',
+      priority: 'you',
+      life: { you: 4, opponent: 12 },
+      playerCounters: { you: { poison: 3 } },
+      landsPlayedThisTurn: 1,
+      notes: 'Win this turn.',
+    });
+  });
+
+  it('reads card modifiers', () => {
+    expect(you.zones.battlefield.slice(0, 4)).toEqual([
+      { name: 'Mountain', tapped: true, summoningSick: false },
+      { name: 'Mountain', tapped: false, summoningSick: false },
+      { name: 'Goblin Guide', tapped: false, summoningSick: true },
+      { name: 'Hero of Oxid Ridge', id: 'hero', tapped: false, summoningSick: false, counters: { '+1/+1': 2 } },
+    ]);
+  });
+
+  it('reads token scripts', () => {
+    expect(you.zones.battlefield[4]).toEqual({
+      type: 'token',
+      name: 'Goblin',
+      characteristics: { power: '1', toughness: '1', colors: ['R'], types: ['Creature', 'Goblin'] },
+      tapped: true,
+    });
+  });
+
+  it('reports the line of an unknown modifier', () => {
+    const result = parsePuzzle('[state]\nturn=2\nhumanbattlefield=Forest|Untapped');
+
+    expect(result).toEqual({
+      success: false,
+      errors: [{ line: 3, message: 'Unknown card modifier "Untapped" on Forest' }],
+    });
+  });
+});
+
+describe('printPuzzle', () => {
+  it('prints a parsed puzzle back to the same text and state', () => {
+    const { metadata, gameState } = parse(text);
+    const printed = printPuzzle(gameState, metadata);
+
+    expect(printed.warnings).toEqual([]);
+    expect(printed.text).toBe(text);
+    expect(parse(printed.text).gameState).toEqual(gameState);
+  });
+});
+
+describe('resolvePuzzleCards', () => {
+  beforeEach(() => {
+    vi.mocked(resolveCardNames).mockReset().mockImplementation(async names => names.map(name => {
+      if (name === 'Hero of Oxid Ridge') return { input: name, status: 'not_found' };
+      const card = { name, oracleId: `oracle-${name}`, layout: 'normal', faces: [] } as unknown as CardWithRelations;
+      return { input: name, status: 'exact', card };
+    }));
+  });
+
+  it('reports unknown names and keeps their cards', async () => {
+    const { gameState, unknownCards } = await resolvePuzzleCards(parse(text).gameState, 'oracle');
+    const battlefield = getPlayer(gameState, 'you')!.zones.battlefield;
+
+    expect(unknownCards).toEqual(['Hero of Oxid Ridge']);
+    expect(battlefield.map(card => card.name)).toEqual(['Mountain', 'Mountain', 'Goblin Guide', 'Hero of Oxid Ridge', 'Goblin']);
+    expect(battlefield[3]).not.toHaveProperty('oracleId');
+    expect(battlefield[0]).toMatchObject({ oracleId: 'oracle-Mountain' });
+  });
+
+  it('does not look up token names', async () => {
+    await resolvePuzzleCards(parse(text).gameState, 'oracle');
+
+    expect(vi.mocked(resolveCardNames).mock.calls[0][0]).not.toContain('Goblin');
+  });
+});
@@ -0,0 +1,580 @@
+/**
+ * Forge puzzle (.pzl) / game state format
+ * Converts between GameState and the text Forge reads for puzzles and
+ * "Setup Game State": an optional [metadata] section and a [state] section of
+ * key=value lines, e.g. "humanbattlefield=Forest|Tapped;Grizzly Bears|SummonSick".
+ * Forge only knows two players: "human" (you) and "ai" (the opponent).
+ */
+
+import {
+  GameStateSchema,
+  PLAYER_COUNTER_KINDS,
+  getPerspective,
+  getPlayers,
+  isCommandObject,
+  isMultiplayer,
+  type CardReference,
+  type GameState,
+  type ManaPool,
+  type Permanent,
+  type Phase,
+  type PlayerView,
+  type Token,
+} from '@/lib/schemas/game-state';
+
+// ============ Types ============
+
+export interface PuzzleIssue {
+  line: number; // 1-based, 0 when not tied to a line
+  message: string;
+}
+
+export type PuzzleMetadata = Record<string, string>; // Name, Goal, Turns, Difficulty, Description, ...
+
+export interface Puzzle {
+  metadata: PuzzleMetadata;
+  gameState: GameState;
+}
+
+export type PuzzleParseResult =
+  | { success: true; data: Puzzle; warnings: string[] }
+  | { success: false; errors: PuzzleIssue[] };
+
+// ============ Vocabulary ============
+
+type ForgePlayer = 'human' | 'ai';
+
+const FORGE_ZONES = {
+  hand: 'hand',
+  library: 'library',
+  graveyard: 'graveyard',
+  exile: 'exile',
+  battlefield: 'battlefield',
+  command: 'commandZone',
+  sideboard: 'sideboard',
+} as const;
+
+type ForgeZone = keyof typeof FORGE_ZONES;
+
+const FORGE_PHASES: Record<string, Phase> = {
+  UNTAP: 'untap',
+  UPKEEP: 'upkeep',
+  DRAW: 'draw',
+  MAIN1: 'precombat_main',
+  COMBAT_BEGIN: 'begin_combat',
+  COMBAT_DECLARE_ATTACKERS: 'declare_attackers',
+  COMBAT_DECLARE_BLOCKERS: 'declare_blockers',
+  COMBAT_FIRST_STRIKE_DAMAGE: 'combat_damage',
+  COMBAT_DAMAGE: 'combat_damage',
+  COMBAT_END: 'end_combat',
+  MAIN2: 'postcombat_main',
+  END_OF_TURN: 'end',
+  CLEANUP: 'cleanup',
+};
+
+const PHASE_TO_FORGE: Record<Phase, string> = {
+  untap: 'UNTAP',
+  upkeep: 'UPKEEP',
+  draw: 'DRAW',
+  precombat_main: 'MAIN1',
+  begin_combat: 'COMBAT_BEGIN',
+  declare_attackers: 'COMBAT_DECLARE_ATTACKERS',
+  declare_blockers: 'COMBAT_DECLARE_BLOCKERS',
+  combat_damage: 'COMBAT_DAMAGE',
+  end_combat: 'COMBAT_END',
+  postcombat_main: 'MAIN2',
+  end: 'END_OF_TURN',
+  cleanup: 'CLEANUP',
+};
+
+// Forge counter names that differ from ours; the rest map by case
+const FORGE_COUNTERS: Record<string, string> = {
+  P1P1: '+1/+1',
+  M1M1: '-1/-1',
+  P1P0: '+1/+0',
+  P0P1: '+0/+1',
+  M1M0: '-1/-0',
+  M0M1: '-0/-1',
+  P2P2: '+2/+2',
+  M2M2: '-2/-2',
+};
+
+const COUNTERS_TO_FORGE: Record<string, string> = Object.fromEntries(
+  Object.entries(FORGE_COUNTERS).map(([forge, ours]) => [ours, forge])
+);
+
+const MANA_COLORS = ['W', 'U', 'B', 'R', 'G', 'C'] as const;
+
+const TOKEN_COLORS: Record<string, string> = { w: 'W', u: 'U', b: 'B', r: 'R', g: 'G' };
+
+const KNOWN_STATE_KEYS = new Set([
+  'turn',
+  'activeplayer',
+  'activephase',
+  ...(['human', 'ai'] as const).flatMap(player => [
+    ...Object.keys(FORGE_ZONES),
+    'life',
+    'counters',
+    'manapool',
+    'landsplayed',
+  ].map(key => `${player}${key}`)),
+]);
+
+// ============ Parser ============
+
+/**
+ * Parse a Forge puzzle or game state file into a validated GameState
+ */
+export function parsePuzzle(text: string): PuzzleParseResult {
+  const errors: PuzzleIssue[] = [];
+  const warnings: string[] = [];
+  const metadata: PuzzleMetadata = {};
+  const state = new Map<string, { value: string; line: number }>();
+
+  let section: 'metadata' | 'state' = 'state';
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line || line.startsWith('#')) return;
+
+    const header = line.match(/^\[(\w+)\]$/);
+    if (header) {
+      const name = header[1].toLowerCase();
+      if (name === 'metadata' || name === 'state') {
+        section = name;
+      } else {
+        errors.push({ line: lineNumber, message: `Unknown section [${header[1]}]` });
+      }
+      return;
+    }
+
+    if (section === 'metadata') {
+      const separator = line.indexOf(':');
+      if (separator < 0) {
+        errors.push({ line: lineNumber, message: 'Expected "Key:Value" in [metadata]' });
+        return;
+      }
+      metadata[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator < 0) {
+      errors.push({ line: lineNumber, message: 'Expected "key=value" in [state]' });
+      return;
+    }
+    state.set(line.slice(0, separator).trim().toLowerCase(), {
+      value: line.slice(separator + 1).trim(),
+      line: lineNumber,
+    });
+  });
+
+  const number = (key: string, fallback: number): number => {
+    const entry = state.get(key);
+    if (!entry || entry.value === '') return fallback;
+    const value = Number(entry.value);
+    if (!Number.isInteger(value)) {
+      errors.push({ line: entry.line, message: `${key} must be a whole number` });
+      return fallback;
+    }
+    return value;
+  };
+
+  const turn = number('turn', 1);
+
+  const activeEntry = state.get('activeplayer');
+  const active: ForgePlayer = activeEntry?.value.toLowerCase() === 'ai' ? 'ai' : 'human';
+  if (activeEntry && !['human', 'ai'].includes(activeEntry.value.toLowerCase())) {
+    errors.push({ line: activeEntry.line, message: `activeplayer must be "human" or "ai", got "${activeEntry.value}"` });
+  }
+
+  const phaseEntry = state.get('activephase');
+  let phase: Phase = 'precombat_main';
+  if (phaseEntry) {
+    const mapped = FORGE_PHASES[phaseEntry.value.toUpperCase()];
+    if (mapped) {
+      phase = mapped;
+    } else {
+      errors.push({ line: phaseEntry.line, message: `Unknown phase "${phaseEntry.value}"` });
+    }
+  }
+
+  const players = (['human', 'ai'] as const).map(player => {
+    const zones = Object.fromEntries(
+      (Object.keys(FORGE_ZONES) as ForgeZone[]).map(zone => {
+        const entry = state.get(`${player}${zone}`);
+        const cards = entry ? parseCardList(entry.value, entry.line, errors) : [];
+        return [zone, cards];
+      })
+    ) as Record<ForgeZone, Array<Permanent | Token>>;
+
+    const countersEntry = state.get(`${player}counters`);
+    const counters = countersEntry ? parseCounters(countersEntry.value, countersEntry.line, errors, false) : undefined;
+    for (const kind of Object.keys(counters ?? {})) {
+      if (!(PLAYER_COUNTER_KINDS as readonly string[]).includes(kind)) {
+        warnings.push(`Ignored unsupported player counter "${kind}" on ${player}`);
+      }
+    }
+
+    const manaEntry = state.get(`${player}manapool`);
+    const manaPool = manaEntry ? parseManaPool(manaEntry.value, manaEntry.line, errors) : undefined;
+
+    return {
+      life: number(`${player}life`, 20),
+      landsPlayed: number(`${player}landsplayed`, 0),
+      zones: {
+        battlefield: zones.battlefield,
+        hand: zones.hand.map(toCardReference),
+        graveyard: zones.graveyard.map(toCardReference),
+        exile: zones.exile.map(toCardReference),
+        library: {
+          count: zones.library.length,
+          knownTop: zones.library.length > 0 ? zones.library.map(toCardReference) : undefined,
+        },
+        commandZone: zones.command.length > 0 ? zones.command.map(toCardReference) : undefined,
+        sideboard: zones.sideboard.length > 0 ? zones.sideboard.map(toCardReference) : undefined,
+      },
+      counters,
+      manaPool,
+    };
+  });
+
+  for (const key of state.keys()) {
+    if (!KNOWN_STATE_KEYS.has(key)) warnings.push(`Ignored unsupported state key "${key}"`);
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  const [human, ai] = players;
+  const activePlayer = active === 'human' ? 'you' : 'opponent';
+
+  const parsed = GameStateSchema.safeParse({
+    turn: Math.max(1, turn),
+    phase,
+    activePlayer,
+    priority: activePlayer, // Forge gives priority to the active player
+    life: { you: human.life, opponent: ai.life },
+    manaPool: human.manaPool,
+    opponentManaPool: ai.manaPool,
+    you: human.zones,
+    opponent: ai.zones,
+    playerCounters: human.counters || ai.counters
+      ? { you: human.counters, opponent: ai.counters }
+      : undefined,
+    landsPlayedThisTurn: active === 'human' ? human.landsPlayed : ai.landsPlayed,
+    notes: metadata.Description || undefined,
+  });
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => ({
+        line: 0,
+        message: `${issue.path.join('.')}: ${issue.message}`,
+      })),
+    };
+  }
+
+  return { success: true, data: { metadata, gameState: parsed.data }, warnings };
+}
+
+/**
+ * "Name|Modifier|Modifier;Name;t:r_1_1_goblin|Tapped"
+ */
+function parseCardList(value: string, line: number, errors: PuzzleIssue[]): Array<Permanent | Token> {
+  return value
+    .split(';')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => parseCard(entry, line, errors));
+}
+
+function parseCard(entry: string, line: number, errors: PuzzleIssue[]): Permanent | Token {
+  const [name, ...modifiers] = entry.split('|').map(part => part.trim());
+  const card: Record<string, unknown> = name.startsWith('t:') ? parseTokenScript(name.slice(2)) : { name };
+
+  for (const modifier of modifiers) {
+    const separator = modifier.indexOf(':');
+    const key = (separator < 0 ? modifier : modifier.slice(0, separator)).toLowerCase();
+    const argument = separator < 0 ? '' : modifier.slice(separator + 1);
+
+    switch (key) {
+      case 'tapped':
+        card.tapped = true;
+        break;
+      case 'summonsick':
+      case 'sickness':
+        card.summoningSick = true;
+        break;
+      case 'counters':
+        card.counters = parseCounters(argument, line, errors, true);
+        break;
+      case 'id':
+        card.id = argument;
+        break;
+      case 'attachedto':
+        card.attachedTo = argument;
+        break;
+      case 'damage':
+        card.damage = parseInt(argument, 10) || undefined;
+        break;
+      case 'transformed':
+        card.faceIndex = 1;
+        break;
+      case 'set':
+      case 'art':
+      case 'facedown':
+      case 'ability':
+      case 'chosencolor':
+      case 'chosentype':
+      case 'namedcard':
+      case 'remembered':
+      case 'imprinting':
+      case 'exilewith':
+      case 'noetb':
+        // Printing and engine bookkeeping we don't model
+        break;
+      default:
+        errors.push({ line, message: `Unknown card modifier "${modifier}" on ${name}` });
+    }
+  }
+
+  return card as Permanent | Token;
+}
+
+/**
+ * Forge token scripts: "<colors>_<power>_<toughness>_<name>[_<keywords>]", e.g. "r_1_1_goblin",
+ * or "<colors>_a_<name>" for artifacts such as "c_a_treasure_sac"
+ */
+function parseTokenScript(script: string): Token {
+  const parts = script.toLowerCase().split('_');
+  const colors = [...(parts[0] ?? '')].map(letter => TOKEN_COLORS[letter]).filter(Boolean);
+  const creature = /^\d+$/.test(parts[1] ?? '') && /^\d+$/.test(parts[2] ?? '');
+  const nameParts = creature ? parts.slice(3, 4) : parts.slice(parts[1] === 'a' ? 2 : 1, parts[1] === 'a' ? 3 : 2);
+  const name = nameParts.map(capitalize).join(' ') || script;
+
+  const types = creature
+    ? ['Creature', name]
+    : parts[1] === 'a' ? ['Artifact', name] : [name];
+
+  return {
+    type: 'token',
+    name,
+    characteristics: {
+      power: creature ? parts[1] : undefined,
+      toughness: creature ? parts[2] : undefined,
+      colors,
+      types,
+    },
+    tapped: false,
+  };
+}
+
+/**
+ * "P1P1=2,LOYALTY=3" (card counters) or "POISON=3,ENERGY=2" (player counters)
+ */
+function parseCounters(
+  value: string,
+  line: number,
+  errors: PuzzleIssue[],
+  onCard: boolean
+): Record<string, number> {
+  const counters: Record<string, number> = {};
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [kind, amount] = part.split('=');
+    const count = parseInt(amount, 10);
+    if (!kind || !Number.isInteger(count)) {
+      errors.push({ line, message: `Invalid counter "${part}"` });
+      continue;
+    }
+    const name = onCard ? FORGE_COUNTERS[kind.toUpperCase()] ?? kind.toLowerCase() : kind.toLowerCase();
+    counters[name] = count;
+  }
+
+  return counters;
+}
+
+function parseManaPool(value: string, line: number, errors: PuzzleIssue[]): ManaPool {
+  const pool: ManaPool = { W: 0, U: 0, B: 0, R: 0, G: 0, C: 0 };
+
+  for (const symbol of value.toUpperCase().split(/\s+/).filter(Boolean)) {
+    if ((MANA_COLORS as readonly string[]).includes(symbol)) {
+      pool[symbol as keyof ManaPool]++;
+    } else {
+      errors.push({ line, message: `Unknown mana "${symbol}" in mana pool` });
+    }
+  }
+
+  return pool;
+}
+
+function toCardReference(card: Permanent | Token): CardReference {
+  const { name } = card;
+  const faceIndex = 'faceIndex' in card ? card.faceIndex : undefined;
+  return faceIndex !== undefined ? { name, faceIndex } : { name };
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// ============ Printer ============
+
+export interface PuzzlePrintResult {
+  text: string;
+  warnings: string[]; // Parts of the state Forge can't represent
+}
+
+/**
+ * Print a two-player GameState as a Forge puzzle.
+ * Metadata is written only when given; Forge's "Setup Game State" reads the [state] section alone.
+ */
+export function printPuzzle(state: GameState, metadata?: PuzzleMetadata): PuzzlePrintResult {
+  if (isMultiplayer(state)) {
+    throw new Error('Forge puzzles support two players only');
+  }
+
+  const warnings: string[] = [];
+  const lines: string[] = [];
+  const [you, opponent] = getPlayers(state);
+  const perspective = getPerspective(state);
+
+  if (metadata && Object.keys(metadata).length > 0) {
+    lines.push('[metadata]');
+    for (const [key, value] of Object.entries(metadata)) lines.push(`${key}:${value}`);
+    lines.push('');
+  }
+
+  lines.push('[state]');
+  lines.push(`turn=${state.turn}`);
+  lines.push(`activeplayer=${state.activePlayer === perspective ? 'human' : 'ai'}`);
+  lines.push(`activephase=${PHASE_TO_FORGE[state.phase]}`);
+
+  if (state.priority !== state.activePlayer) {
+    warnings.push('Forge gives priority to the active player; the non-active player\'s priority is not exported');
+  }
+  if (state.stack.length > 0) {
+    warnings.push(`The stack (${state.stack.length} item${state.stack.length > 1 ? 's' : ''}) is not exported`);
+  }
+
+  const counters = state.playerCounters ?? {};
+  if ([you, opponent].some(player => Object.keys(player.designations).length > 0) || state.dayNight) {
+    warnings.push('Player designations (monarch, initiative, city\'s blessing, speed) and day/night are not exported');
+  }
+  lines.push(...printPlayer('human', you, counters.you, warnings));
+  lines.push(...printPlayer('ai', opponent, counters.opponent, warnings));
+
+  const landsKey = state.activePlayer === perspective ? 'humanlandsplayed' : 'ailandsplayed';
+  if (state.landsPlayedThisTurn > 0) lines.push(`${landsKey}=${state.landsPlayedThisTurn}`);
+
+  return { text: lines.join('\n') + '\n', warnings };
+}
+
+function printPlayer(
+  prefix: ForgePlayer,
+  player: PlayerView,
+  counters: Record<string, number> | undefined,
+  warnings: string[]
+): string[] {
+  const { zones } = player;
+  const lines = [`${prefix}life=${player.life}`];
+  const label = prefix === 'human' ? 'Your' : 'Opponent\'s';
+
+  let hand: CardReference[];
+  if (Array.isArray(zones.hand)) {
+    hand = zones.hand;
+  } else {
+    hand = zones.hand.known ?? [];
+    if (zones.hand.count > hand.length) {
+      warnings.push(`${label} hand has ${zones.hand.count - hand.length} unknown card(s), which are not exported`);
+    }
+  }
+
+  const library = [...(zones.library?.knownTop ?? []), ...(zones.library?.knownBottom ?? [])];
+  if (zones.library && zones.library.count > library.length) {
+    warnings.push(`${label} library has ${zones.library.count - library.length} unknown card(s), which are not exported`);
+  }
+
+  const addZone = (zone: ForgeZone, cards: string[]) => {
+    if (cards.length > 0) lines.push(`${prefix}${zone}=${cards.join(';')}`);
+  };
+
+  addZone('hand', hand.map(printCardReference));
+  addZone('library', library.map(printCardReference));
+  addZone('graveyard', zones.graveyard.map(printCardReference));
+  addZone('exile', zones.exile.map(printCardReference));
+  addZone('battlefield', zones.battlefield.map(printPermanent));
+  const commandZone = zones.commandZone ?? [];
+  const commandObjects = commandZone.filter(isCommandObject);
+  if (commandObjects.length > 0) {
+    const list = commandObjects.map(object => `${object.type} "${object.name}"`).join(', ');
+    warnings.push(`${label} command zone has ${list}, which are not exported`);
+  }
+  addZone('command', commandZone.filter(entry => !isCommandObject(entry)).map(printCardReference));
+
+  // Forge only has a sideboard outside the game
+  if (zones.companion || zones.outsideGame?.length) {
+    warnings.push(`${label} companion and other cards outside the game are exported to the sideboard`);
+  }
+  addZone('sideboard', [
+    ...(zones.sideboard ?? []),
+    ...(zones.companion ? [zones.companion] : []),
+    ...(zones.outsideGame ?? []),
+  ].map(printCardReference));
+
+  const playerCounters = Object.entries(counters ?? {}).filter(([, amount]) => amount > 0);
+  if (playerCounters.length > 0) {
+    lines.push(`${prefix}counters=${playerCounters.map(([kind, amount]) => `${kind.toUpperCase()}=${amount}`).join(',')}`);
+  }
+
+  if (player.manaPool) {
+    const mana = MANA_COLORS.flatMap(color => Array<string>(player.manaPool![color]).fill(color));
+    if (mana.length > 0) lines.push(`${prefix}manapool=${mana.join(' ')}`);
+  }
+
+  return lines;
+}
+
+function printCardReference(card: CardReference): string {
+  return card.name + (card.faceIndex === 1 ? '|Transformed' : '');
+}
+
+function printPermanent(permanent: Permanent | Token): string {
+  const isToken = 'type' in permanent && permanent.type === 'token';
+  const modifiers: string[] = [];
+
+  if (permanent.tapped) modifiers.push('Tapped');
+  if (!isToken && (permanent as Permanent).summoningSick) modifiers.push('SummonSick');
+  if (!isToken && (permanent as Permanent).faceIndex === 1) modifiers.push('Transformed');
+
+  const counters = Object.entries(permanent.counters ?? {}).filter(([, amount]) => amount > 0);
+  if (counters.length > 0) {
+    modifiers.push(`Counters:${counters
+      .map(([kind, amount]) => `${COUNTERS_TO_FORGE[kind] ?? kind.toUpperCase()}=${amount}`)
+      .join(',')}`);
+  }
+
+  if (permanent.id) modifiers.push(`Id:${permanent.id}`);
+  if (!isToken && (permanent as Permanent).attachedTo) modifiers.push(`AttachedTo:${(permanent as Permanent).attachedTo}`);
+  if (permanent.damage) modifiers.push(`Damage:${permanent.damage}`);
+
+  const name = isToken ? `t:${tokenScript(permanent as Token)}` : permanent.name;
+  return [name, ...modifiers].join('|');
+}
+
+/**
+ * Best-effort Forge token script name; Forge only loads scripts that exist in its token database
+ */
+function tokenScript(token: Token): string {
+  const { power, toughness, colors, types } = token.characteristics;
+  const colorPart = colors.map(color => color.toLowerCase()).join('') || 'c';
+  const name = token.name.toLowerCase().replace(/\s+token$/, '').replace(/[^a-z0-9]+/g, '_');
+
+  if (power !== undefined && toughness !== undefined) return `${colorPart}_${power}_${toughness}_${name}`;
+  if (types.some(type => type.toLowerCase() === 'artifact')) return `${colorPart}_a_${name}`;
+  return `${colorPart}_${name}`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Card name resolution for Forge conversion
+ * Runs every non-token card name through resolveCardNames so typos and
+ * cards missing from the database are reported instead of dropped.
+ */
+
+import { resolveCardNames, type CardWithRelations, type ResolveResult } from '@/lib/scryfall/card-resolver';
+import {
+  isCommandObject,
+  type CardReference,
+  type GameState,
+  type Permanent,
+  type PlayerZones,
+  type Token,
+} from '@/lib/schemas/game-state';
+
+// Forge names these cards by their front face
+const FRONT_FACE_LAYOUTS = ['transform', 'modal_dfc', 'flip', 'adventure', 'meld'];
+
+export interface PuzzleResolution {
+  gameState: GameState;
+  unknownCards: string[];
+  resolutions: ResolveResult[];
+}
+
+/**
+ * Resolve the card names of a state. Found cards get their Oracle name
+ * (or Forge's name when naming for export) and oracleId; unknown cards keep
+ * the name they were given.
+ */
+export async function resolvePuzzleCards(
+  state: GameState,
+  naming: 'oracle' | 'forge'
+): Promise<PuzzleResolution> {
+  const names = new Set<string>();
+  mapCardReferences(state, ref => {
+    names.add(ref.name);
+    return ref;
+  });
+
+  const resolutions = await resolveCardNames([...names]);
+  const byInput = new Map(resolutions.map(result => [result.input, result]));
+  const unknownCards = resolutions.filter(result => !result.card).map(result => result.input);
+
+  const gameState = mapCardReferences(state, ref => {
+    const { card, matchedFace } = byInput.get(ref.name) ?? {};
+    if (!card) return ref;
+    return {
+      ...ref,
+      name: naming === 'forge' ? forgeCardName(card) : card.name,
+      oracleId: card.oracleId,
+      // "Insectile Aberration" names the back face of Delver of Secrets
+      faceIndex: ref.faceIndex ?? (matchedFace || undefined),
+    };
+  });
+
+  return { gameState, unknownCards, resolutions };
+}
+
+function forgeCardName(card: CardWithRelations): string {
+  if (FRONT_FACE_LAYOUTS.includes(card.layout)) {
+    const front = card.faces.find(face => face.faceIndex === 0);
+    if (front) return front.name;
+  }
+  return card.name;
+}
+
+/**
+ * Apply fn to every card (not token or command object) in every zone and on the stack
+ */
+function mapCardReferences(
+  state: GameState,
+  fn: <T extends CardReference>(ref: T) => T
+): GameState {
+  const mapList = <T extends CardReference>(cards: T[]): T[] => cards.map(card => fn(card));
+  const mapBattlefield = (objects: Array<Permanent | Token>) =>
+    objects.map(object => ('type' in object && object.type === 'token' ? object : fn(object as Permanent)));
+
+  const mapZones = (zones: PlayerZones): PlayerZones => ({
+    ...zones,
+    battlefield: mapBattlefield(zones.battlefield),
+    hand: Array.isArray(zones.hand)
+      ? mapList(zones.hand)
+      : { ...zones.hand, known: zones.hand.known && mapList(zones.hand.known) },
+    graveyard: mapList(zones.graveyard),
+    exile: mapList(zones.exile),
+    library: zones.library && {
+      ...zones.library,
+      knownTop: zones.library.knownTop && mapList(zones.library.knownTop),
+      knownBottom: zones.library.knownBottom && mapList(zones.library.knownBottom),
+    },
+    commandZone: zones.commandZone?.map(entry => (isCommandObject(entry) ? entry : fn(entry))),
+    sideboard: zones.sideboard && mapList(zones.sideboard),
+    companion: zones.companion && fn(zones.companion),
+    outsideGame: zones.outsideGame && mapList(zones.outsideGame),
+  });
+
+  return {
+    ...state,
+    you: state.you && mapZones(state.you),
+    opponent: state.opponent && mapZones(state.opponent),
+    players: state.players?.map(player => ({ ...player, zones: mapZones(player.zones) })),
+    stack: state.stack.map(item => ({ ...item, source: fn(item.source) })),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
+import { applyPatch, assignObjectIds, describeOperation, diffGameStates } from './diff';
+
+function state(overrides: Record<string, unknown>): GameState {
+  return GameStateSchema.parse({
+    turn: 5,
+    phase: 'precombat_main',
+    priority: 'you',
+    activePlayer: 'you',
+    life: { you: 20, opponent: 8 },
+    you: {
+      battlefield: [
+        { name: 'Mountain', tapped: false },
+        { name: 'Monastery Swiftspear', tapped: false },
+      ],
+      hand: [{ name: 'Lightning Bolt' }],
+      graveyard: [],
+      exile: [],
+    },
+    opponent: {
+      battlefield: [{ name: 'Snapcaster Mage', tapped: false }],
+      hand: { count: 4 },
+      graveyard: [],
+      exile: [],
+    },
+    ...overrides,
+  });
+}
+
+describe('applyPatch', () => {
+  const before = state({});
+  const after = state({
+    life: { you: 20, opponent: 5 },
+    you: {
+      battlefield: [
+        { name: 'Mountain', tapped: true },
+        { name: 'Monastery Swiftspear', tapped: false },
+      ],
+      hand: [],
+      graveyard: [{ name: 'Lightning Bolt' }],
+      exile: [],
+    },
+  });
+
+  it('applies a diff to a state without object IDs', () => {
+    const patch = diffGameStates(before, after);
+
+    expect(patch.length).toBeGreaterThan(0);
+    expect(applyPatch(before, patch)).toEqual(assignObjectIds(after, assignObjectIds(before)));
+  });
+
+  it('describes moves of objects without IDs by name', () => {
+    const descriptions = diffGameStates(before, after).map(operation => describeOperation(operation, before));
+
+    expect(descriptions).toContain('tap Mountain');
+  });
+});
@@ -0,0 +1,578 @@
+/**
+ * Game state diffs
+ * Describes the change between two game states as a list of moves keyed on
+ * stable object IDs ("tap elf", "move bolt to graveyard", "life -3"), and
+ * applies such a patch to reproduce the later state.
+ */
+
+import { z } from 'zod';
+import {
+  CardReferenceSchema,
+  CommandObjectSchema,
+  GameStateSchema,
+  PermanentSchema,
+  PlayerIdSchema,
+  PLAYER_COUNTER_KINDS,
+  TokenSchema,
+  getPlayers,
+  isMultiplayer,
+  type CardReference,
+  type CommandObject,
+  type GameState,
+  type ManaPool,
+  type Permanent,
+  type PlayerDesignations,
+  type PlayerId,
+  type PlayerZones,
+  type Token,
+} from '@/lib/schemas/game-state';
+
+// ============ Schemas ============
+
+export const OBJECT_ZONES = [
+  'battlefield',
+  'hand',
+  'graveyard',
+  'exile',
+  'library',
+  'commandZone',
+  'sideboard',
+  'companion',
+  'outsideGame',
+] as const;
+
+export const ObjectZoneSchema = z.enum(OBJECT_ZONES);
+
+export type ObjectZone = z.infer<typeof ObjectZoneSchema>;
+
+export const ZoneLocationSchema = z.object({
+  player: PlayerIdSchema,
+  zone: ObjectZoneSchema, // "library" holds the known top cards
+});
+
+export type ZoneLocation = z.infer<typeof ZoneLocationSchema>;
+
+const GameObjectSchema = z.union([TokenSchema, CommandObjectSchema, PermanentSchema, CardReferenceSchema]);
+
+export type GameObject = CardReference | Permanent | Token | CommandObject;
+
+// Player fields changed with player_update
+const PlayerFieldSchema = z.enum(['name', 'manaPool', 'commanderDamage', 'designations', 'eliminated']);
+
+export const GameStateOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('tap'), id: z.string() }),
+  z.object({ op: z.literal('untap'), id: z.string() }),
+  z.object({
+    op: z.literal('move'),
+    id: z.string(),
+    from: ZoneLocationSchema,
+    to: ZoneLocationSchema,
+    index: z.number().int().min(0),
+    object: GameObjectSchema, // The object as it arrives
+  }),
+  z.object({ op: z.literal('add'), to: ZoneLocationSchema, index: z.number().int().min(0), object: GameObjectSchema }),
+  z.object({ op: z.literal('remove'), id: z.string(), from: ZoneLocationSchema }),
+  z.object({ op: z.literal('counter'), id: z.string(), counter: z.string(), delta: z.number().int() }),
+  z.object({
+    op: z.literal('update'),
+    id: z.string(),
+    changes: z.record(z.string(), z.unknown()), // null removes a field
+  }),
+  z.object({ op: z.literal('life'), player: PlayerIdSchema, delta: z.number().int() }),
+  z.object({ op: z.literal('player_counter'), player: PlayerIdSchema, counter: z.enum(PLAYER_COUNTER_KINDS), delta: z.number().int() }),
+  z.object({ op: z.literal('player_update'), player: PlayerIdSchema, field: PlayerFieldSchema, value: z.unknown() }),
+  z.object({
+    op: z.literal('zone_count'),
+    player: PlayerIdSchema,
+    zone: z.enum(['hand', 'library']),
+    count: z.number().int().min(0),
+  }),
+  z.object({ op: z.literal('set'), field: z.string(), value: z.unknown() }), // Top-level fields: turn, phase, stack, ...
+  z.object({ op: z.literal('replace'), state: z.unknown() }), // Player seats changed; the whole state is swapped
+]);
+
+export type GameStateOperation = z.infer<typeof GameStateOperationSchema>;
+
+export const GameStatePatchSchema = z.array(GameStateOperationSchema);
+
+export type GameStatePatch = GameStateOperation[];
+
+// Top-level fields owned by players; everything else is compared with "set"
+const PLAYER_OWNED_FIELDS = new Set([
+  'players', 'you', 'opponent', 'life', 'manaPool', 'opponentManaPool', 'commanderDamage', 'playerCounters',
+  'designations',
+]);
+
+// ============ Object IDs ============
+
+interface LocatedObject {
+  object: GameObject;
+  location: ZoneLocation;
+  index: number;
+}
+
+/**
+ * Give every object in every zone an ID. Objects without one take the ID of a
+ * same-named object from the previous state (same zone first, then any zone),
+ * so a card keeps its ID as it moves; the rest get fresh IDs.
+ */
+export function assignObjectIds(state: GameState, previous?: GameState): GameState {
+  const next = structuredClone(state);
+  const located = listObjects(next);
+  const previousObjects = previous ? listObjects(previous) : [];
+
+  const used = new Set(located.map(entry => entry.object.id).filter((id): id is string => id !== undefined));
+  let counter = Math.max(0, ...[...used, ...previousObjects.map(entry => entry.object.id)].map(idNumber));
+
+  const unassigned = located.filter(entry => entry.object.id === undefined);
+  const claim = (entry: LocatedObject, sameZone: boolean) => {
+    const match = previousObjects.find(candidate =>
+      candidate.object.id !== undefined
+      && !used.has(candidate.object.id)
+      && candidate.object.name === entry.object.name
+      && (!sameZone || sameLocation(candidate.location, entry.location))
+    );
+    if (match) {
+      entry.object.id = match.object.id;
+      used.add(match.object.id!);
+    }
+  };
+
+  unassigned.forEach(entry => claim(entry, true));
+  unassigned.filter(entry => entry.object.id === undefined).forEach(entry => claim(entry, false));
+
+  for (const entry of unassigned) {
+    if (entry.object.id !== undefined) continue;
+    do {
+      counter++;
+    } while (used.has(`o${counter}`));
+    entry.object.id = `o${counter}`;
+    used.add(entry.object.id);
+  }
+
+  return next;
+}
+
+function idNumber(id: string | undefined): number {
+  const match = id?.match(/^o(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function sameLocation(a: ZoneLocation, b: ZoneLocation): boolean {
+  return a.player === b.player && a.zone === b.zone;
+}
+
+/**
+ * Every object in every zone, with where it is (objects are the state's own, not copies)
+ */
+function listObjects(state: GameState): LocatedObject[] {
+  return getPlayers(state).flatMap(player =>
+    OBJECT_ZONES.flatMap(zone =>
+      getZoneObjects(player.zones, zone).map((object, index) => ({
+        object,
+        location: { player: player.id, zone },
+        index,
+      }))
+    )
+  );
+}
+
+function getZoneObjects(zones: PlayerZones, zone: ObjectZone): GameObject[] {
+  switch (zone) {
+    case 'hand':
+      return Array.isArray(zones.hand) ? zones.hand : zones.hand.known ?? [];
+    case 'library':
+      return zones.library?.knownTop ?? [];
+    case 'commandZone':
+      return zones.commandZone ?? [];
+    case 'sideboard':
+    case 'outsideGame':
+      return zones[zone] ?? [];
+    case 'companion':
+      return zones.companion ? [zones.companion] : [];
+    default:
+      return zones[zone];
+  }
+}
+
+// ============ Diff ============
+
+/**
+ * Compute the moves that turn `before` into `after`.
+ * Objects without IDs are matched up with assignObjectIds first.
+ */
+export function diffGameStates(before: GameState, after: GameState): GameStatePatch {
+  before = assignObjectIds(before);
+  after = assignObjectIds(after, before);
+
+  const beforePlayers = getPlayers(before);
+  const afterPlayers = getPlayers(after);
+
+  if (
+    isMultiplayer(before) !== isMultiplayer(after)
+    || beforePlayers.map(player => player.id).join() !== afterPlayers.map(player => player.id).join()
+  ) {
+    return [{ op: 'replace', state: after }];
+  }
+
+  const patch: GameStatePatch = [];
+
+  // Objects
+  const beforeObjects = listObjects(before);
+  const afterObjects = listObjects(after);
+  const beforeById = new Map(beforeObjects.map(entry => [entry.object.id!, entry]));
+  const afterIds = new Set(afterObjects.map(entry => entry.object.id));
+
+  for (const entry of beforeObjects) {
+    if (!afterIds.has(entry.object.id)) {
+      patch.push({ op: 'remove', id: entry.object.id!, from: entry.location });
+    }
+  }
+
+  for (const entry of afterObjects) {
+    const previous = beforeById.get(entry.object.id!);
+
+    if (!previous) {
+      patch.push({ op: 'add', to: entry.location, index: entry.index, object: entry.object });
+    } else if (!sameLocation(previous.location, entry.location)) {
+      patch.push({
+        op: 'move',
+        id: entry.object.id!,
+        from: previous.location,
+        to: entry.location,
+        index: entry.index,
+        object: entry.object,
+      });
+    } else {
+      patch.push(...diffObject(previous.object, entry.object));
+    }
+  }
+
+  // Hidden zone sizes
+  for (const player of afterPlayers) {
+    const previous = beforePlayers.find(p => p.id === player.id)!;
+    const handCount = (zones: PlayerZones) => (Array.isArray(zones.hand) ? null : zones.hand.count);
+
+    if (handCount(player.zones) !== null && handCount(player.zones) !== handCount(previous.zones)) {
+      patch.push({ op: 'zone_count', player: player.id, zone: 'hand', count: handCount(player.zones)! });
+    }
+    if (player.zones.library && player.zones.library.count !== previous.zones.library?.count) {
+      patch.push({ op: 'zone_count', player: player.id, zone: 'library', count: player.zones.library.count });
+    }
+  }
+
+  // Players
+  for (const player of afterPlayers) {
+    const previous = beforePlayers.find(p => p.id === player.id)!;
+
+    if (player.life !== previous.life) {
+      patch.push({ op: 'life', player: player.id, delta: player.life - previous.life });
+    }
+
+    for (const counter of PLAYER_COUNTER_KINDS) {
+      const delta = (player.counters[counter] ?? 0) - (previous.counters[counter] ?? 0);
+      if (delta !== 0) patch.push({ op: 'player_counter', player: player.id, counter, delta });
+    }
+
+    for (const field of PlayerFieldSchema.options) {
+      if (!isEqual(player[field], previous[field])) {
+        const value = field === 'designations' && Object.keys(player.designations).length === 0 ? null : player[field];
+        patch.push({ op: 'player_update', player: player.id, field, value: value ?? null });
+      }
+    }
+  }
+
+  // Turn structure, stack and the rest
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    if (PLAYER_OWNED_FIELDS.has(field)) continue;
+    const value = (after as Record<string, unknown>)[field];
+    if (!isEqual((before as Record<string, unknown>)[field], value)) {
+      patch.push({ op: 'set', field, value: value ?? null });
+    }
+  }
+
+  return patch;
+}
+
+function diffObject(before: GameObject, after: GameObject): GameStatePatch {
+  const patch: GameStatePatch = [];
+  const id = after.id!;
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+
+  if (Boolean(previous.tapped) !== Boolean(next.tapped)) {
+    patch.push({ op: next.tapped ? 'tap' : 'untap', id });
+  }
+
+  const previousCounters = (previous.counters ?? {}) as Record<string, number>;
+  const nextCounters = (next.counters ?? {}) as Record<string, number>;
+  for (const counter of new Set([...Object.keys(previousCounters), ...Object.keys(nextCounters)])) {
+    const delta = (nextCounters[counter] ?? 0) - (previousCounters[counter] ?? 0);
+    if (delta !== 0) patch.push({ op: 'counter', id, counter, delta });
+  }
+
+  const changes: Record<string, unknown> = {};
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (field === 'id' || field === 'tapped' || field === 'counters') continue;
+    if (!isEqual(previous[field], next[field])) changes[field] = next[field] ?? null;
+  }
+  if (Object.keys(changes).length > 0) patch.push({ op: 'update', id, changes });
+
+  return patch;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============ Patch ============
+
+/**
+ * Apply a patch to a state, returning the new validated state. Objects
+ * without IDs get the same ones diffGameStates gave them.
+ */
+export function applyPatch(state: GameState, patch: GameStatePatch): GameState {
+  const replacement = patch.find(operation => operation.op === 'replace');
+  if (replacement) return GameStateSchema.parse(replacement.state);
+
+  const next = assignObjectIds(state);
+
+  // Take everything that leaves its zone out first, so insertions land at their final index
+  for (const operation of patch) {
+    if (operation.op === 'move' || operation.op === 'remove') removeObject(next, operation.id);
+  }
+  for (const operation of patch) {
+    if (operation.op !== 'replace') applyOperation(next, operation);
+  }
+
+  return GameStateSchema.parse(next);
+}
+
+function applyOperation(state: GameState, operation: Exclude<GameStateOperation, { op: 'replace' }>): void {
+  switch (operation.op) {
+    case 'tap':
+    case 'untap':
+      (findObject(state, operation.id).object as Permanent).tapped = operation.op === 'tap';
+      return;
+
+    case 'move':
+    case 'add':
+      insertObject(state, operation.to, operation.object as GameObject, operation.index);
+      return;
+
+    case 'remove':
+      return; // Already taken out by applyPatch
+
+    case 'counter': {
+      const object = findObject(state, operation.id).object as Permanent;
+      const amount = (object.counters?.[operation.counter] ?? 0) + operation.delta;
+      object.counters = { ...object.counters, [operation.counter]: amount };
+      if (amount <= 0) delete object.counters[operation.counter];
+      if (Object.keys(object.counters).length === 0) delete object.counters;
+      return;
+    }
+
+    case 'update': {
+      const object = findObject(state, operation.id).object as Record<string, unknown>;
+      for (const [field, value] of Object.entries(operation.changes)) {
+        if (value === null) delete object[field];
+        else object[field] = value;
+      }
+      return;
+    }
+
+    case 'life':
+      setPlayerField(state, operation.player, 'life', getPlayerView(state, operation.player).life + operation.delta);
+      return;
+
+    case 'player_counter': {
+      const counters = { ...getPlayerView(state, operation.player).counters };
+      counters[operation.counter] = (counters[operation.counter] ?? 0) + operation.delta;
+      if (counters[operation.counter]! <= 0) delete counters[operation.counter];
+      setPlayerField(state, operation.player, 'counters', Object.keys(counters).length > 0 ? counters : undefined);
+      return;
+    }
+
+    case 'player_update':
+      setPlayerField(state, operation.player, operation.field, operation.value ?? undefined);
+      return;
+
+    case 'zone_count': {
+      const zones = getZones(state, operation.player);
+      if (operation.zone === 'hand') {
+        zones.hand = Array.isArray(zones.hand)
+          ? { count: operation.count, known: zones.hand }
+          : { ...zones.hand, count: operation.count };
+      } else {
+        zones.library = { ...zones.library, count: operation.count };
+      }
+      return;
+    }
+
+    case 'set': {
+      const target = state as Record<string, unknown>;
+      if (operation.value === null) delete target[operation.field];
+      else target[operation.field] = operation.value;
+      return;
+    }
+  }
+}
+
+// ============ Mutable Access ============
+
+function getPlayerView(state: GameState, id: PlayerId) {
+  const player = getPlayers(state).find(p => p.id === id);
+  if (!player) throw new Error(`Unknown player "${id}"`);
+  return player;
+}
+
+function getZones(state: GameState, id: PlayerId): PlayerZones {
+  if (state.players) {
+    const player = state.players.find(p => p.id === id);
+    if (!player) throw new Error(`Unknown player "${id}"`);
+    return player.zones;
+  }
+  if (id !== 'you' && id !== 'opponent') throw new Error(`Unknown player "${id}"`);
+  state[id] ??= { battlefield: [], hand: [], graveyard: [], exile: [] };
+  return state[id]!;
+}
+
+function setPlayerField(state: GameState, id: PlayerId, field: string, value: unknown): void {
+  if (state.players) {
+    const player = state.players.find(p => p.id === id);
+    if (!player) throw new Error(`Unknown player "${id}"`);
+    if (value === undefined) delete (player as Record<string, unknown>)[field];
+    else (player as Record<string, unknown>)[field] = value;
+    return;
+  }
+
+  const isYou = id === 'you';
+  switch (field) {
+    case 'life':
+      state.life = { ...state.life, [id]: value as number };
+      return;
+    case 'counters': {
+      const seat = isYou ? 'you' : 'opponent';
+      const counters = { ...state.playerCounters, [seat]: value as Record<string, number> | undefined };
+      if (!counters[seat]) delete counters[seat];
+      state.playerCounters = Object.keys(counters).length > 0 ? counters : undefined;
+      return;
+    }
+    case 'designations': {
+      const seat = isYou ? 'you' : 'opponent';
+      const designations = { ...state.designations, [seat]: value as PlayerDesignations | undefined };
+      if (!designations[seat]) delete designations[seat];
+      state.designations = Object.keys(designations).length > 0 ? designations : undefined;
+      return;
+    }
+    case 'manaPool':
+      if (isYou) state.manaPool = value as ManaPool | undefined;
+      else state.opponentManaPool = value as ManaPool | undefined;
+      return;
+    case 'commanderDamage':
+      // Two-player states only track commander damage taken by you
+      if (isYou) state.commanderDamage = value as Record<string, number> | undefined;
+      return;
+    default:
+      // Names and elimination only exist on seat-based players
+      return;
+  }
+}
+
+function findObject(state: GameState, id: string): LocatedObject {
+  const found = listObjects(state).find(entry => entry.object.id === id);
+  if (!found) throw new Error(`Unknown object "${id}"`);
+  return found;
+}
+
+function removeObject(state: GameState, id: string): void {
+  const { location, index } = findObject(state, id);
+  const zones = getZones(state, location.player);
+  const list = getZoneObjects(zones, location.zone);
+  setZoneObjects(zones, location.zone, list.filter((_, i) => i !== index));
+}
+
+function insertObject(state: GameState, location: ZoneLocation, object: GameObject, index: number): void {
+  const zones = getZones(state, location.player);
+  const list = [...getZoneObjects(zones, location.zone)];
+  list.splice(Math.min(index, list.length), 0, object);
+  setZoneObjects(zones, location.zone, list);
+}
+
+function setZoneObjects(zones: PlayerZones, zone: ObjectZone, objects: GameObject[]): void {
+  switch (zone) {
+    case 'battlefield':
+      zones.battlefield = objects as Array<Permanent | Token>;
+      return;
+    case 'hand':
+      zones.hand = Array.isArray(zones.hand) ? objects : { ...zones.hand, known: objects };
+      return;
+    case 'library':
+      zones.library = { count: zones.library?.count ?? 0, ...zones.library, knownTop: objects };
+      return;
+    case 'companion':
+      zones.companion = objects[0] as CardReference | undefined;
+      return;
+    default:
+      zones[zone] = objects;
+  }
+}
+
+// ============ Descriptions ============
+
+/**
+ * One-line, human-readable description of an operation, e.g. "tap Llanowar Elves"
+ */
+export function describeOperation(operation: GameStateOperation, before: GameState): string {
+  const objects = listObjects(assignObjectIds(before));
+  const nameOf = (id: string) => objects.find(entry => entry.object.id === id)?.object.name ?? id;
+  const where = (location: ZoneLocation) => `${possessive(location.player)} ${ZONE_LABELS[location.zone]}`;
+  const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+  switch (operation.op) {
+    case 'tap':
+    case 'untap':
+      return `${operation.op} ${nameOf(operation.id)}`;
+    case 'move':
+      return `move ${nameOf(operation.id)} from ${where(operation.from)} to ${where(operation.to)}`;
+    case 'add':
+      return `add ${(operation.object as GameObject).name} to ${where(operation.to)}`;
+    case 'remove':
+      return `remove ${nameOf(operation.id)} from ${where(operation.from)}`;
+    case 'counter':
+      return `${operation.counter} counters ${signed(operation.delta)} on ${nameOf(operation.id)}`;
+    case 'update':
+      return `update ${nameOf(operation.id)} (${Object.keys(operation.changes).join(', ')})`;
+    case 'life':
+      return `${operation.player}: life ${signed(operation.delta)}`;
+    case 'player_counter':
+      return `${operation.player}: ${operation.counter} ${signed(operation.delta)}`;
+    case 'player_update':
+      return `${operation.player}: ${operation.field} changed`;
+    case 'zone_count':
+      return `${possessive(operation.player)} ${operation.zone} now ${operation.count} card${operation.count === 1 ? '' : 's'}`;
+    case 'set':
+      return typeof operation.value === 'object' && operation.value !== null
+        ? `${operation.field} changed`
+        : `${operation.field} → ${operation.value}`;
+    case 'replace':
+      return 'players changed';
+  }
+}
+
+const ZONE_LABELS: Record<ObjectZone, string> = {
+  battlefield: 'battlefield',
+  hand: 'hand',
+  graveyard: 'graveyard',
+  exile: 'exile',
+  library: 'library',
+  commandZone: 'command zone',
+  sideboard: 'sideboard',
+  companion: 'companion',
+  outsideGame: 'cards outside the game',
+};
+
+function possessive(player: PlayerId): string {
+  return player === 'you' ? 'your' : `${player}'s`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Session history of game states
+ * An undo/redo-style timeline of snapshots, each stored in full together with
+ * the patch from the snapshot before it.
+ */
+
+import type { GameState } from '@/lib/schemas/game-state';
+import {
+  assignObjectIds,
+  describeOperation,
+  diffGameStates,
+  type GameStatePatch,
+} from './diff';
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: string; // ISO timestamp
+  state: GameState;
+  patch: GameStatePatch; // From the previous entry; empty for the first
+}
+
+export interface GameHistory {
+  entries: HistoryEntry[];
+  current: number; // Index of the entry being viewed, -1 when empty
+}
+
+const MAX_ENTRIES = 200;
+const MAX_LABEL_MOVES = 3;
+
+export function createHistory(): GameHistory {
+  return { entries: [], current: -1 };
+}
+
+export function getCurrentEntry(history: GameHistory): HistoryEntry | undefined {
+  return history.entries[history.current];
+}
+
+/**
+ * Record a state after the current entry. Entries ahead of the current one
+ * (undone states) are discarded; a state identical to the current one is not recorded.
+ */
+export function pushHistory(history: GameHistory, state: GameState, label?: string): GameHistory {
+  const previous = getCurrentEntry(history);
+  const snapshot = assignObjectIds(state, previous?.state);
+  const patch = previous ? diffGameStates(previous.state, snapshot) : [];
+
+  if (previous && patch.length === 0) return history;
+
+  const entry: HistoryEntry = {
+    id: `s${(history.entries.at(-1) ? parseInt(history.entries.at(-1)!.id.slice(1), 10) : 0) + 1}`,
+    label: label ?? (previous ? summarizePatch(patch, previous.state) : `Turn ${state.turn}, ${state.phase}`),
+    createdAt: new Date().toISOString(),
+    state: snapshot,
+    patch,
+  };
+
+  const entries = [...history.entries.slice(0, history.current + 1), entry].slice(-MAX_ENTRIES);
+  return { entries, current: entries.length - 1 };
+}
+
+/**
+ * Move backward (negative) or forward (positive) through the timeline
+ */
+export function stepHistory(history: GameHistory, delta: number): GameHistory {
+  return goToEntry(history, history.current + delta);
+}
+
+export function goToEntry(history: GameHistory, index: number): GameHistory {
+  if (history.entries.length === 0) return history;
+  return { ...history, current: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
+
+/**
+ * Short label for a patch: its first few moves
+ */
+export function summarizePatch(patch: GameStatePatch, before: GameState): string {
+  const moves = patch.slice(0, MAX_LABEL_MOVES).map(operation => describeOperation(operation, before));
+  const more = patch.length - moves.length;
+  return moves.join('; ') + (more > 0 ? ` (+${more} more)` : '');
+}
@@ -23,6 +23,13 @@ import {
   STRATEGIST_JSON_SCHEMA,
   REFEREE_JSON_SCHEMA,
 } from './prompts';
+import {
+  compareStateBasedActions,
+  type StateBasedActionComparison,
+} from '@/lib/rules/state-based-actions';
+import { checkLegalActionCosts, type ManaCostCheck } from '@/lib/rules/mana-solver';
+import { attachCombatOutcomes, checkCombatOutcomes, type CombatCheck } from '@/lib/rules/combat';
+import { getPlayer } from '@/lib/schemas/game-state';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -113,6 +120,9 @@ export interface PipelineResult {
   rulesClerk: LLMResult<RulesClerkOutput>;
   strategist: LLMResult<StrategistOutput>;
   referee: LLMResult<RefereeOutput>;
+  stateBasedActionCheck?: StateBasedActionComparison;
+  manaCostCheck?: ManaCostCheck[];
+  combatCheck?: CombatCheck[];
   finalRecommendation: {
     action: LegalAction;
     validated: boolean;
@@ -124,8 +134,29 @@ export async function runFullPipeline(
   packet: GroundingPacket,
   presetKey: PresetKey
 ): Promise<PipelineResult> {
-  // Step 1: Get all legal actions
-  const rulesClerkResult = await callRulesClerk(packet, presetKey);
+  // Step 1: Get all legal actions, with simulated combat for attacks and blocks
+  const rulesClerkCall = await callRulesClerk(packet, presetKey);
+  const rulesClerkResult: LLMResult<RulesClerkOutput> = {
+    ...rulesClerkCall,
+    data: {
+      ...rulesClerkCall.data,
+      legalActions: attachCombatOutcomes(rulesClerkCall.data.legalActions, packet.gameState, packet.cardDatabase),
+    },
+  };
+
+  // Check the Rules Clerk's SBAs against the deterministic checker
+  const stateBasedActionCheck = packet.stateBasedActions
+    ? compareStateBasedActions(packet.stateBasedActions, rulesClerkResult.data.stateBasedActions)
+    : undefined;
+
+  // Check the Rules Clerk's claimed mana costs against the available sources
+  const manaCostCheck = packet.availableMana
+    ? checkLegalActionCosts(
+        rulesClerkResult.data.legalActions,
+        packet.availableMana,
+        getPlayer(packet.gameState, packet.availableMana.player)?.life ?? 0
+      )
+    : undefined;
 
   // Step 2: Rank the actions
   const strategistResult = await callStrategist(
@@ -134,6 +165,13 @@ export async function runFullPipeline(
     presetKey
   );
 
+  // Check the Strategist's expected life totals for combat lines against the simulator
+  const combatCheck = checkCombatOutcomes(
+    rulesClerkResult.data.legalActions,
+    strategistResult.data.rankedLines,
+    packet.gameState
+  );
+
   // Step 3: Validate the top recommendation
   const topRankedLine = strategistResult.data.rankedLines[0];
   const topAction = rulesClerkResult.data.legalActions.find(
@@ -190,6 +228,9 @@ export async function runFullPipeline(
     rulesClerk: rulesClerkResult,
     strategist: strategistResult,
     referee: refereeResult,
+    stateBasedActionCheck,
+    manaCostCheck,
+    combatCheck: combatCheck.length > 0 ? combatCheck : undefined,
     finalRecommendation: {
       action: validatedAction,
       validated,
@@ -4,7 +4,12 @@
  */
 
 import type { GroundingPacket } from '@/lib/schemas/grounding-packet';
+import { getPlayers, getPerspective, isMultiplayer } from '@/lib/schemas/game-state';
 import type { LegalAction } from './schemas';
+import { describeDrawOut } from '@/lib/rules/draw-odds';
+import { describeCommandEffect } from '@/lib/rules/command-zone';
+import { describeEffect } from '@/lib/rules/effects';
+import { buildCardIndex, hasType } from '@/lib/rules/card-lookup';
 import { type Preset, type PresetKey, getPreset } from '@/lib/utils/presets';
 
 // ============ System Messages ============
@@ -17,6 +22,223 @@ CRITICAL RULES:
 3. Return ONLY valid JSON matching the required schema. No markdown, no explanations outside the JSON.
 4. Be precise about game rules - cite Comprehensive Rules when relevant.`;
 
+// ============ Multiplayer Context ============
+
+/**
+ * Describe the seats of a multiplayer game. Empty for two-player states.
+ */
+function buildPlayersSection(packet: GroundingPacket): string {
+  const state = packet.gameState;
+  if (!isMultiplayer(state)) return '';
+
+  const perspective = getPerspective(state);
+  const seats = getPlayers(state).map(player => {
+    const labels = [
+      player.id === perspective ? 'YOU' : null,
+      player.id === state.activePlayer ? 'active player' : null,
+      player.id === state.priority ? 'has priority' : null,
+      player.eliminated ? 'eliminated' : null,
+    ].filter(Boolean);
+
+    const commanderDamage = Object.entries(player.commanderDamage)
+      .map(([source, amount]) => `${amount} from ${source}`)
+      .join(', ');
+
+    return `  ${player.turnOrder + 1}. ${player.id}${player.name ? ` (${player.name})` : ''}: ${player.life} life`
+      + (labels.length > 0 ? ` [${labels.join(', ')}]` : '')
+      + (commanderDamage ? ` - commander damage taken: ${commanderDamage}` : '');
+  });
+
+  return `
+PLAYERS (turn order, multiplayer game):
+${seats.join('\n')}
+- You are advising player "${perspective}". Every other player is an opponent.
+- Refer to players by their ID. Attacks must name the defending player or planeswalker in targets.
+- A player dealt 21 or more combat damage by a single commander loses the game.`;
+}
+
+// ============ Player Designations ============
+
+const DESIGNATION_RULES: Record<string, string> = {
+  poison: 'A player with 10 or more poison counters loses the game. Infect deals damage to players as poison counters; toxic N gives N poison counters on combat damage.',
+  energy: 'Energy counters are paid like mana from the player\'s total ({E} symbols) and stay between turns.',
+  experience: 'Experience counters only go up and scale the abilities that count them.',
+  rad: 'At the beginning of their precombat main phase a player with rad counters mills that many cards, loses 1 life and removes a rad counter for each nonland card milled.',
+  ticket: 'Ticket counters are spent on the costs of Attraction and Unfinity cards.',
+  monarch: 'The monarch draws a card at the beginning of their end step. A creature that deals combat damage to the monarch makes its controller the monarch.',
+  initiative: 'The player with the initiative ventures into Undercity on taking it and at their upkeep. Combat damage to that player takes the initiative.',
+  citysBlessing: 'The city\'s blessing (ascend) is never lost once gained.',
+  speed: 'Speed rises by 1 (to a max of 4) the first time each turn an opponent loses life during its owner\'s turn; max speed abilities work at 4.',
+  dayNight: 'Day becomes night when the active player casts no spells during their turn; night becomes day when they cast two or more. Daybound and nightbound permanents transform with it.',
+};
+
+const DESIGNATION_LABELS: Record<string, string> = {
+  monarch: 'the monarch',
+  initiative: 'has the initiative',
+  citysBlessing: 'has the city\'s blessing',
+};
+
+/**
+ * List player counters, designations and day/night. Empty when there are none.
+ */
+function buildDesignationsSection(packet: GroundingPacket): string {
+  const state = packet.gameState;
+  const shown = new Set<string>();
+  const lines: string[] = [];
+
+  for (const player of getPlayers(state)) {
+    const marks: string[] = [];
+    for (const [kind, amount] of Object.entries(player.counters)) {
+      if (!amount) continue;
+      shown.add(kind);
+      marks.push(`${amount} ${kind}`);
+    }
+    for (const [kind, value] of Object.entries(player.designations)) {
+      if (!value) continue;
+      shown.add(kind);
+      marks.push(kind === 'speed' ? `speed ${value}` : DESIGNATION_LABELS[kind]);
+    }
+    if (marks.length > 0) lines.push(`  - ${player.id}: ${marks.join(', ')}`);
+  }
+
+  if (state.dayNight) {
+    shown.add('dayNight');
+    lines.push(`  - It is ${state.dayNight}`);
+  }
+  if (lines.length === 0) return '';
+
+  return `
+PLAYER COUNTERS AND DESIGNATIONS:
+${lines.join('\n')}
+${[...shown].map(kind => `- ${DESIGNATION_RULES[kind]}`).join('\n')}`;
+}
+
+// ============ Command Zone ============
+
+const COMMAND_ZONE_RULES: Record<string, string> = {
+  emblem: 'Emblems have no characteristics besides their abilities, which apply for the rest of the game. They are not permanents and can\'t be removed, copied or interacted with.',
+  dungeon: 'Venturing moves the marker to one of the next rooms (or into the first room of a new dungeon) and triggers that room\'s ability. A dungeon is completed and removed when the marker leaves its last room.',
+  plane: 'The face-up plane or phenomenon\'s abilities apply to every player. Rolling the planar die ({0} for the first roll each turn, {1} more per roll after) is a special action at sorcery speed; the chaos symbol triggers the plane\'s chaos ability and the planeswalker symbol planeswalks.',
+  scheme: 'Ongoing schemes keep applying until their abandon condition is met; other schemes only trigger when set in motion.',
+};
+
+/**
+ * List emblems, dungeons, planes and schemes as ongoing effects. Empty when there are none.
+ */
+function buildCommandZoneSection(packet: GroundingPacket): string {
+  const effects = packet.commandZone;
+  if (!effects || effects.length === 0) return '';
+
+  const types = [...new Set(effects.map(effect => effect.type))];
+  return `
+COMMAND ZONE (ongoing effects; "commandZone" in the packet has their full text):
+${effects.map(effect => `  - ${describeCommandEffect(effect)}`).join('\n')}
+${types.map(type => `- ${COMMAND_ZONE_RULES[type]}`).join('\n')}`;
+}
+
+// ============ Outside the Game ============
+
+/**
+ * List each player's companion, sideboard and other cards outside the game,
+ * marking Lessons. Empty when no player has any.
+ */
+function buildOutsideGameSection(packet: GroundingPacket): string {
+  const index = buildCardIndex(packet.cardDatabase);
+  const label = (name: string) => {
+    const card = index.get({ name });
+    return card && hasType(card.typeLine, 'Lesson') ? `${name} (Lesson)` : name;
+  };
+
+  const lines = getPlayers(packet.gameState).flatMap(player => {
+    const { sideboard, companion, outsideGame } = player.zones;
+    return [
+      companion ? `  - ${player.id}'s companion: ${companion.name}` : null,
+      sideboard?.length ? `  - ${player.id}'s sideboard: ${sideboard.map(card => label(card.name)).join(', ')}` : null,
+      outsideGame?.length ? `  - ${player.id}'s other cards outside the game: ${outsideGame.map(card => label(card.name)).join(', ')}` : null,
+    ].filter((line): line is string => line !== null);
+  });
+  if (lines.length === 0) return '';
+
+  return `
+OUTSIDE THE GAME (companions, sideboards, wish boards):
+${lines.join('\n')}
+- These cards can't be drawn, cast or played, and nothing in the game affects them.
+- Companion: once per game, any time its owner could cast a sorcery, they may pay {3} to put it into their hand
+  (a special action, CR 702.139c). List it as a "special_action" with manaCost {3}.
+- Effects that bring cards "from outside the game" (Wishes) choose from these cards. Learn lets its controller
+  reveal a Lesson from here and put it into their hand, discard a card to draw a card, or do neither.
+  List each card such an effect could fetch as its own choice.`;
+}
+
+// ============ Effects Ledger ============
+
+/**
+ * List the continuous effects, delayed triggers, extra turns and combats and
+ * skips in the state's ledger. Empty when there are none.
+ */
+function buildEffectsSection(packet: GroundingPacket): string {
+  const effects = packet.gameState.effects;
+  if (!effects || effects.length === 0) return '';
+
+  return `
+ACTIVE EFFECTS AND DELAYED TRIGGERS (not shown on any permanent):
+${effects.map(effect => `  - ${describeEffect(effect)}`).join('\n')}
+- Continuous effects apply on top of the card text; follow the layer order (CR 613) when several change
+  the same characteristic. They end at the time shown.
+- Delayed triggers trigger at the time shown even if their source has left the battlefield.
+- Extra turns are taken right after the current turn, most recently created first; extra combat phases follow
+  the current combat; skipped steps and phases don't happen at all.`;
+}
+
+// ============ Permanent Status ============
+
+/**
+ * Explain battlefield objects that aren't simply their printed front face.
+ * Empty when there are none.
+ */
+function buildPermanentStatusSection(packet: GroundingPacket): string {
+  const entries = packet.permanentStatus;
+  if (!entries || entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    const pt = entry.power !== null ? ` ${entry.power}/${entry.toughness}` : '';
+    const shown = entry.shownAs === entry.name ? entry.name : `${entry.name} (now ${entry.shownAs})`;
+    return `  - ${shown}${entry.id ? ` [${entry.id}]` : ''}, controlled by ${entry.player}:${pt} - ${entry.status.join('; ')}`;
+  });
+
+  return `
+PERMANENT STATUS ("permanentStatus" in the packet has each object's current text):
+${lines.join('\n')}
+- Face down: a 2/2 creature with no name, mana cost, types or abilities (disguise and cloak add ward {2}).
+  Its controller may look at it; when its identity is hidden, do not guess what it is. Turning it face up
+  (morph/megamorph/disguise costs, or the mana cost of a manifested/cloaked creature card) is a special action.
+- Transformed / flipped: only the face that is up exists; use that face's text and power/toughness.
+- Copy of X: it has X's name, mana cost, types, text and power/toughness (not counters, damage or other effects).
+- Phased out: treated as though it does not exist. It can't attack, block, be targeted or use abilities,
+  and phases in during its controller's next untap step.
+- Granted abilities and power/toughness effects come from other cards; the power/toughness above includes
+  them but not counters.`;
+}
+
+// ============ Draw Odds ============
+
+/**
+ * Summarize the odds of drawing outs, for lines that depend on the next draws.
+ * Empty without a decklist.
+ */
+function buildDrawOddsSection(packet: GroundingPacket): string {
+  const odds = packet.drawOdds;
+  if (!odds) return '';
+
+  const known = odds.knownTop.length > 0 ? ` Known top cards, in order: ${odds.knownTop.join(', ')}.` : '';
+  return `DRAW ODDS (${odds.player}'s library: ${odds.librarySize} cards, computed from the decklist minus seen cards):
+Chance of drawing at least one within the next ${odds.draws.join(' / ')} draws:${known}
+${odds.outs.map(out => `  - ${describeDrawOut(out)}`).join('\n')}
+Use these odds instead of estimating when a line depends on drawing an out, and mention them in the reasoning.
+
+`;
+}
+
 // ============ Rules Clerk Prompts ============
 
 export function buildRulesClerkPrompt(
@@ -34,6 +256,7 @@ CONTEXT:
 - Format: ${packet.context.format || 'Unknown'}
 - Info Mode: ${preset.infoMode === 'open' ? 'Full game state visible' : 'Constrained (hidden zones)'}
 ${preset.platform === 'arena' ? '- Arena auto-handles triggers; note which need player choice' : ''}
+${buildPlayersSection(packet)}${buildDesignationsSection(packet)}${buildCommandZoneSection(packet)}${buildOutsideGameSection(packet)}${buildEffectsSection(packet)}${buildPermanentStatusSection(packet)}
 
 RULES FOR ENUMERATION:
 1. Consider: current phase, priority, stack state, mana available, valid targets, restrictions
@@ -42,6 +265,21 @@ RULES FOR ENUMERATION:
 4. Mark actions that are restricted by timing or other rules
 ${preset.platform === 'arena' ? '5. Mark actions requiring "Full Control" mode with requiresFullControl: true' : ''}
 
+STATE-BASED ACTIONS:
+The packet's "stateBasedActions" were computed deterministically from the Oracle data (life, poison,
+commander damage, toughness, lethal damage, loyalty, legend rule, unattached Auras, counter annihilation).
+Report each of them in "stateBasedActions", naming the affected card or player, and add any others
+caused by effects the checker cannot see.
+
+MANA:
+The packet's "availableMana" lists the mana pool and the untapped mana sources of the player with priority,
+read from their Oracle text, with "maxTotal" the most mana they can make at once. Only list actions whose
+"manaCost" can be paid from these sources (each source is tapped once); your manaCost claims are checked
+against them. Sources in "unparsed" have mana abilities that could not be read - judge them from their text.
+Give "manaCost.cost" in Scryfall's braced notation exactly as the card data's "manaCost" prints it, including
+hybrid ({W/U}, {2/W}), Phyrexian ({G/P}, payable with 2 life), snow ({S}, paid with mana from a snow source)
+and {X}; when a spell has {X}, set "manaCost.x" to the value you assume and count it in "total".
+
 OUTPUT SCHEMA:
 {
   "legalActions": [
@@ -51,7 +289,7 @@ OUTPUT SCHEMA:
       "card": "Card Name",
       "ability": "Ability text if applicable",
       "targets": ["target1", "target2"],
-      "manaCost": { "total": 2, "colors": { "R": 1, "generic": 1 } },
+      "manaCost": { "cost": "{1}{R}", "total": 2, "colors": { "R": 1, "generic": 1 } },
       "description": "Human-readable description",
       "restrictions": ["any restrictions or requirements"],
       "triggers": ["abilities that would trigger"]
@@ -96,12 +334,21 @@ CONTEXT:
 - Format: ${packet.context.format || 'Unknown'}
 - Risk Tolerance: ${preset.riskTolerance}
 - Opponent Read Level: ${preset.opponentReadLevel}
+${buildPlayersSection(packet)}${buildDesignationsSection(packet)}${buildCommandZoneSection(packet)}${buildOutsideGameSection(packet)}${buildEffectsSection(packet)}${buildPermanentStatusSection(packet)}
 
 ${riskGuidance}
 
 ${styleGuidance}
 
-EVALUATION CRITERIA:
+COMBAT:
+Every "attack" and "block" action carries a "combatOutcome" computed deterministically from the declared
+attackers and blockers and the Oracle keywords (first strike, double strike, deathtouch, trample, lifelink,
+menace, indestructible, infect, wither, toxic): damage dealt, creatures that die, each player's life and
+poison counters afterwards, and combat triggers (including the monarch and the initiative changing hands).
+The attack case assumes no further blocks. Use these numbers for "opponentLife" and "selfLife" in
+expectedOutcome - they are checked against the simulator - and weigh the blocks the opponent could make.
+${packet.combat ? 'The packet\'s "combat" shows the outcome of the attacks and blocks already declared.\n' : ''}
+${buildDrawOddsSection(packet)}EVALUATION CRITERIA:
 1. Win probability impact (most important)
 2. Board state advantage
 3. Card advantage
@@ -196,6 +443,7 @@ CONTEXT:
 - Platform: ${preset.platform === 'paper' ? 'Paper Magic' : 'MTG Arena'}
 - Format: ${packet.context.format || 'Unknown'}
 - Trigger Handling: ${preset.triggerHandling}
+${buildPlayersSection(packet)}${buildDesignationsSection(packet)}${buildCommandZoneSection(packet)}${buildOutsideGameSection(packet)}${buildEffectsSection(packet)}${buildPermanentStatusSection(packet)}
 
 YOUR VALIDATION CHECKS:
 1. Timing legality - correct phase, priority held, stack order
@@ -279,6 +527,8 @@ export const RULES_CLERK_JSON_SCHEMA = {
             manaCost: {
               type: 'object',
               properties: {
+                cost: { type: 'string' },
+                x: { type: 'integer', minimum: 0 },
                 total: { type: 'number' },
                 colors: { type: 'object', additionalProperties: { type: 'number' } },
               },
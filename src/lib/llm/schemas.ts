@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { CombatOutcomeSchema } from '@/lib/rules/combat';
 
 // ============ Rules Clerk Output ============
 
@@ -23,6 +24,8 @@ export const LegalActionSchema = z.object({
   ability: z.string().optional(),
   targets: z.array(z.string()).optional(),
   manaCost: z.object({
+    cost: z.string().optional(), // As printed, e.g. "{X}{R}"; manaCostCheck reports costs it can't read
+    x: z.number().int().min(0).optional(), // Value chosen for {X}
     total: z.number(),
     colors: z.record(z.string(), z.number()),
   }).optional(),
@@ -30,6 +33,7 @@ export const LegalActionSchema = z.object({
   restrictions: z.array(z.string()),
   triggers: z.array(z.string()),
   requiresFullControl: z.boolean().optional(), // Arena-specific
+  combatOutcome: CombatOutcomeSchema.optional(), // Filled in by the combat simulator, not the model
 });
 
 export type LegalAction = z.infer<typeof LegalActionSchema>;
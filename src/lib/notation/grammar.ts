@@ -0,0 +1,122 @@
+/**
+ * Board State Notation - shared vocabulary for the parser and printer
+ *
+ * One or more lines, each split into segments by "|":
+ *   T5 main1 me:18 opp:7 | bf: Llanowar Elves(T), Forest x3 | hand: Lightning Bolt
+ *   opp bf: Snapcaster Mage(id:snap) | opp hand: 4, Counterspell
+ *   stack: Lightning Bolt(by:opp, tgt:snap)
+ */
+
+import type { Phase, PlayerId } from '@/lib/schemas/game-state';
+
+// ============ Zones ============
+
+export type NotationZone =
+  | 'battlefield'
+  | 'hand'
+  | 'graveyard'
+  | 'exile'
+  | 'library'
+  | 'commandZone'
+  | 'sideboard'
+  | 'companion'
+  | 'outsideGame'
+  | 'stack';
+
+export const ZONE_ALIASES: Record<string, NotationZone> = {
+  bf: 'battlefield',
+  battlefield: 'battlefield',
+  hand: 'hand',
+  gy: 'graveyard',
+  graveyard: 'graveyard',
+  exile: 'exile',
+  lib: 'library',
+  library: 'library',
+  cmd: 'commandZone',
+  command: 'commandZone',
+  sb: 'sideboard',
+  sideboard: 'sideboard',
+  companion: 'companion',
+  out: 'outsideGame',
+  outside: 'outsideGame',
+  stack: 'stack',
+};
+
+// Short names used when printing
+export const ZONE_SHORT_NAMES: Record<NotationZone, string> = {
+  battlefield: 'bf',
+  hand: 'hand',
+  graveyard: 'gy',
+  exile: 'exile',
+  library: 'lib',
+  commandZone: 'cmd',
+  sideboard: 'sb',
+  companion: 'companion',
+  outsideGame: 'out',
+  stack: 'stack',
+};
+
+// ============ Seats ============
+
+export const SEAT_ALIASES: Record<string, PlayerId> = {
+  me: 'you',
+  you: 'you',
+  opp: 'opponent',
+  opponent: 'opponent',
+};
+
+export function seatToPlayerId(seat: string): PlayerId {
+  return SEAT_ALIASES[seat.toLowerCase()] ?? seat;
+}
+
+export function playerIdToSeat(id: PlayerId): string {
+  if (id === 'you') return 'me';
+  if (id === 'opponent') return 'opp';
+  return id;
+}
+
+// ============ Phases ============
+
+export const PHASE_ALIASES: Record<string, Phase> = {
+  main1: 'precombat_main',
+  main2: 'postcombat_main',
+  combat: 'declare_attackers',
+  attackers: 'declare_attackers',
+  blockers: 'declare_blockers',
+  damage: 'combat_damage',
+};
+
+// Preferred short form when printing
+export const PHASE_SHORT_NAMES: Partial<Record<Phase, string>> = {
+  precombat_main: 'main1',
+  postcombat_main: 'main2',
+  declare_attackers: 'attackers',
+  declare_blockers: 'blockers',
+  combat_damage: 'damage',
+};
+
+// ============ Header Keys ============
+
+// Header tokens of the form key:value that are not life totals
+export const HEADER_KEYS = ['active', 'prio', 'mana', 'lands', 'fmt'] as const;
+
+export type HeaderKey = typeof HEADER_KEYS[number];
+
+// ============ Card Modifiers ============
+
+export const STACK_TYPES = ['spell', 'ability', 'trigger'] as const;
+
+// Command zone entries marked with one of these are command objects rather than cards
+export const COMMAND_OBJECT_TYPES: readonly string[] = ['emblem', 'dungeon', 'plane', 'scheme'];
+
+/**
+ * Card names containing these characters must be quoted
+ */
+export const RESERVED_NAME_CHARS = /[,|()[\]"]|\sx\d+$|^\s|\s$/;
+
+// ============ Example ============
+
+// The editor's sample board
+export const EXAMPLE_NOTATION = `T5 main1 me:20 opp:8 mana:RR
+bf: Mountain(T), Mountain, Monastery Swiftspear | hand: Lightning Bolt, Goblin Guide
+opp bf: Snapcaster Mage, Island x2 | opp hand: 4 | opp gy: Counterspell`;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { getPlayer } from '@/lib/schemas/game-state';
+import { EXAMPLE_NOTATION } from './grammar';
+import { parseNotation } from './parser';
+import { printNotation } from './printer';
+
+function parse(text: string) {
+  const result = parseNotation(text);
+  if (!result.success) throw new Error(result.errors.map(e => e.message).join('; '));
+  return result.data;
+}
+
+describe('round trip', () => {
+  it('prints the example board back to the same text and state', () => {
+    const state = parse(EXAMPLE_NOTATION);
+    const printed = printNotation(state);
+
+    expect(printed).toBe(EXAMPLE_NOTATION);
+    expect(parse(printed)).toEqual(state);
+  });
+});
+
+describe('card modifiers', () => {
+  const state = parse(`T3 main2 me:20 opp:20
+bf: Llanowar Elves(T, SS, id:elf)[+1/+1:2], Rancor(on:elf), "Borrower, the Thief", Soldier(token, 1/1) x2, Grizzly Bears(atk)
+opp bf: Wall of Omens(blk:elf)
+stack: Lightning Bolt(by:opp, tgt:elf)`);
+  const you = getPlayer(state, 'you')!.zones;
+  const opponent = getPlayer(state, 'opponent')!.zones;
+
+  it('reads tapped and summoning-sick markers, ids and counters', () => {
+    expect(you.battlefield[0]).toMatchObject({
+      name: 'Llanowar Elves',
+      id: 'elf',
+      tapped: true,
+      summoningSick: true,
+      counters: { '+1/+1': 2 },
+    });
+  });
+
+  it('reads attachments, attackers and blockers', () => {
+    expect(you.battlefield[1]).toMatchObject({ name: 'Rancor', attachedTo: 'elf' });
+    expect(you.battlefield[5]).toMatchObject({ name: 'Grizzly Bears', attacking: true });
+    expect(opponent.battlefield[0]).toMatchObject({ name: 'Wall of Omens', blocking: 'elf' });
+  });
+
+  it('keeps commas inside quoted names', () => {
+    expect(you.battlefield[2]).toMatchObject({ name: 'Borrower, the Thief' });
+  });
+
+  it('expands copies of a token with its power and toughness', () => {
+    const tokens = you.battlefield.filter(card => 'type' in card && card.type === 'token');
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).toMatchObject({
+      name: 'Soldier',
+      characteristics: { power: '1', toughness: '1' },
+    });
+  });
+
+  it('reads the controller and targets of a stack object', () => {
+    expect(state.stack).toEqual([
+      { type: 'spell', source: { name: 'Lightning Bolt' }, targets: ['elf'], controller: 'opponent' },
+    ]);
+  });
+});
+
+describe('errors', () => {
+  it.each([
+    ['an unknown phase', 'T5 mian1 me:20 opp:8', 1, 4, 'Unknown token "mian1"'],
+    ['an unclosed parenthesis', 'T5 main1 me:20 opp:8\nbf: Forest(T, Mountain', 2, 11, 'Missing ")"'],
+    ['a zero copy count', 'T5 main1 me:20 opp:8\nbf: Forest x0', 2, 12, 'Copy count must be at least 1'],
+  ])('reports %s at its line and column', (_, text, line, column, message) => {
+    const result = parseNotation(text);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors[0]).toMatchObject({ line, column });
+    expect(result.errors[0].message).toContain(message);
+  });
+});
@@ -0,0 +1,797 @@
+/**
+ * Board State Notation parser
+ * Turns the line-based shorthand into a validated GameState, reporting
+ * errors with the exact line and column they occur at
+ */
+
+import {
+  GameStateSchema,
+  PhaseSchema,
+  parseManaString,
+  type GameState,
+  type Phase,
+  type PlayerId,
+} from '@/lib/schemas/game-state';
+import { parseManaPool } from '@/lib/rules/mana-cost';
+import {
+  COMMAND_OBJECT_TYPES,
+  HEADER_KEYS,
+  PHASE_ALIASES,
+  STACK_TYPES,
+  ZONE_ALIASES,
+  seatToPlayerId,
+  type HeaderKey,
+  type NotationZone,
+} from './grammar';
+
+// ============ Types ============
+
+export interface NotationIssue {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export type NotationParseResult =
+  | { success: true; data: GameState }
+  | { success: false; errors: NotationIssue[] };
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+// A slice of a line, remembering where it started
+interface Span {
+  text: string;
+  start: number; // 0-based offset within the line
+  line: number;
+}
+
+interface ParsedEntry {
+  value: Record<string, unknown>;
+  pos: Position;
+}
+
+interface SeatDeclaration {
+  id: PlayerId;
+  life: number;
+  pos: Position;
+}
+
+interface ZoneContent {
+  entries: ParsedEntry[];
+  count?: number;
+  pos: Position;
+}
+
+interface ParseContext {
+  issues: NotationIssue[];
+  turn?: number;
+  phase?: Phase;
+  active?: { id: PlayerId; pos: Position };
+  priority?: { id: PlayerId; pos: Position };
+  mana?: string;
+  landsPlayed?: number;
+  format?: string;
+  seats: SeatDeclaration[];
+  zones: Map<PlayerId, Map<NotationZone, ZoneContent>>;
+  zoneOwners: Array<{ id: PlayerId; pos: Position }>;
+  stack: ParsedEntry[];
+}
+
+// ============ Entry Point ============
+
+/**
+ * Parse board state notation into a validated GameState
+ */
+export function parseNotation(text: string): NotationParseResult {
+  const ctx: ParseContext = {
+    issues: [],
+    seats: [],
+    zones: new Map(),
+    zoneOwners: [],
+    stack: [],
+  };
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((lineText, index) => {
+    const line = index + 1;
+    // Lines starting with "#" are comments
+    if (!lineText.trim() || lineText.trim().startsWith('#')) return;
+
+    for (const segment of splitTopLevel({ text: lineText, start: 0, line }, '|')) {
+      const trimmed = trimSpan(segment);
+      if (trimmed.text) parseSegment(trimmed, ctx);
+    }
+  });
+
+  if (ctx.issues.length > 0) {
+    return { success: false, errors: sortIssues(ctx.issues) };
+  }
+
+  const { raw, locations } = assembleState(ctx);
+  if (ctx.issues.length > 0) {
+    return { success: false, errors: sortIssues(ctx.issues) };
+  }
+
+  const parsed = GameStateSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: sortIssues(parsed.error.issues.map(issue => ({
+        ...locate(issue.path, locations),
+        message: issue.path.length > 0
+          ? `${issue.message} (at ${issue.path.join('.')})`
+          : issue.message,
+      }))),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Format an issue as "Line 2, column 14: message"
+ */
+export function formatNotationIssue(issue: NotationIssue): string {
+  return `Line ${issue.line}, column ${issue.column}: ${issue.message}`;
+}
+
+// ============ Segments ============
+
+const ZONE_SEGMENT_PATTERN = /^(?:([A-Za-z0-9_-]+)\s+)?([A-Za-z]+)\s*:/;
+
+function parseSegment(segment: Span, ctx: ParseContext): void {
+  const match = segment.text.match(ZONE_SEGMENT_PATTERN);
+  const zone = match ? ZONE_ALIASES[match[2].toLowerCase()] : undefined;
+
+  if (!match || !zone) {
+    parseHeader(segment, ctx);
+    return;
+  }
+
+  const seat = match[1];
+  const owner = seat ? seatToPlayerId(seat) : 'you';
+  const ownerPos = toPosition(segment, 0);
+  const body = trimSpan({
+    text: segment.text.slice(match[0].length),
+    start: segment.start + match[0].length,
+    line: segment.line,
+  });
+
+  if (zone === 'stack') {
+    if (seat) {
+      addIssue(ctx, ownerPos, 'The stack is shared; set the controller with (by:seat) instead');
+      return;
+    }
+    for (const item of splitList(body)) {
+      const entries = parseEntry(item, zone, ctx);
+      if (entries) ctx.stack.push(...entries);
+    }
+    return;
+  }
+
+  ctx.zoneOwners.push({ id: owner, pos: ownerPos });
+  const playerZones = ctx.zones.get(owner) ?? new Map<NotationZone, ZoneContent>();
+  ctx.zones.set(owner, playerZones);
+
+  const content = playerZones.get(zone) ?? { entries: [], pos: toPosition(segment, 0) };
+  playerZones.set(zone, content);
+
+  splitList(body).forEach((item, index) => {
+    // Hand and library may open with a card count: "hand: 4, Counterspell"
+    if (index === 0 && (zone === 'hand' || zone === 'library') && /^\d+$/.test(item.text)) {
+      content.count = parseInt(item.text, 10);
+      return;
+    }
+    const entries = parseEntry(item, zone, ctx);
+    if (entries) content.entries.push(...entries);
+  });
+
+  if (zone === 'library' && content.count === undefined) {
+    addIssue(ctx, content.pos, 'Library must start with a card count, e.g. "lib: 40"');
+  }
+}
+
+// ============ Header ============
+
+function parseHeader(segment: Span, ctx: ParseContext): void {
+  for (const token of splitWhitespace(segment)) {
+    const pos = toPosition(token, 0);
+    const text = token.text;
+    const lower = text.toLowerCase();
+
+    const turnMatch = text.match(/^T(\d+)$/i);
+    if (turnMatch) {
+      ctx.turn = parseInt(turnMatch[1], 10);
+      continue;
+    }
+
+    const phase = PHASE_ALIASES[lower] ?? (PhaseSchema.safeParse(lower).success ? lower as Phase : undefined);
+    if (phase) {
+      ctx.phase = phase;
+      continue;
+    }
+
+    const colon = text.indexOf(':');
+    if (colon <= 0) {
+      addIssue(ctx, pos, `Unknown token "${text}" (expected a turn like T5, a phase, or key:value)`);
+      continue;
+    }
+
+    const key = lower.slice(0, colon);
+    const value = text.slice(colon + 1);
+    const valuePos = toPosition(token, colon + 1);
+
+    if (!value) {
+      addIssue(ctx, valuePos, `Missing value for "${key}"`);
+      continue;
+    }
+
+    if ((HEADER_KEYS as readonly string[]).includes(key)) {
+      parseHeaderKey(key as HeaderKey, value, valuePos, ctx);
+      continue;
+    }
+
+    // Anything else is a seat's life total: "me:18", "opp:7", "p3:40"
+    if (!/^-?\d+$/.test(value)) {
+      addIssue(ctx, valuePos, `Life total for "${key}" must be a whole number`);
+      continue;
+    }
+
+    const id = seatToPlayerId(key);
+    if (ctx.seats.some(seat => seat.id === id)) {
+      addIssue(ctx, pos, `Life total for "${key}" given twice`);
+      continue;
+    }
+    ctx.seats.push({ id, life: parseInt(value, 10), pos });
+  }
+}
+
+function parseHeaderKey(key: HeaderKey, value: string, pos: Position, ctx: ParseContext): void {
+  switch (key) {
+    case 'active':
+      ctx.active = { id: seatToPlayerId(value), pos };
+      break;
+    case 'prio':
+      ctx.priority = { id: seatToPlayerId(value), pos };
+      break;
+    case 'mana': {
+      const { unsupported } = parseManaPool(value);
+      if (unsupported.length > 0) {
+        addIssue(ctx, pos, `Floating mana can't include ${unsupported.join(', ')}`);
+        break;
+      }
+      ctx.mana = value;
+      break;
+    }
+    case 'lands':
+      if (!/^\d+$/.test(value)) {
+        addIssue(ctx, pos, 'Lands played must be a whole number');
+        break;
+      }
+      ctx.landsPlayed = parseInt(value, 10);
+      break;
+    case 'fmt':
+      ctx.format = value;
+      break;
+  }
+}
+
+// ============ Entries ============
+
+/**
+ * Parse one card entry: Name, "Quoted, Name", modifiers in (), counters in [], and an optional xN
+ */
+function parseEntry(span: Span, zone: NotationZone, ctx: ParseContext): ParsedEntry[] | null {
+  const pos = toPosition(span, 0);
+  const text = span.text;
+  let i = 0;
+  let name: string;
+
+  if (text.startsWith('"')) {
+    const close = findClosingQuote(text, 0);
+    if (close < 0) {
+      addIssue(ctx, pos, 'Unterminated quoted card name');
+      return null;
+    }
+    name = text.slice(1, close).replace(/\\"/g, '"');
+    i = close + 1;
+  } else {
+    const end = text.search(/[([]/);
+    name = (end < 0 ? text : text.slice(0, end)).trimEnd();
+    i = end < 0 ? text.length : end;
+
+    // "Forest x3" without modifiers
+    const countMatch = name.match(/\s+x(\d+)$/);
+    if (countMatch && end < 0) {
+      name = name.slice(0, -countMatch[0].length);
+      i = text.length - countMatch[0].length;
+    }
+  }
+
+  if (!name) {
+    addIssue(ctx, pos, 'Missing card name');
+    return null;
+  }
+
+  const modifiers: Span[] = [];
+  const counters: Span[] = [];
+  let copies = 1;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const whitespace = rest.length - rest.trimStart().length;
+    i += whitespace;
+    if (i >= text.length) break;
+
+    const char = text[i];
+    if (char === '(' || char === '[') {
+      const closing = char === '(' ? ')' : ']';
+      const close = text.indexOf(closing, i + 1);
+      if (close < 0) {
+        addIssue(ctx, toPosition(span, i), `Missing "${closing}"`);
+        return null;
+      }
+      const inner = { text: text.slice(i + 1, close), start: span.start + i + 1, line: span.line };
+      (char === '(' ? modifiers : counters).push(...splitList(inner));
+      i = close + 1;
+      continue;
+    }
+
+    const countMatch = text.slice(i).match(/^x(\d+)$/);
+    if (countMatch) {
+      copies = parseInt(countMatch[1], 10);
+      if (copies < 1) {
+        addIssue(ctx, toPosition(span, i), 'Copy count must be at least 1');
+        return null;
+      }
+      break;
+    }
+
+    addIssue(ctx, toPosition(span, i), `Unexpected "${text.slice(i)}" after card name`);
+    return null;
+  }
+
+  const value = zone === 'stack'
+    ? buildStackItem(name, modifiers, ctx)
+    : zone === 'battlefield'
+      ? buildPermanent(name, modifiers, ctx)
+      : zone === 'commandZone'
+        ? buildCommandEntry(name, modifiers, ctx)
+        : buildCardReference(name, modifiers, ctx);
+
+  if (!value) return null;
+
+  if (counters.length > 0) {
+    if (zone !== 'battlefield') {
+      addIssue(ctx, toPosition(counters[0], 0), 'Counters are only tracked on the battlefield');
+      return null;
+    }
+    const parsedCounters = parseCounters(counters, ctx);
+    if (!parsedCounters) return null;
+    value.counters = parsedCounters;
+  }
+
+  if (copies > 1 && value.id !== undefined) {
+    addIssue(ctx, pos, 'An entry with an id cannot be copied with xN');
+    return null;
+  }
+
+  return Array.from({ length: copies }, () => ({ value: { ...value }, pos }));
+}
+
+function buildPermanent(name: string, modifiers: Span[], ctx: ParseContext): Record<string, unknown> | null {
+  const permanent: Record<string, unknown> = { name, tapped: false };
+  let isToken = false;
+  let summoningSick = false;
+  let power: string | undefined;
+  let toughness: string | undefined;
+  let ok = true;
+
+  for (const modifier of modifiers) {
+    const { key, value, valuePos } = splitModifier(modifier);
+    const pos = toPosition(modifier, 0);
+
+    if (key.startsWith('#') && key.length > 1 && value === undefined) {
+      permanent.id = modifier.text.slice(1);
+      continue;
+    }
+
+    const ptMatch = modifier.text.match(/^([\d*X+-]+)\/([\d*X+-]+)$/i);
+    if (ptMatch) {
+      power = ptMatch[1];
+      toughness = ptMatch[2];
+      continue;
+    }
+
+    switch (key) {
+      case 't':
+      case 'tapped':
+        permanent.tapped = true;
+        break;
+      case 'ss':
+      case 'sick':
+        summoningSick = true;
+        break;
+      case 'token':
+        isToken = true;
+        break;
+      case 'atk':
+        permanent.attacking = true;
+        if (value) permanent.attackingTarget = seatToPlayerId(value);
+        break;
+      case 'id':
+      case 'on':
+      case 'blk':
+      case 'ctrl':
+        if (!value) {
+          addIssue(ctx, pos, `"${key}" needs a value, e.g. ${key}:x`);
+          ok = false;
+          break;
+        }
+        if (key === 'id') permanent.id = value;
+        if (key === 'on') permanent.attachedTo = value;
+        if (key === 'blk') permanent.blocking = value;
+        if (key === 'ctrl') permanent.controller = seatToPlayerId(value);
+        break;
+      case 'dmg':
+      case 'face': {
+        const number = parseWholeNumber(value, valuePos ?? pos, key, ctx);
+        if (number === null) {
+          ok = false;
+          break;
+        }
+        if (key === 'dmg') permanent.damage = number;
+        if (key === 'face') permanent.faceIndex = number;
+        break;
+      }
+      default:
+        addIssue(ctx, pos, `Unknown battlefield modifier "${modifier.text}"`);
+        ok = false;
+    }
+  }
+
+  if (!ok) return null;
+
+  if (!isToken) {
+    if (power !== undefined) {
+      addIssue(ctx, toPosition(modifiers[0], 0), 'Power/toughness can only be given for tokens, e.g. (token, 1/1)');
+      return null;
+    }
+    return { ...permanent, summoningSick };
+  }
+
+  if (summoningSick) {
+    addIssue(ctx, toPosition(modifiers[0], 0), 'Tokens do not track summoning sickness');
+    return null;
+  }
+
+  return {
+    type: 'token',
+    ...permanent,
+    characteristics: { power, toughness, colors: [], types: [] },
+  };
+}
+
+function buildStackItem(name: string, modifiers: Span[], ctx: ParseContext): Record<string, unknown> | null {
+  const item: Record<string, unknown> = { type: 'spell', source: { name }, controller: 'you' };
+  const targets: string[] = [];
+  const modes: string[] = [];
+
+  for (const modifier of modifiers) {
+    const { key, value, valuePos } = splitModifier(modifier);
+    const pos = toPosition(modifier, 0);
+
+    if ((STACK_TYPES as readonly string[]).includes(key) && value === undefined) {
+      item.type = key;
+      continue;
+    }
+
+    if (key === 'face') {
+      const face = parseWholeNumber(value, valuePos ?? pos, key, ctx);
+      if (face === null) return null;
+      item.source = { name, faceIndex: face };
+      continue;
+    }
+
+    if (!value) {
+      addIssue(ctx, pos, `Unknown stack modifier "${modifier.text}"`);
+      return null;
+    }
+
+    switch (key) {
+      case 'by':
+        item.controller = seatToPlayerId(value);
+        break;
+      case 'tgt':
+        targets.push(seatToPlayerId(value));
+        break;
+      case 'mode':
+        modes.push(value);
+        break;
+      case 'id':
+        item.id = value;
+        break;
+      default:
+        addIssue(ctx, pos, `Unknown stack modifier "${modifier.text}"`);
+        return null;
+    }
+  }
+
+  if (targets.length > 0) item.targets = targets;
+  if (modes.length > 0) item.modes = modes;
+  return item;
+}
+
+function buildCardReference(name: string, modifiers: Span[], ctx: ParseContext): Record<string, unknown> | null {
+  const card: Record<string, unknown> = { name };
+
+  for (const modifier of modifiers) {
+    const { key, value, valuePos } = splitModifier(modifier);
+    const pos = toPosition(modifier, 0);
+
+    if (key !== 'face') {
+      addIssue(ctx, pos, `Modifier "${modifier.text}" is only allowed on the battlefield or stack`);
+      return null;
+    }
+
+    const face = parseWholeNumber(value, valuePos ?? pos, key, ctx);
+    if (face === null) return null;
+    card.faceIndex = face;
+  }
+
+  return card;
+}
+
+/**
+ * A command zone card, or an emblem, dungeon, plane or scheme marked by its type:
+ * "Lost Mine of Phandelver(dungeon, room:Goblin Lair)"
+ */
+function buildCommandEntry(name: string, modifiers: Span[], ctx: ParseContext): Record<string, unknown> | null {
+  const typeModifier = modifiers.find(modifier => COMMAND_OBJECT_TYPES.includes(splitModifier(modifier).key));
+  if (!typeModifier) return buildCardReference(name, modifiers, ctx);
+
+  const object: Record<string, unknown> = { type: splitModifier(typeModifier).key, name };
+
+  for (const modifier of modifiers) {
+    if (modifier === typeModifier) continue;
+    const { key, value } = splitModifier(modifier);
+    const pos = toPosition(modifier, 0);
+
+    if (key === 'room' && object.type === 'dungeon' && value) {
+      object.room = value;
+    } else if (key === 'ongoing' && object.type === 'scheme' && value === undefined) {
+      object.ongoing = true;
+    } else if (key === 'id' && value) {
+      object.id = value;
+    } else {
+      addIssue(ctx, pos, `Unknown ${object.type} modifier "${modifier.text}"`);
+      return null;
+    }
+  }
+
+  return object;
+}
+
+function parseCounters(counters: Span[], ctx: ParseContext): Record<string, number> | null {
+  const result: Record<string, number> = {};
+
+  for (const counter of counters) {
+    // Split on the last colon so "+1/+1:2" works
+    const colon = counter.text.lastIndexOf(':');
+    const kind = (colon < 0 ? counter.text : counter.text.slice(0, colon)).trim();
+    const amountText = colon < 0 ? '1' : counter.text.slice(colon + 1).trim();
+
+    if (!kind) {
+      addIssue(ctx, toPosition(counter, 0), 'Missing counter type');
+      return null;
+    }
+    if (!/^\d+$/.test(amountText)) {
+      addIssue(ctx, toPosition(counter, colon + 1), `Counter amount for "${kind}" must be a whole number`);
+      return null;
+    }
+    result[kind] = (result[kind] ?? 0) + parseInt(amountText, 10);
+  }
+
+  return result;
+}
+
+// ============ Assembly ============
+
+/**
+ * Turn the parsed pieces into a raw game state, remembering where each piece came from
+ */
+function assembleState(ctx: ParseContext): { raw: Record<string, unknown>; locations: Map<string, Position> } {
+  const locations = new Map<string, Position>();
+  const firstLine: Position = { line: 1, column: 1 };
+
+  const seats = ctx.seats.length > 0
+    ? ctx.seats
+    : [
+        { id: 'you', life: 20, pos: firstLine },
+        { id: 'opponent', life: 20, pos: firstLine },
+      ];
+  const seatIds = new Set(seats.map(seat => seat.id));
+  const isTwoPlayer = seats.every(seat => seat.id === 'you' || seat.id === 'opponent');
+
+  if (isTwoPlayer) {
+    // Two-player notation may omit either life total
+    seatIds.add('you');
+    seatIds.add('opponent');
+  }
+
+  for (const owner of ctx.zoneOwners) {
+    if (!seatIds.has(owner.id)) {
+      addIssue(ctx, owner.pos, `Unknown player "${owner.id}" (declare it in the header, e.g. ${owner.id}:40)`);
+    }
+  }
+
+  const perspective = seatIds.has('you') ? 'you' : seats[0].id;
+  const active = ctx.active?.id ?? perspective;
+
+  const buildZones = (id: PlayerId, path: string) => {
+    const zones: Record<string, unknown> = {};
+    for (const [zone, content] of ctx.zones.get(id) ?? []) {
+      const zonePath = `${path}.${zone}`;
+      locations.set(zonePath, content.pos);
+      content.entries.forEach((entry, index) => {
+        const entryPath = zone === 'library' ? `${zonePath}.knownTop.${index}` : `${zonePath}.${index}`;
+        locations.set(entryPath, entry.pos);
+      });
+
+      const cards = content.entries.map(entry => entry.value);
+      if (zone === 'library') {
+        zones.library = { count: content.count, knownTop: cards.length > 0 ? cards : undefined };
+      } else if (zone === 'companion') {
+        if (content.entries.length > 1) addIssue(ctx, content.entries[1].pos, 'A player can only have one companion');
+        zones.companion = cards[0];
+      } else if (zone === 'hand' && content.count !== undefined) {
+        zones.hand = { count: content.count, known: cards.length > 0 ? cards : undefined };
+        content.entries.forEach((entry, index) => locations.set(`${zonePath}.known.${index}`, entry.pos));
+      } else {
+        zones[zone] = cards;
+      }
+    }
+    return zones;
+  };
+
+  const raw: Record<string, unknown> = {
+    turn: ctx.turn ?? 1,
+    phase: ctx.phase ?? 'precombat_main',
+    priority: ctx.priority?.id ?? active,
+    activePlayer: active,
+    stack: ctx.stack.map(entry => entry.value),
+    format: ctx.format,
+    landsPlayedThisTurn: ctx.landsPlayed,
+  };
+
+  if (ctx.active) locations.set('activePlayer', ctx.active.pos);
+  if (ctx.priority) locations.set('priority', ctx.priority.pos);
+  ctx.stack.forEach((entry, index) => locations.set(`stack.${index}`, entry.pos));
+
+  const manaPool = ctx.mana ? parseManaString(ctx.mana) : undefined;
+
+  if (isTwoPlayer) {
+    raw.life = {
+      you: seats.find(seat => seat.id === 'you')?.life ?? 20,
+      opponent: seats.find(seat => seat.id === 'opponent')?.life ?? 20,
+    };
+    raw.manaPool = manaPool;
+    raw.you = buildZones('you', 'you');
+    raw.opponent = buildZones('opponent', 'opponent');
+  } else {
+    raw.perspective = perspective;
+    raw.players = seats.map((seat, index) => {
+      locations.set(`players.${index}`, seat.pos);
+      return {
+        id: seat.id,
+        turnOrder: index,
+        life: seat.life,
+        zones: buildZones(seat.id, `players.${index}.zones`),
+        manaPool: seat.id === perspective ? manaPool : undefined,
+      };
+    });
+  }
+
+  return { raw, locations };
+}
+
+/**
+ * Find the source position for a validation issue path (longest known prefix wins)
+ */
+function locate(path: PropertyKey[], locations: Map<string, Position>): Position {
+  for (let length = path.length; length > 0; length--) {
+    const pos = locations.get(path.slice(0, length).map(String).join('.'));
+    if (pos) return pos;
+  }
+  return { line: 1, column: 1 };
+}
+
+// ============ Scanning Helpers ============
+
+/**
+ * Split on a separator, ignoring separators inside quotes, () or []
+ */
+function splitTopLevel(span: Span, separator: string): Span[] {
+  const parts: Span[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let partStart = 0;
+
+  for (let i = 0; i < span.text.length; i++) {
+    const char = span.text[i];
+    if (char === '"' && span.text[i - 1] !== '\\') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '(' || char === '[')) {
+      depth++;
+    } else if (!inQuotes && (char === ')' || char === ']')) {
+      depth = Math.max(0, depth - 1);
+    } else if (!inQuotes && depth === 0 && char === separator) {
+      parts.push({ text: span.text.slice(partStart, i), start: span.start + partStart, line: span.line });
+      partStart = i + 1;
+    }
+  }
+
+  parts.push({ text: span.text.slice(partStart), start: span.start + partStart, line: span.line });
+  return parts;
+}
+
+function splitList(span: Span): Span[] {
+  return splitTopLevel(span, ',').map(trimSpan).filter(part => part.text.length > 0);
+}
+
+function splitWhitespace(span: Span): Span[] {
+  const tokens: Span[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(span.text)) !== null) {
+    tokens.push({ text: match[0], start: span.start + match.index, line: span.line });
+  }
+  return tokens;
+}
+
+function trimSpan(span: Span): Span {
+  const leading = span.text.length - span.text.trimStart().length;
+  return { text: span.text.trim(), start: span.start + leading, line: span.line };
+}
+
+function splitModifier(modifier: Span): { key: string; value?: string; valuePos?: Position } {
+  const colon = modifier.text.indexOf(':');
+  if (colon < 0) {
+    return { key: modifier.text.toLowerCase() };
+  }
+  return {
+    key: modifier.text.slice(0, colon).trim().toLowerCase(),
+    value: modifier.text.slice(colon + 1).trim(),
+    valuePos: toPosition(modifier, colon + 1),
+  };
+}
+
+function findClosingQuote(text: string, open: number): number {
+  for (let i = open + 1; i < text.length; i++) {
+    if (text[i] === '"' && text[i - 1] !== '\\') return i;
+  }
+  return -1;
+}
+
+function parseWholeNumber(value: string | undefined, pos: Position, key: string, ctx: ParseContext): number | null {
+  if (!value || !/^\d+$/.test(value)) {
+    addIssue(ctx, pos, `"${key}" must be a whole number`);
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+function toPosition(span: Span, offset: number): Position {
+  return { line: span.line, column: span.start + offset + 1 };
+}
+
+function addIssue(ctx: ParseContext, pos: Position, message: string): void {
+  ctx.issues.push({ line: pos.line, column: pos.column, message });
+}
+
+function sortIssues(issues: NotationIssue[]): NotationIssue[] {
+  return [...issues].sort((a, b) => a.line - b.line || a.column - b.column);
+}
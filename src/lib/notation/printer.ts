@@ -0,0 +1,204 @@
+/**
+ * Board State Notation printer
+ * Turns a GameState back into the line-based shorthand understood by the parser.
+ * Fields the notation has no syntax for (notes, Arena state, commander damage,
+ * library bottom) are left out.
+ */
+
+import {
+  getPerspective,
+  getPlayers,
+  isCommandObject,
+  isMultiplayer,
+  type CardReference,
+  type CommandObject,
+  type GameState,
+  type ManaPool,
+  type Permanent,
+  type PlayerView,
+  type StackItem,
+  type Token,
+} from '@/lib/schemas/game-state';
+import {
+  PHASE_SHORT_NAMES,
+  RESERVED_NAME_CHARS,
+  ZONE_SHORT_NAMES,
+  playerIdToSeat,
+  type NotationZone,
+} from './grammar';
+
+/**
+ * Print a game state as board state notation
+ */
+export function printNotation(state: GameState): string {
+  const players = getPlayers(state);
+  const perspective = isMultiplayer(state) ? getPerspective(state) : 'you';
+  const lines = [printHeader(state, players, perspective)];
+
+  for (const player of players) {
+    const segments = printZones(player);
+    if (segments.length === 0) continue;
+
+    const prefix = player.id === 'you' ? '' : `${playerIdToSeat(player.id)} `;
+    lines.push(segments.map(segment => prefix + segment).join(' | '));
+  }
+
+  if (state.stack.length > 0) {
+    lines.push(`stack: ${state.stack.map(printStackItem).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============ Header ============
+
+function printHeader(state: GameState, players: PlayerView[], perspective: string): string {
+  const tokens = [`T${state.turn}`, PHASE_SHORT_NAMES[state.phase] ?? state.phase];
+
+  for (const player of players) {
+    tokens.push(`${playerIdToSeat(player.id)}:${player.life}`);
+  }
+
+  if (state.activePlayer !== perspective) {
+    tokens.push(`active:${playerIdToSeat(state.activePlayer)}`);
+  }
+  if (state.priority !== state.activePlayer) {
+    tokens.push(`prio:${playerIdToSeat(state.priority)}`);
+  }
+
+  const manaPool = players.find(player => player.id === perspective)?.manaPool;
+  const mana = manaPool ? printManaPool(manaPool) : '';
+  if (mana) tokens.push(`mana:${mana}`);
+
+  if (state.landsPlayedThisTurn > 0) tokens.push(`lands:${state.landsPlayedThisTurn}`);
+  if (state.format) tokens.push(`fmt:${state.format}`);
+
+  return tokens.join(' ');
+}
+
+function printManaPool(pool: ManaPool): string {
+  return (['W', 'U', 'B', 'R', 'G', 'C'] as const)
+    .map(color => color.repeat(pool[color]))
+    .join('');
+}
+
+// ============ Zones ============
+
+function printZones(player: PlayerView): string[] {
+  const { zones } = player;
+  const segments: string[] = [];
+
+  const addSegment = (zone: NotationZone, items: string[]) => {
+    if (items.length > 0) segments.push(`${ZONE_SHORT_NAMES[zone]}: ${items.join(', ')}`);
+  };
+
+  addSegment('battlefield', collapse(zones.battlefield.map(printPermanent)));
+
+  if (Array.isArray(zones.hand)) {
+    addSegment('hand', collapse(zones.hand.map(printCardReference)));
+  } else {
+    addSegment('hand', [String(zones.hand.count), ...collapse((zones.hand.known ?? []).map(printCardReference))]);
+  }
+
+  addSegment('graveyard', collapse(zones.graveyard.map(printCardReference)));
+  addSegment('exile', collapse(zones.exile.map(printCardReference)));
+
+  if (zones.library) {
+    addSegment('library', [
+      String(zones.library.count),
+      ...(zones.library.knownTop ?? []).map(printCardReference),
+    ]);
+  }
+
+  if (zones.commandZone) {
+    addSegment('commandZone', collapse(zones.commandZone.map(entry =>
+      isCommandObject(entry) ? printCommandObject(entry) : printCardReference(entry)
+    )));
+  }
+
+  addSegment('sideboard', collapse((zones.sideboard ?? []).map(printCardReference)));
+  if (zones.companion) addSegment('companion', [printCardReference(zones.companion)]);
+  addSegment('outsideGame', collapse((zones.outsideGame ?? []).map(printCardReference)));
+
+  return segments;
+}
+
+/**
+ * Merge runs of identical entries into "Name xN"
+ */
+function collapse(items: string[]): string[] {
+  const result: string[] = [];
+  let i = 0;
+
+  while (i < items.length) {
+    let run = 1;
+    while (i + run < items.length && items[i + run] === items[i]) run++;
+    result.push(run > 1 ? `${items[i]} x${run}` : items[i]);
+    i += run;
+  }
+
+  return result;
+}
+
+// ============ Entries ============
+
+function printName(name: string): string {
+  return RESERVED_NAME_CHARS.test(name) ? `"${name.replace(/"/g, '\\"')}"` : name;
+}
+
+function printCardReference(card: CardReference): string {
+  return printName(card.name) + (card.faceIndex !== undefined ? `(face:${card.faceIndex})` : '');
+}
+
+function printCommandObject(object: CommandObject): string {
+  const modifiers: string[] = [object.type];
+  if (object.type === 'dungeon' && object.room) modifiers.push(`room:${object.room}`);
+  if (object.type === 'scheme' && object.ongoing) modifiers.push('ongoing');
+  if (object.id) modifiers.push(`id:${object.id}`);
+  return `${printName(object.name)}(${modifiers.join(', ')})`;
+}
+
+function printPermanent(permanent: Permanent | Token): string {
+  const modifiers: string[] = [];
+  const isToken = 'type' in permanent && permanent.type === 'token';
+
+  if (permanent.tapped) modifiers.push('T');
+  if (!isToken && (permanent as Permanent).summoningSick) modifiers.push('SS');
+  if (isToken) {
+    modifiers.push('token');
+    const { power, toughness } = (permanent as Token).characteristics;
+    if (power !== undefined && toughness !== undefined) modifiers.push(`${power}/${toughness}`);
+  }
+  if (permanent.id) modifiers.push(`id:${permanent.id}`);
+  if (!isToken && (permanent as Permanent).attachedTo) modifiers.push(`on:${(permanent as Permanent).attachedTo}`);
+  if (permanent.damage) modifiers.push(`dmg:${permanent.damage}`);
+  if (permanent.attacking) {
+    modifiers.push(permanent.attackingTarget ? `atk:${playerIdToSeat(permanent.attackingTarget)}` : 'atk');
+  }
+  if (permanent.blocking) modifiers.push(`blk:${permanent.blocking}`);
+  if (permanent.controller) modifiers.push(`ctrl:${playerIdToSeat(permanent.controller)}`);
+  if (!isToken && (permanent as Permanent).faceIndex !== undefined) {
+    modifiers.push(`face:${(permanent as Permanent).faceIndex}`);
+  }
+
+  const counters = Object.entries(permanent.counters ?? {})
+    .filter(([, amount]) => amount > 0)
+    .map(([kind, amount]) => (amount === 1 ? kind : `${kind}:${amount}`));
+
+  return printName(permanent.name)
+    + (modifiers.length > 0 ? `(${modifiers.join(', ')})` : '')
+    + (counters.length > 0 ? `[${counters.join(', ')}]` : '');
+}
+
+function printStackItem(item: StackItem): string {
+  const modifiers: string[] = [];
+
+  if (item.type !== 'spell') modifiers.push(item.type);
+  if (item.controller !== 'you') modifiers.push(`by:${playerIdToSeat(item.controller)}`);
+  for (const target of item.targets ?? []) modifiers.push(`tgt:${playerIdToSeat(target)}`);
+  for (const mode of item.modes ?? []) modifiers.push(`mode:${mode}`);
+  if (item.id) modifiers.push(`id:${item.id}`);
+  if (item.source.faceIndex !== undefined) modifiers.push(`face:${item.source.faceIndex}`);
+
+  return printName(item.source.name) + (modifiers.length > 0 ? `(${modifiers.join(', ')})` : '');
+}
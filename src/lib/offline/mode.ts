@@ -0,0 +1,20 @@
+/**
+ * Offline mode
+ * With OFFLINE_MODE=1 card data comes from a local SQLite file instead of
+ * Postgres, and nothing is fetched from Scryfall: names the store doesn't
+ * have resolve as not_found.
+ */
+
+import { join } from 'path';
+
+export function isOfflineMode(): boolean {
+  const value = process.env.OFFLINE_MODE?.toLowerCase();
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Where the offline card store lives, overridable with OFFLINE_DB_PATH
+ */
+export function offlineDbPath(): string {
+  return process.env.OFFLINE_DB_PATH || join(process.cwd(), 'oraclemint.sqlite');
+}
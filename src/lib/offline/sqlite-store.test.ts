@@ -0,0 +1,75 @@
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadBulkFile } from '@/lib/scryfall/bulk-sync';
+import { resolveCardNames, resolveToken } from '@/lib/scryfall/card-resolver';
+import { openSqliteStore } from './sqlite-store';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+const fixture = (name: string) => join(__dirname, 'fixtures', name);
+
+// Nothing may reach Scryfall in offline mode
+const fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('Unexpected network request'));
+
+beforeAll(async () => {
+  vi.stubEnv('OFFLINE_MODE', '1');
+  vi.stubEnv('OFFLINE_DB_PATH', ':memory:');
+
+  expect(await loadBulkFile(fixture('oracle-cards.json'), 'oracle_cards')).toEqual({ processed: 6, failed: 0 });
+  expect(await loadBulkFile(fixture('default-cards.json'), 'default_cards')).toEqual({ processed: 3, failed: 0 });
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('offline resolution', () => {
+  it('resolves exact, face, fuzzy and unknown names', async () => {
+    const results = await resolveCardNames(['Lightning Bolt', 'Insectile Aberration', 'Thoughtsieze', 'Black Lotus']);
+
+    expect(results.map(result => [result.status, result.card?.name])).toEqual([
+      ['exact', 'Lightning Bolt'],
+      ['face_match', 'Delver of Secrets // Insectile Aberration'],
+      ['fuzzy', 'Thoughtseize'],
+      ['not_found', undefined],
+    ]);
+    expect(results[1].matchedFace).toBe(1);
+  });
+
+  it('resolves a set and collector number and an Arena id to the printing', async () => {
+    const [bySet, byArenaId, unknownArenaId] = await resolveCardNames([
+      'Lightning Bolt (M11) 146',
+      'arena:75185',
+      'arena:1',
+    ]);
+
+    expect(bySet).toMatchObject({ status: 'exact', card: { name: 'Lightning Bolt' }, printing: { setCode: 'm11', collectorNumber: '146' } });
+    expect(byArenaId).toMatchObject({ status: 'exact', card: { name: 'Lightning Bolt' }, printing: { setCode: 'sta', arenaId: 75185 } });
+    expect(unknownArenaId.status).toBe('not_found');
+  });
+
+  it('links a token stored before the card that creates it', async () => {
+    const result = await resolveToken({ name: 'Goblin', createdBy: 'oracle-krenkos-command', colors: ['R'] });
+
+    expect(result).toMatchObject({ status: 'created_by', token: { createdBy: ['oracle-krenkos-command'] } });
+  });
+
+  it('links a token stored after the card that creates it', async () => {
+    const result = await resolveToken({ name: 'Soldier', createdBy: 'oracle-raise-the-alarm', colors: ['W'] });
+
+    expect(result).toMatchObject({ status: 'created_by', token: { createdBy: ['oracle-raise-the-alarm'] } });
+  });
+
+  it('never calls Scryfall', () => {
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('openSqliteStore', () => {
+  it('keeps each in-memory store separate', async () => {
+    const store = openSqliteStore(':memory:');
+
+    expect(await store.findCardsByName(['lightning bolt'])).toEqual([]);
+    expect(await store.hasCard('oracle-lightning-bolt')).toBe(false);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * SQLite card store for offline mode
+ * Mirrors the Postgres card tables in one local file. Array and JSON columns
+ * are stored as JSON text, and similar names are found by comparing trigrams
+ * in process, the way pg_trgm does.
+ */
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import type { ArenaCard, Card, CardFace, Printing, Ruling, Token } from '@prisma/client';
+import { nameTrigrams, trigramSimilarity } from '@/lib/utils/card-names';
+import type { CardStore, CardWithRelations, NameMatch } from '@/lib/scryfall/card-store';
+import { offlineDbPath } from './mode';
+
+// pg_trgm's default similarity threshold for the % operator
+const TRIGRAM_THRESHOLD = 0.3;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cards (
+    id TEXT PRIMARY KEY,
+    oracleId TEXT NOT NULL UNIQUE,
+    scryfallId TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    normalizedName TEXT NOT NULL,
+    layout TEXT NOT NULL,
+    manaCost TEXT,
+    cmc REAL NOT NULL,
+    typeLine TEXT NOT NULL,
+    oracleText TEXT,
+    power TEXT,
+    toughness TEXT,
+    loyalty TEXT,
+    colors TEXT NOT NULL,
+    colorIdentity TEXT NOT NULL,
+    keywords TEXT NOT NULL,
+    legalities TEXT NOT NULL,
+    releasedAt TEXT,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS cards_normalized_name_idx ON cards (normalizedName);
+
+  CREATE TABLE IF NOT EXISTS card_faces (
+    id TEXT PRIMARY KEY,
+    cardId TEXT NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+    faceIndex INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    normalizedName TEXT NOT NULL,
+    manaCost TEXT,
+    typeLine TEXT NOT NULL,
+    oracleText TEXT,
+    power TEXT,
+    toughness TEXT,
+    loyalty TEXT,
+    defense TEXT,
+    UNIQUE (cardId, faceIndex)
+  );
+  CREATE INDEX IF NOT EXISTS card_faces_normalized_name_idx ON card_faces (normalizedName);
+
+  CREATE TABLE IF NOT EXISTS rulings (
+    id TEXT PRIMARY KEY,
+    oracleId TEXT NOT NULL REFERENCES cards (oracleId) ON DELETE CASCADE,
+    publishedAt TEXT NOT NULL,
+    comment TEXT NOT NULL,
+    source TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS rulings_oracle_id_idx ON rulings (oracleId);
+
+  CREATE TABLE IF NOT EXISTS printings (
+    id TEXT PRIMARY KEY,
+    scryfallId TEXT NOT NULL UNIQUE,
+    oracleId TEXT NOT NULL REFERENCES cards (oracleId) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    normalizedName TEXT NOT NULL,
+    setCode TEXT NOT NULL,
+    setName TEXT NOT NULL,
+    collectorNumber TEXT NOT NULL,
+    rarity TEXT NOT NULL,
+    lang TEXT NOT NULL,
+    arenaId INTEGER,
+    mtgoId INTEGER,
+    releasedAt TEXT,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL,
+    UNIQUE (setCode, collectorNumber, lang)
+  );
+  CREATE INDEX IF NOT EXISTS printings_oracle_id_idx ON printings (oracleId);
+  CREATE INDEX IF NOT EXISTS printings_arena_id_idx ON printings (arenaId);
+
+  CREATE TABLE IF NOT EXISTS arena_cards (
+    grpId INTEGER PRIMARY KEY,
+    oracleId TEXT NOT NULL,
+    name TEXT NOT NULL,
+    scryfallId TEXT NOT NULL,
+    layout TEXT NOT NULL,
+    createdAt TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tokens (
+    id TEXT PRIMARY KEY,
+    scryfallId TEXT NOT NULL UNIQUE,
+    oracleId TEXT NOT NULL,
+    name TEXT NOT NULL,
+    normalizedName TEXT NOT NULL,
+    typeLine TEXT NOT NULL,
+    oracleText TEXT,
+    power TEXT,
+    toughness TEXT,
+    colors TEXT NOT NULL,
+    keywords TEXT NOT NULL,
+    createdBy TEXT NOT NULL,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tokens_normalized_name_idx ON tokens (normalizedName);
+`;
+
+type Row = Record<string, unknown>;
+
+// ============ Rows ============
+
+/**
+ * Column values SQLite can bind: arrays and objects as JSON, dates as ISO strings
+ */
+function toRow(fields: object): Record<string, string | number | bigint | null> {
+  const row: Record<string, string | number | bigint | null> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) row[key] = null;
+    else if (value instanceof Date) row[key] = value.toISOString();
+    else if (typeof value === 'object') row[key] = JSON.stringify(value);
+    else row[key] = value as string | number | bigint;
+  }
+  return row;
+}
+
+const toDate = (value: unknown) => new Date(value as string);
+const toOptionalDate = (value: unknown) => (value === null ? null : toDate(value));
+const toArray = (value: unknown) => JSON.parse(value as string) as string[];
+
+function toCard(row: Row): Card {
+  return {
+    ...row,
+    colors: toArray(row.colors),
+    colorIdentity: toArray(row.colorIdentity),
+    keywords: toArray(row.keywords),
+    legalities: JSON.parse(row.legalities as string),
+    releasedAt: toOptionalDate(row.releasedAt),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toDate(row.updatedAt),
+  } as Card;
+}
+
+function toRuling(row: Row): Ruling {
+  return { ...row, publishedAt: toDate(row.publishedAt) } as Ruling;
+}
+
+function toPrinting(row: Row): Printing {
+  return {
+    ...row,
+    releasedAt: toOptionalDate(row.releasedAt),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toDate(row.updatedAt),
+  } as Printing;
+}
+
+function toArenaCard(row: Row): ArenaCard {
+  return { ...row, createdAt: toDate(row.createdAt) } as ArenaCard;
+}
+
+function toToken(row: Row): Token {
+  return {
+    ...row,
+    colors: toArray(row.colors),
+    keywords: toArray(row.keywords),
+    createdBy: toArray(row.createdBy),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toDate(row.updatedAt),
+  } as Token;
+}
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+// ============ Store ============
+
+interface NameEntry extends Omit<NameMatch, 'trigram'> {
+  trigrams: Set<string>;
+}
+
+/**
+ * Open (creating if needed) a SQLite card store; ':memory:' makes a throwaway one
+ */
+export function openSqliteStore(path: string): CardStore {
+  const sqlite = new Database(path);
+  sqlite.pragma('journal_mode = WAL');
+  sqlite.pragma('synchronous = NORMAL');
+  sqlite.pragma('foreign_keys = ON');
+  sqlite.exec(SCHEMA);
+
+  const statements = new Map<string, Database.Statement>();
+  const prepare = (sql: string) => {
+    let statement = statements.get(sql);
+    if (!statement) {
+      statement = sqlite.prepare(sql);
+      statements.set(sql, statement);
+    }
+    return statement;
+  };
+  const all = (sql: string, ...params: unknown[]) => prepare(sql).all(...params) as Row[];
+  const get = (sql: string, ...params: unknown[]) => prepare(sql).get(...params) as Row | undefined;
+  const run = (sql: string, ...params: unknown[]) => prepare(sql).run(...params);
+
+  /**
+   * Insert a row, or update every column but the key ones when the conflict column matches
+   */
+  const upsert = (table: string, conflict: string, row: Row, keep: string[] = []) => {
+    const columns = Object.keys(row);
+    const updates = columns.filter(column => column !== conflict && !keep.includes(column));
+    return prepare(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})
+       ON CONFLICT (${conflict}) DO UPDATE SET ${updates.map(column => `${column} = excluded.${column}`).join(', ')}
+       RETURNING *`
+    ).get(row) as Row;
+  };
+
+  const withRelations = (rows: Row[]): CardWithRelations[] => {
+    if (rows.length === 0) return [];
+    const cards = rows.map(toCard);
+
+    const faces = all(
+      `SELECT * FROM card_faces WHERE cardId IN (${placeholders(cards)}) ORDER BY faceIndex`,
+      ...cards.map(card => card.id)
+    ) as unknown as CardFace[];
+    const rulings = all(
+      `SELECT * FROM rulings WHERE oracleId IN (${placeholders(cards)}) ORDER BY publishedAt`,
+      ...cards.map(card => card.oracleId)
+    ).map(toRuling);
+
+    return cards.map(card => ({
+      ...card,
+      faces: faces.filter(face => face.cardId === card.id),
+      rulings: rulings.filter(ruling => ruling.oracleId === card.oracleId),
+    }));
+  };
+
+  // Every card and face name with its trigrams, built on the first similarity lookup
+  let nameIndex: NameEntry[] | null = null;
+  const getNameIndex = (): NameEntry[] => {
+    nameIndex ??= all(
+      `SELECT oracleId, name, typeLine, normalizedName AS matchedName, NULL AS faceIndex FROM cards
+       UNION ALL
+       SELECT c.oracleId, c.name, c.typeLine, f.normalizedName, f.faceIndex
+       FROM card_faces f JOIN cards c ON c.id = f.cardId`
+    ).map(row => ({
+      ...(row as unknown as Omit<NameEntry, 'trigrams'>),
+      trigrams: nameTrigrams(row.matchedName as string),
+    }));
+    return nameIndex;
+  };
+
+  return {
+    async findCardsByName(normalizedNames) {
+      if (normalizedNames.length === 0) return [];
+      return withRelations(all(`SELECT * FROM cards WHERE normalizedName IN (${placeholders(normalizedNames)})`, ...normalizedNames));
+    },
+
+    async findFacesByName(normalizedNames) {
+      if (normalizedNames.length === 0) return [];
+      const faces = all(
+        `SELECT * FROM card_faces WHERE normalizedName IN (${placeholders(normalizedNames)})`,
+        ...normalizedNames
+      ) as unknown as CardFace[];
+      if (faces.length === 0) return [];
+
+      const cardIds = [...new Set(faces.map(face => face.cardId))];
+      const cards = withRelations(all(`SELECT * FROM cards WHERE id IN (${placeholders(cardIds)})`, ...cardIds));
+      return faces.map(face => ({ ...face, card: cards.find(card => card.id === face.cardId)! }));
+    },
+
+    async findSimilarNames(normalized, limit) {
+      const trigrams = nameTrigrams(normalized);
+      const matches: NameMatch[] = [];
+
+      for (const { trigrams: entryTrigrams, ...entry } of getNameIndex()) {
+        const trigram = trigramSimilarity(trigrams, entryTrigrams);
+        if (trigram >= TRIGRAM_THRESHOLD) matches.push({ ...entry, trigram });
+      }
+
+      return matches.sort((a, b) => b.trigram - a.trigram).slice(0, limit);
+    },
+
+    async getCardsByOracleId(oracleIds) {
+      if (oracleIds.length === 0) return [];
+      return withRelations(all(`SELECT * FROM cards WHERE oracleId IN (${placeholders(oracleIds)})`, ...oracleIds));
+    },
+
+    async findPrinting(lookup) {
+      const conditions = Object.keys(lookup).map(column => `${column} = @${column}`).join(' AND ');
+      const row = get(`SELECT * FROM printings WHERE ${conditions} ORDER BY collectorNumber LIMIT 1`, lookup);
+      return row ? toPrinting(row) : null;
+    },
+
+    async findArenaCards(grpIds) {
+      if (grpIds.length === 0) return [];
+      return all(`SELECT * FROM arena_cards WHERE grpId IN (${placeholders(grpIds)})`, ...grpIds).map(toArenaCard);
+    },
+
+    async findTokens(where) {
+      const rows = 'createdBy' in where
+        ? all('SELECT * FROM tokens WHERE EXISTS (SELECT 1 FROM json_each(tokens.createdBy) WHERE value = ?)', where.createdBy)
+        : all('SELECT * FROM tokens WHERE normalizedName = ?', where.normalizedName);
+      return rows.map(toToken);
+    },
+
+    async autocomplete(normalized, limit) {
+      const pattern = normalized.replace(/[\\%_]/g, '\\$&');
+
+      const prefixMatches = all(
+        `SELECT name, oracleId, typeLine FROM cards WHERE normalizedName LIKE ? ESCAPE '\\' ORDER BY name LIMIT ?`,
+        `${pattern}%`, limit
+      );
+      if (prefixMatches.length >= limit) {
+        return prefixMatches as Array<{ name: string; oracleId: string; typeLine: string }>;
+      }
+
+      const containsMatches = all(
+        `SELECT name, oracleId, typeLine FROM cards
+         WHERE normalizedName LIKE ? ESCAPE '\\' AND normalizedName NOT LIKE ? ESCAPE '\\'
+         ORDER BY name LIMIT ?`,
+        `%${pattern}%`, `${pattern}%`, limit - prefixMatches.length
+      );
+      return [...prefixMatches, ...containsMatches] as Array<{ name: string; oracleId: string; typeLine: string }>;
+    },
+
+    async upsertCard(card) {
+      const now = new Date();
+      nameIndex = null;
+      const row = upsert('cards', 'oracleId', toRow({ id: randomUUID(), ...card, createdAt: now, updatedAt: now }), ['id', 'createdAt']);
+      return row.id as string;
+    },
+
+    async replaceFaces(cardId, faces) {
+      nameIndex = null;
+      sqlite.transaction(() => {
+        run('DELETE FROM card_faces WHERE cardId = ?', cardId);
+        for (const face of faces) {
+          upsert('card_faces', 'id', toRow({ id: randomUUID(), cardId, ...face }));
+        }
+      })();
+    },
+
+    async hasCard(oracleId) {
+      return get('SELECT 1 FROM cards WHERE oracleId = ?', oracleId) !== undefined;
+    },
+
+    async findOracleIds({ scryfallIds, normalizedNames }) {
+      const rows = all(
+        `SELECT oracleId FROM cards WHERE scryfallId IN (${placeholders(scryfallIds)}) OR normalizedName IN (${placeholders(normalizedNames)})`,
+        ...scryfallIds, ...normalizedNames
+      );
+      return rows.map(row => row.oracleId as string);
+    },
+
+    async upsertPrinting(printing) {
+      const now = new Date();
+      upsert('printings', 'scryfallId', toRow({ id: randomUUID(), ...printing, createdAt: now, updatedAt: now }), ['id', 'createdAt']);
+    },
+
+    async upsertArenaCard(arenaCard) {
+      return toArenaCard(upsert('arena_cards', 'grpId', toRow({ ...arenaCard, createdAt: new Date() }), ['createdAt']));
+    },
+
+    async getTokenCreators(scryfallId) {
+      const row = get('SELECT createdBy FROM tokens WHERE scryfallId = ?', scryfallId);
+      return row ? toArray(row.createdBy) : null;
+    },
+
+    async upsertToken(token) {
+      const now = new Date();
+      upsert('tokens', 'scryfallId', toRow({ id: randomUUID(), ...token, createdAt: now, updatedAt: now }), ['id', 'createdAt']);
+    },
+
+    async addTokenCreator(part, oracleId) {
+      run(
+        `UPDATE tokens SET createdBy = json_insert(createdBy, '$[#]', @oracleId), updatedAt = @now
+         WHERE (scryfallId = @scryfallId OR (normalizedName = @normalizedName AND typeLine = @typeLine))
+           AND NOT EXISTS (SELECT 1 FROM json_each(tokens.createdBy) WHERE value = @oracleId)`,
+        { ...part, oracleId, now: new Date().toISOString() }
+      );
+    },
+
+    async replaceRulings(oracleId, rulings) {
+      sqlite.transaction(() => {
+        run('DELETE FROM rulings WHERE oracleId = ?', oracleId);
+        for (const ruling of rulings) {
+          upsert('rulings', 'id', toRow({ id: randomUUID(), oracleId, ...ruling }));
+        }
+      })();
+    },
+  };
+}
+
+let store: CardStore | null = null;
+
+/**
+ * The offline store at OFFLINE_DB_PATH, opened on first use
+ */
+export function getSqliteStore(): CardStore {
+  store ??= openSqliteStore(offlineDbPath());
+  return store;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import { getFaceCharacteristics } from './card-lookup';
+
+const face = (name: string, typeLine: string, oracleText: string) => ({
+  name,
+  manaCost: null,
+  typeLine,
+  oracleText,
+  power: '1',
+  toughness: '1',
+  loyalty: null,
+});
+
+const delver: CardData = {
+  oracleId: 'delver',
+  name: 'Delver of Secrets // Insectile Aberration',
+  manaCost: '{U}',
+  cmc: 1,
+  typeLine: 'Creature — Human Wizard // Creature — Human Insect',
+  oracleText: null,
+  colors: ['U'],
+  keywords: ['Flying', 'Transform'],
+  rulings: [],
+  faces: [
+    face('Delver of Secrets', 'Creature — Human Wizard', 'At the beginning of your upkeep, look at the top card of your library. You may reveal that card. If an instant or sorcery card is revealed this way, transform Delver of Secrets.'),
+    face('Insectile Aberration', 'Creature — Human Insect', 'Flying'),
+  ],
+};
+
+describe('getFaceCharacteristics', () => {
+  it('gives each face only the keywords its own text has', () => {
+    expect(getFaceCharacteristics(delver, 0).keywords).not.toContain('Flying');
+    expect(getFaceCharacteristics(delver, 1).keywords).toEqual(['Flying']);
+  });
+
+  it('reads keyword lines with parameters and reminder text, but not granted keywords', () => {
+    const card: CardData = {
+      ...delver,
+      keywords: ['Vigilance', 'Haste', 'Ward', 'Landfall'],
+      faces: [
+        face('Front', 'Creature', 'Vigilance, haste\nWard {2} (Whenever this becomes the target of a spell or ability an opponent controls, counter it unless that player pays {2}.)'),
+        face('Back', 'Enchantment', 'Creatures you control have haste.\nLandfall — Whenever a land you control enters, draw a card.'),
+      ],
+    };
+
+    expect(getFaceCharacteristics(card, 0).keywords).toEqual(['Vigilance', 'Haste', 'Ward']);
+    expect(getFaceCharacteristics(card, 1).keywords).toEqual(['Landfall']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Card lookup for deterministic rules checks
+ * Finds the resolved Oracle data for objects in a game state
+ */
+
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import {
+  getShownFaceIndex,
+  HIDDEN_FACE_DOWN_NAME,
+  type Permanent,
+  type PowerToughnessEffect,
+  type Token,
+} from '@/lib/schemas/game-state';
+import { normalizeName } from '@/lib/utils/card-names';
+
+export interface CardIndex {
+  get(ref: { name: string; oracleId?: string }): CardData | undefined;
+}
+
+/**
+ * Characteristics of the face an object currently shows
+ */
+export interface FaceCharacteristics {
+  name: string;
+  manaCost: string | null;
+  typeLine: string;
+  oracleText: string | null;
+  power: string | null;
+  toughness: string | null;
+  loyalty: string | null;
+  keywords: string[];
+}
+
+/**
+ * Index a card database by oracle ID, full name and face names
+ */
+export function buildCardIndex(cardDatabase: Record<string, CardData>): CardIndex {
+  const byName = new Map<string, CardData>();
+
+  for (const card of Object.values(cardDatabase)) {
+    byName.set(normalizeName(card.name), card);
+    for (const face of card.faces ?? []) {
+      const key = normalizeName(face.name);
+      if (!byName.has(key)) byName.set(key, card);
+    }
+  }
+
+  return {
+    get(ref) {
+      if (ref.oracleId && cardDatabase[ref.oracleId]) {
+        return cardDatabase[ref.oracleId];
+      }
+      return byName.get(normalizeName(ref.name));
+    },
+  };
+}
+
+/**
+ * Get the characteristics of one face of a card (the front face by default)
+ */
+export function getFaceCharacteristics(card: CardData, faceIndex: number = 0): FaceCharacteristics {
+  const face = card.faces?.[faceIndex];
+
+  if (!face) {
+    return {
+      name: card.name,
+      manaCost: card.manaCost,
+      typeLine: card.typeLine,
+      oracleText: card.oracleText,
+      power: card.power ?? null,
+      toughness: card.toughness ?? null,
+      loyalty: card.loyalty ?? null,
+      keywords: card.keywords,
+    };
+  }
+
+  return {
+    name: face.name,
+    manaCost: face.manaCost,
+    typeLine: face.typeLine,
+    oracleText: face.oracleText,
+    power: face.power,
+    toughness: face.toughness,
+    loyalty: face.loyalty,
+    keywords: faceKeywords(card.keywords, face.oracleText),
+  };
+}
+
+/**
+ * Scryfall lists keywords for the whole card; a face has the ones its own
+ * text starts an ability with ("Flying", "Ward {2}", "Landfall — ...")
+ */
+function faceKeywords(keywords: string[], oracleText: string | null): string[] {
+  const abilities = (oracleText ?? '')
+    .replace(/\([^)]*\)/g, '')
+    .split('\n')
+    .flatMap(line => line.split(/[,;]/))
+    .map(ability => ability.trim().toLowerCase());
+
+  return keywords.filter(keyword => {
+    const lower = keyword.toLowerCase();
+    return abilities.some(ability => ability === lower || (ability.startsWith(lower) && /^\W/.test(ability.slice(lower.length))));
+  });
+}
+
+/**
+ * Get the characteristics of a battlefield object: the face it shows, what it
+ * copies, or a nameless 2/2 when face down, with granted abilities and
+ * power/toughness effects applied (counters are not included).
+ * Tokens use their typed-in characteristics, filled in from their token card
+ * (Oracle text, keywords) when it resolved; returns null for unresolved cards.
+ */
+export function getObjectCharacteristics(
+  object: Permanent | Token,
+  index: CardIndex
+): FaceCharacteristics | null {
+  const base = getBaseCharacteristics(object, index);
+  if (!base) return null;
+
+  return {
+    ...base,
+    ...applyPowerToughnessEffects(base, object.powerToughnessEffects),
+    keywords: [...base.keywords, ...(object.grantedAbilities ?? [])],
+  };
+}
+
+function getBaseCharacteristics(object: Permanent | Token, index: CardIndex): FaceCharacteristics | null {
+  const isToken = 'type' in object && object.type === 'token';
+
+  if (!isToken && (object as Permanent).faceDown) {
+    return faceDownCharacteristics((object as Permanent).faceDown!.kind);
+  }
+
+  if (object.copyOf) {
+    const copied = index.get(object.copyOf);
+    return copied ? getFaceCharacteristics(copied, object.copyOf.faceIndex) : null;
+  }
+
+  if (isToken) {
+    const token = object as Token;
+    const card = index.get(token);
+    const tokenCard = card && hasType(card.typeLine, 'Token') ? card : undefined;
+    return {
+      name: token.name,
+      manaCost: null,
+      typeLine: token.characteristics.types.length > 0
+        ? token.characteristics.types.join(' ')
+        : tokenCard?.typeLine ?? '',
+      oracleText: tokenCard?.oracleText ?? null,
+      power: token.characteristics.power ?? tokenCard?.power ?? null,
+      toughness: token.characteristics.toughness ?? tokenCard?.toughness ?? null,
+      loyalty: null,
+      keywords: tokenCard?.keywords ?? [],
+    };
+  }
+
+  const card = index.get(object);
+  if (!card) return null;
+
+  return getFaceCharacteristics(card, getShownFaceIndex(object as Permanent));
+}
+
+/**
+ * A face-down permanent is a 2/2 creature with no name, text or types (CR 708.2);
+ * disguised and cloaked ones also have ward {2}
+ */
+function faceDownCharacteristics(kind: string): FaceCharacteristics {
+  const ward = kind === 'disguise' || kind === 'cloak';
+  return {
+    name: HIDDEN_FACE_DOWN_NAME,
+    manaCost: null,
+    typeLine: 'Creature',
+    oracleText: ward ? 'Ward {2}' : null,
+    power: '2',
+    toughness: '2',
+    loyalty: null,
+    keywords: ward ? ['Ward'] : [],
+  };
+}
+
+/**
+ * Apply "set base P/T" effects, then "+N/+N" modifications, to printed values.
+ * A characteristic-defining "*" stays unknown unless an effect sets it.
+ */
+export function applyPowerToughnessEffects(
+  characteristics: Pick<FaceCharacteristics, 'power' | 'toughness'>,
+  effects: PowerToughnessEffect[] = []
+): { power: string | null; toughness: string | null } {
+  let power = characteristics.power;
+  let toughness = characteristics.toughness;
+
+  for (const effect of effects.filter(e => e.mode === 'set')) {
+    power = String(effect.power);
+    toughness = String(effect.toughness);
+  }
+
+  for (const effect of effects.filter(e => e.mode === 'modify')) {
+    const basePower = parseStat(power);
+    const baseToughness = parseStat(toughness);
+    power = basePower === null ? power : String(basePower + effect.power);
+    toughness = baseToughness === null ? toughness : String(baseToughness + effect.toughness);
+  }
+
+  return { power, toughness };
+}
+
+/**
+ * Check whether a type line contains a card type or subtype (case-insensitive, whole word)
+ */
+export function hasType(typeLine: string, type: string): boolean {
+  return new RegExp(`\\b${type}\\b`, 'i').test(typeLine);
+}
+
+/**
+ * Check whether an object has a keyword ability
+ */
+export function hasKeyword(characteristics: FaceCharacteristics, keyword: string): boolean {
+  const lower = keyword.toLowerCase();
+  return characteristics.keywords.some(k => k.toLowerCase() === lower);
+}
+
+/**
+ * Sum power/toughness modifications from counters like +1/+1, -1/-1 or +1/+0
+ */
+export function counterModifiers(counters: Record<string, number> | undefined): { power: number; toughness: number } {
+  let power = 0;
+  let toughness = 0;
+
+  for (const [kind, amount] of Object.entries(counters ?? {})) {
+    const match = kind.match(/^([+-]\d+)\/([+-]\d+)$/);
+    if (!match) continue;
+    power += parseInt(match[1], 10) * amount;
+    toughness += parseInt(match[2], 10) * amount;
+  }
+
+  return { power, toughness };
+}
+
+/**
+ * Parse a printed power/toughness value; null for characteristic-defining values like "*"
+ */
+export function parseStat(value: string | null): number | null {
+  if (value === null || !/^-?\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import type { LegalAction, RankedLine } from '@/lib/llm/schemas';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
+import { attachCombatOutcomes, checkCombatOutcomes, simulateCombat } from './combat';
+
+function creature(name: string, power: string, toughness: string, keywords: string[] = []): CardData {
+  return {
+    oracleId: name,
+    name,
+    manaCost: null,
+    cmc: 0,
+    typeLine: 'Creature',
+    oracleText: keywords.join(', '),
+    colors: [],
+    keywords,
+    rulings: [],
+    power,
+    toughness,
+  };
+}
+
+const cardDatabase: Record<string, CardData> = Object.fromEntries([
+  creature('Grizzly Bears', '2', '2'),
+  creature('Hill Giant', '3', '3'),
+  creature('Chump', '1', '1'),
+  creature('Striker', '3', '3', ['Double strike', 'Trample']),
+  creature('Assassin', '5', '5', ['Deathtouch', 'Trample']),
+  creature('Duelist', '2', '2', ['First strike']),
+  creature('Brute', '2', '1', ['Menace']),
+  creature('Blightling', '2', '2', ['Infect']),
+  creature('Witherer', '2', '2', ['Wither']),
+  creature('Darksteel Wall', '0', '2', ['Indestructible']),
+  creature('Vampire', '3', '3', ['Lifelink']),
+  {
+    ...creature('Jace', '', ''),
+    typeLine: 'Legendary Planeswalker — Jace',
+    power: null,
+    toughness: null,
+    loyalty: '3',
+  },
+].map(data => [data.oracleId, data]));
+
+function state(
+  you: Record<string, unknown>[],
+  opponent: Record<string, unknown>[] = [],
+  overrides: Record<string, unknown> = {}
+): GameState {
+  const battlefield = (objects: Record<string, unknown>[]) =>
+    objects.map(object => ({ tapped: false, summoningSick: false, ...object }));
+
+  return GameStateSchema.parse({
+    turn: 5,
+    phase: 'declare_blockers',
+    priority: 'you',
+    activePlayer: 'you',
+    life: { you: 20, opponent: 20 },
+    you: { battlefield: battlefield(you), hand: [], graveyard: [], exile: [] },
+    opponent: { battlefield: battlefield(opponent), hand: { count: 7 }, graveyard: [], exile: [] },
+    ...overrides,
+  });
+}
+
+describe('simulateCombat', () => {
+  it('tramples over a chump blocker in both double strike steps', () => {
+    const outcome = simulateCombat(
+      state([{ name: 'Striker', id: 'striker', attacking: true }], [{ name: 'Chump', blocking: 'striker' }]),
+      cardDatabase
+    );
+
+    expect(outcome.damage).toEqual([
+      { source: 'Striker', target: 'Chump', amount: 1, step: 'first_strike' },
+      { source: 'Striker', target: 'opponent', amount: 2, step: 'first_strike' },
+      { source: 'Striker', target: 'opponent', amount: 3, step: 'regular' },
+    ]);
+    expect(outcome.deaths).toEqual(['Chump']);
+    expect(outcome.lifeAfter).toEqual({ opponent: 15 });
+  });
+
+  it('assigns one deathtouch damage to each blocker and tramples over the rest', () => {
+    const outcome = simulateCombat(
+      state(
+        [{ name: 'Assassin', id: 'assassin', attacking: true }],
+        [{ name: 'Hill Giant', id: 'g1', blocking: 'assassin' }, { name: 'Hill Giant', id: 'g2', blocking: 'assassin' }]
+      ),
+      cardDatabase
+    );
+
+    expect(outcome.damage.filter(d => d.source === 'Assassin')).toEqual([
+      { source: 'Assassin', target: 'Hill Giant [g1]', amount: 1, step: 'regular' },
+      { source: 'Assassin', target: 'Hill Giant [g2]', amount: 1, step: 'regular' },
+      { source: 'Assassin', target: 'opponent', amount: 3, step: 'regular' },
+    ]);
+    expect(outcome.deaths).toEqual(['Assassin', 'Hill Giant [g1]', 'Hill Giant [g2]']);
+  });
+
+  it('lets a first striker kill its blocker before it deals damage', () => {
+    const outcome = simulateCombat(
+      state([{ name: 'Duelist', id: 'duelist', attacking: true }], [{ name: 'Grizzly Bears', blocking: 'duelist' }]),
+      cardDatabase
+    );
+
+    expect(outcome.damage).toEqual([{ source: 'Duelist', target: 'Grizzly Bears', amount: 2, step: 'first_strike' }]);
+    expect(outcome.deaths).toEqual(['Grizzly Bears']);
+  });
+
+  it('treats a menace creature blocked by one creature as unblocked', () => {
+    const outcome = simulateCombat(
+      state([{ name: 'Brute', id: 'brute', attacking: true }], [{ name: 'Grizzly Bears', blocking: 'brute' }]),
+      cardDatabase
+    );
+
+    expect(outcome.damage).toEqual([{ source: 'Brute', target: 'opponent', amount: 2, step: 'regular' }]);
+    expect(outcome.deaths).toEqual([]);
+    expect(outcome.notes).toEqual([expect.stringContaining('has menace')]);
+  });
+
+  it('gives poison counters instead of life loss for infect damage to a player', () => {
+    const outcome = simulateCombat(
+      state([{ name: 'Blightling', attacking: true }], [], { playerCounters: { opponent: { poison: 8 } } }),
+      cardDatabase
+    );
+
+    expect(outcome.lifeChanges).toEqual({});
+    expect(outcome.poisonAfter).toEqual({ opponent: 10 });
+    expect(outcome.notes).toEqual([expect.stringContaining('10 poison counters')]);
+  });
+
+  it('deals wither damage to creatures as -1/-1 counters, which indestructible does not stop', () => {
+    const outcome = simulateCombat(
+      state([{ name: 'Witherer', id: 'witherer', attacking: true }], [{ name: 'Darksteel Wall', blocking: 'witherer' }]),
+      cardDatabase
+    );
+
+    expect(outcome.deaths).toEqual(['Darksteel Wall']);
+  });
+
+  it('gains life for lifelink damage', () => {
+    const outcome = simulateCombat(state([{ name: 'Vampire', attacking: true }]), cardDatabase);
+
+    expect(outcome.lifeChanges).toEqual({ opponent: -3, you: 3 });
+    expect(outcome.lifeAfter).toEqual({ opponent: 17, you: 23 });
+  });
+
+  it.each([
+    [4, []],
+    [3, ['Jace']],
+  ])('removes loyalty from an attacked planeswalker with %i loyalty', (loyalty, deaths) => {
+    const outcome = simulateCombat(
+      state(
+        [{ name: 'Hill Giant', attacking: true, attackingTarget: 'jace' }],
+        [{ name: 'Jace', id: 'jace', counters: { loyalty } }]
+      ),
+      cardDatabase
+    );
+
+    expect(outcome.damage).toEqual([{ source: 'Hill Giant', target: 'Jace', amount: 3, step: 'regular' }]);
+    expect(outcome.lifeChanges).toEqual({});
+    expect(outcome.deaths).toEqual(deaths);
+  });
+});
+
+describe('checkCombatOutcomes', () => {
+  const board = state([{ name: 'Hill Giant', id: 'giant' }, { name: 'Grizzly Bears', id: 'bears' }]);
+
+  const attack = (id: string, card: string): LegalAction => ({
+    id,
+    type: 'attack',
+    card,
+    targets: ['opponent'],
+    description: `Attack with ${card}`,
+    restrictions: [],
+    triggers: [],
+  });
+
+  const line = (actionId: string, opponentLife: number): RankedLine => ({
+    actionId,
+    rank: 1,
+    score: 0.5,
+    reasoning: '',
+    expectedOutcome: { opponentLife, boardAdvantage: '', cardAdvantage: '' },
+    risks: [],
+    confidence: 'medium',
+  });
+
+  const actions = attachCombatOutcomes(
+    [attack('a1', 'giant'), attack('a2', 'bears'), { ...attack('a3', 'giant'), type: 'pass_priority' }],
+    board,
+    cardDatabase
+  );
+
+  it('attaches a simulated outcome to attack actions only', () => {
+    expect(actions[0].combatOutcome?.lifeAfter).toEqual({ opponent: 17 });
+    expect(actions[1].combatOutcome?.lifeAfter).toEqual({ opponent: 18 });
+    expect(actions[2].combatOutcome).toBeUndefined();
+  });
+
+  it('flags an expected outcome the simulator disagrees with', () => {
+    const checks = checkCombatOutcomes(actions, [line('a1', 17), line('a2', 17)], board);
+
+    expect(checks.map(check => [check.actionId, check.agrees])).toEqual([['a1', true], ['a2', false]]);
+    expect(checks[1]).toMatchObject({
+      simulated: { selfLife: 20, opponentLife: 18 },
+      expected: { opponentLife: 17 },
+      mismatches: ['Expected opponent at 17 life, combat leaves them at 18'],
+    });
+  });
+});
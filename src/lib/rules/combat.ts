@@ -0,0 +1,534 @@
+/**
+ * Deterministic combat damage simulator (CR 506-511)
+ * Works out damage assignment, deaths, life changes and combat triggers from
+ * the attacking/blocking fields of a game state and the resolved keywords,
+ * so combat math doesn't rest on LLM arithmetic
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import type { LegalAction, RankedLine } from '@/lib/llm/schemas';
+import {
+  getOpponents,
+  getPerspective,
+  getPlayer,
+  getPlayers,
+  type GameState,
+  type Permanent,
+  type PlayerId,
+  type Token,
+} from '@/lib/schemas/game-state';
+import {
+  buildCardIndex,
+  counterModifiers,
+  getObjectCharacteristics,
+  hasKeyword,
+  hasType,
+  parseStat,
+  type CardIndex,
+  type FaceCharacteristics,
+} from './card-lookup';
+import { POISON_LIMIT } from './state-based-actions';
+
+// ============ Schemas ============
+
+export const CombatDamageSchema = z.object({
+  source: z.string(),
+  target: z.string(), // Creature, planeswalker or player ID
+  amount: z.number().int().min(0),
+  step: z.enum(['first_strike', 'regular']),
+});
+
+export type CombatDamage = z.infer<typeof CombatDamageSchema>;
+
+export const CombatOutcomeSchema = z.object({
+  damage: z.array(CombatDamageSchema),
+  deaths: z.array(z.string()), // Creatures and planeswalkers destroyed by combat damage
+  lifeChanges: z.record(z.string(), z.number()), // Player ID -> net change, lifelink included
+  lifeAfter: z.record(z.string(), z.number()), // Player ID -> life total after combat
+  poisonAfter: z.record(z.string(), z.number()).optional(), // Player ID -> poison counters, for players given any
+  triggers: z.array(z.string()), // Combat damage and dies triggers from Oracle text
+  notes: z.array(z.string()), // Illegal blocks, unknown stats, players who would lose
+});
+
+export type CombatOutcome = z.infer<typeof CombatOutcomeSchema>;
+
+// ============ Combatants ============
+
+type CombatStep = CombatDamage['step'];
+
+interface Combatant {
+  object: Permanent | Token;
+  label: string;
+  controller: PlayerId;
+  characteristics: FaceCharacteristics | null;
+  power: number;
+  toughness: number;
+  loyalty: number | null; // Planeswalkers being attacked
+  damage: number;
+  minusCounters: number; // -1/-1 counters from infect and wither damage
+  deathtouched: boolean;
+  removed: boolean;
+}
+
+interface Attack {
+  attacker: Combatant;
+  defender: { player: PlayerId } | { planeswalker: Combatant };
+  blockers: Combatant[];
+  blocked: boolean; // Stays true even if every blocker is removed
+}
+
+/**
+ * Collect every battlefield object (phased-out ones don't exist)
+ */
+function collectObjects(state: GameState, index: CardIndex): Combatant[] {
+  const combatants: Combatant[] = [];
+
+  for (const player of getPlayers(state)) {
+    for (const object of player.zones.battlefield) {
+      if (object.phasedOut) continue;
+
+      const characteristics = getObjectCharacteristics(object, index);
+      const modifiers = counterModifiers(object.counters);
+      combatants.push({
+        object,
+        label: object.name,
+        controller: object.controller ?? player.id,
+        characteristics,
+        power: (parseStat(characteristics?.power ?? null) ?? 0) + modifiers.power,
+        toughness: (parseStat(characteristics?.toughness ?? null) ?? 0) + modifiers.toughness,
+        loyalty: characteristics && hasType(characteristics.typeLine, 'Planeswalker')
+          ? object.counters?.loyalty ?? parseStat(characteristics.loyalty)
+          : null,
+        damage: object.damage ?? 0,
+        minusCounters: 0,
+        deathtouched: false,
+        removed: false,
+      });
+    }
+  }
+
+  // Tell apart objects that share a name
+  const counts = new Map<string, number>();
+  combatants.forEach(c => counts.set(c.label, (counts.get(c.label) ?? 0) + 1));
+  combatants.forEach((c, i) => {
+    if ((counts.get(c.label) ?? 0) > 1) c.label = `${c.object.name} [${c.object.id ?? `#${i + 1}`}]`;
+  });
+
+  return combatants;
+}
+
+/**
+ * Find an object by ID, falling back to its name
+ */
+function findObject(combatants: Combatant[], ref: string): Combatant | undefined {
+  return combatants.find(c => c.object.id === ref) ?? combatants.find(c => c.object.name === ref);
+}
+
+function keyword(combatant: Combatant, name: string): boolean {
+  return combatant.characteristics !== null && hasKeyword(combatant.characteristics, name);
+}
+
+/**
+ * Total toxic value (CR 702.164), e.g. 2 for "Toxic 2"
+ */
+function toxic(combatant: Combatant): number {
+  if (!keyword(combatant, 'Toxic')) return 0;
+  return oracleLines(combatant)
+    .flatMap(line => [...line.matchAll(/\btoxic (\d+)/gi)])
+    .reduce((sum, match) => sum + parseInt(match[1], 10), 0);
+}
+
+/**
+ * Pair every attacker with its defender and blockers, noting illegal blocks
+ */
+function buildAttacks(state: GameState, combatants: Combatant[], notes: string[]): Attack[] {
+  const playerIds = new Set(getPlayers(state).map(player => player.id));
+  const attacks: Attack[] = [];
+
+  for (const attacker of combatants.filter(c => c.object.attacking)) {
+    const target = attacker.object.attackingTarget;
+    let defender: Attack['defender'];
+
+    if (target && playerIds.has(target)) {
+      defender = { player: target };
+    } else if (target && findObject(combatants, target)?.loyalty != null) {
+      defender = { planeswalker: findObject(combatants, target)! };
+    } else {
+      const opponent = getOpponents(state, attacker.controller).find(player => !player.eliminated);
+      defender = { player: opponent?.id ?? 'opponent' };
+      if (target) notes.push(`${attacker.label} attacks unknown "${target}"; assumed to attack ${defender.player}`);
+    }
+
+    // Blocks can be recorded on either side
+    const blockerRefs = new Set(attacker.object.blockedBy ?? []);
+    let blockers = combatants.filter(c =>
+      c !== attacker
+      && (blockerRefs.has(c.object.id ?? '') || blockerRefs.has(c.object.name)
+        || (c.object.blocking !== undefined && findObject(combatants, c.object.blocking) === attacker))
+    );
+
+    for (const blocker of blockers) {
+      if (keyword(attacker, 'Flying') && !keyword(blocker, 'Flying') && !keyword(blocker, 'Reach')) {
+        notes.push(`Illegal block: ${blocker.label} can't block ${attacker.label} (flying)`);
+      }
+    }
+
+    if (blockers.length === 1 && keyword(attacker, 'Menace')) {
+      notes.push(`Illegal block: ${attacker.label} has menace and can't be blocked by one creature; treated as unblocked`);
+      blockers = [];
+    }
+
+    attacks.push({ attacker, defender, blockers, blocked: blockers.length > 0 });
+  }
+
+  return attacks;
+}
+
+// ============ Simulation ============
+
+/**
+ * Simulate combat damage for the attacks and blocks declared in a state
+ */
+export function simulateCombat(state: GameState, cardDatabase: Record<string, CardData>): CombatOutcome {
+  const index = buildCardIndex(cardDatabase);
+  const combatants = collectObjects(state, index);
+  const notes: string[] = [];
+  const attacks = buildAttacks(state, combatants, notes);
+
+  const damage: CombatDamage[] = [];
+  const triggers: string[] = [];
+  const lifeChanges: Record<string, number> = {};
+  const poisonChanges: Record<string, number> = {};
+  const deaths: string[] = [];
+
+  for (const attack of attacks) {
+    for (const c of [attack.attacker, ...attack.blockers]) {
+      if (!c.characteristics) notes.push(`${c.label} is not resolved; its power and toughness are unknown`);
+      else if (parseStat(c.characteristics.power) === null) {
+        notes.push(`${c.label} has power ${c.characteristics.power}; treated as ${c.power}`);
+      }
+    }
+  }
+
+  const firstStrikers = attacks.some(attack =>
+    [attack.attacker, ...attack.blockers].some(c => keyword(c, 'First strike') || keyword(c, 'Double strike'))
+  );
+  const steps: CombatStep[] = firstStrikers ? ['first_strike', 'regular'] : ['regular'];
+
+  const involved = new Set(attacks.flatMap(attack => [
+    attack.attacker,
+    ...attack.blockers,
+    ...('planeswalker' in attack.defender ? [attack.defender.planeswalker] : []),
+  ]));
+
+  for (const step of steps) {
+    const dealsDamage = (c: Combatant) => {
+      if (c.removed || c.power <= 0) return false;
+      if (step === 'regular' && !firstStrikers) return true;
+      const first = keyword(c, 'First strike') || keyword(c, 'Double strike');
+      return step === 'first_strike' ? first : !keyword(c, 'First strike') || keyword(c, 'Double strike');
+    };
+
+    // All combat damage in a step is dealt at once (CR 510.2)
+    const assigned: Array<{ source: Combatant; target: Combatant | PlayerId; amount: number }> = [];
+
+    for (const attack of attacks) {
+      const { attacker } = attack;
+      const blockers = attack.blockers.filter(b => !b.removed);
+
+      if (dealsDamage(attacker)) {
+        assigned.push(...assignAttackerDamage(attack, blockers));
+      }
+
+      for (const blocker of blockers) {
+        if (dealsDamage(blocker) && !attacker.removed) {
+          assigned.push({ source: blocker, target: attacker, amount: blocker.power });
+        }
+      }
+    }
+
+    const dealtToPlayer = new Set<Combatant>();
+    for (const { source, target, amount } of assigned) {
+      if (amount <= 0) continue;
+
+      if (typeof target === 'string') {
+        // Infect damage to a player is poison counters instead of life loss (CR 702.90b)
+        if (keyword(source, 'Infect')) {
+          poisonChanges[target] = (poisonChanges[target] ?? 0) + amount;
+        } else {
+          lifeChanges[target] = (lifeChanges[target] ?? 0) - amount;
+        }
+        if (toxic(source) > 0) poisonChanges[target] = (poisonChanges[target] ?? 0) + toxic(source);
+        dealtToPlayer.add(source);
+        triggers.push(...designationTriggers(state, source, target));
+      } else if (target.loyalty !== null && !target.object.blocking) {
+        target.loyalty -= amount;
+      } else if (keyword(source, 'Infect') || keyword(source, 'Wither')) {
+        // Damage to creatures as -1/-1 counters (CR 702.80a)
+        target.minusCounters += amount;
+        if (keyword(source, 'Deathtouch')) target.deathtouched = true;
+      } else {
+        target.damage += amount;
+        if (keyword(source, 'Deathtouch')) target.deathtouched = true;
+      }
+
+      damage.push({ source: source.label, target: typeof target === 'string' ? target : target.label, amount, step });
+
+      if (keyword(source, 'Lifelink')) {
+        lifeChanges[source.controller] = (lifeChanges[source.controller] ?? 0) + amount;
+      }
+    }
+
+    const sources = new Set(assigned.filter(a => a.amount > 0).map(a => a.source));
+    for (const source of sources) {
+      triggers.push(...combatDamageTriggers(source, dealtToPlayer.has(source)));
+    }
+
+    // Destroy what took lethal damage before the next step (CR 704.5g, 704.5h)
+    for (const c of involved) {
+      if (c.removed) continue;
+      const isCreature = c.characteristics !== null && hasType(c.characteristics.typeLine, 'Creature');
+      const toughness = c.toughness - c.minusCounters;
+      const lethal = isCreature && (
+        toughness <= 0
+        || (!keyword(c, 'Indestructible') && (c.damage >= toughness || c.deathtouched))
+      );
+      const noLoyalty = c.loyalty !== null && c.loyalty <= 0;
+
+      if (lethal || noLoyalty) {
+        c.removed = true;
+        deaths.push(c.label);
+        triggers.push(...diesTriggers(c));
+      }
+    }
+  }
+
+  const lifeAfter: Record<string, number> = {};
+  for (const [player, change] of Object.entries(lifeChanges)) {
+    const life = (getPlayer(state, player)?.life ?? 0) + change;
+    lifeAfter[player] = life;
+    if (life <= 0) notes.push(`Player "${player}" would be at ${life} life and lose the game`);
+  }
+
+  const poisonAfter: Record<string, number> = {};
+  for (const [player, change] of Object.entries(poisonChanges)) {
+    const poison = (getPlayer(state, player)?.counters.poison ?? 0) + change;
+    poisonAfter[player] = poison;
+    if (poison >= POISON_LIMIT) notes.push(`Player "${player}" would have ${poison} poison counters and lose the game`);
+  }
+
+  return {
+    damage,
+    deaths,
+    lifeChanges,
+    lifeAfter,
+    poisonAfter: Object.keys(poisonAfter).length > 0 ? poisonAfter : undefined,
+    triggers,
+    notes,
+  };
+}
+
+/**
+ * Divide an attacker's damage: lethal damage to each blocker in order, the
+ * rest to the last blocker, or to the player or planeswalker with trample
+ */
+function assignAttackerDamage(
+  attack: Attack,
+  blockers: Combatant[]
+): Array<{ source: Combatant; target: Combatant | PlayerId; amount: number }> {
+  const { attacker, defender } = attack;
+  const defenderTarget = 'player' in defender ? defender.player : defender.planeswalker;
+  const trample = keyword(attacker, 'Trample');
+
+  if (!attack.blocked) {
+    return [{ source: attacker, target: defenderTarget, amount: attacker.power }];
+  }
+  if (blockers.length === 0) {
+    // Blocked, but every blocker is gone: only trample gets through (CR 702.19e)
+    return trample ? [{ source: attacker, target: defenderTarget, amount: attacker.power }] : [];
+  }
+
+  const deathtouch = keyword(attacker, 'Deathtouch');
+  const assignments: Array<{ source: Combatant; target: Combatant | PlayerId; amount: number }> = [];
+  let remaining = attacker.power;
+
+  for (const blocker of blockers) {
+    const lethal = deathtouch ? 1 : Math.max(0, blocker.toughness - blocker.damage);
+    const amount = Math.min(remaining, lethal);
+    assignments.push({ source: attacker, target: blocker, amount });
+    remaining -= amount;
+  }
+
+  if (remaining > 0) {
+    if (trample) {
+      assignments.push({ source: attacker, target: defenderTarget, amount: remaining });
+    } else {
+      assignments[assignments.length - 1].amount += remaining;
+    }
+  }
+
+  return assignments;
+}
+
+function oracleLines(c: Combatant): string[] {
+  return (c.characteristics?.oracleText ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function refersToSelf(line: string, c: Combatant): boolean {
+  const name = c.characteristics?.name ?? c.object.name;
+  const lower = line.toLowerCase();
+  return lower.includes(name.toLowerCase()) || /\bthis (creature|permanent)\b/.test(lower);
+}
+
+function combatDamageTriggers(source: Combatant, toPlayer: boolean): string[] {
+  return oracleLines(source)
+    .filter(line => /^whenever\b/i.test(line) && refersToSelf(line, source))
+    .filter(line =>
+      /deals combat damage to (a player|an opponent|one or more players)/i.test(line)
+        ? toPlayer
+        : /deals combat damage\b/i.test(line)
+    )
+    .map(line => `${source.label}: ${line}`);
+}
+
+/**
+ * Combat damage to the monarch or the player with the initiative passes it on (CR 724.2, 725.2)
+ */
+function designationTriggers(state: GameState, source: Combatant, player: PlayerId): string[] {
+  const designations = getPlayer(state, player)?.designations ?? {};
+  const triggers: string[] = [];
+  if (designations.monarch) {
+    triggers.push(`${source.label}: dealt combat damage to the monarch; "${source.controller}" becomes the monarch`);
+  }
+  if (designations.initiative) {
+    triggers.push(`${source.label}: dealt combat damage to the player with the initiative; "${source.controller}" takes the initiative`);
+  }
+  return triggers;
+}
+
+function diesTriggers(c: Combatant): string[] {
+  return oracleLines(c)
+    .filter(line => /^when(ever)?\b.*\bdies\b/i.test(line) && refersToSelf(line, c))
+    .map(line => `${c.label}: ${line}`);
+}
+
+// ============ Legal Actions ============
+
+/**
+ * Apply an attack or block action to a copy of the state: the action's card
+ * attacks its first target, or blocks the attacker named in its first target.
+ * Returns null when the objects can't be found.
+ */
+export function applyCombatAction(state: GameState, action: LegalAction): GameState | null {
+  if (!action.card || (action.type !== 'attack' && action.type !== 'block')) return null;
+
+  const next = structuredClone(state);
+  const objects = getPlayers(next).flatMap(player =>
+    player.zones.battlefield.map(object => ({ object, controller: object.controller ?? player.id }))
+  );
+  const byRef = (ref: string) =>
+    objects.find(entry => entry.object.id === ref) ?? objects.find(entry => entry.object.name === ref);
+  const [target] = action.targets ?? [];
+
+  if (action.type === 'attack') {
+    const attacker = objects.find(entry =>
+      entry.controller === next.activePlayer
+      && !entry.object.attacking
+      && (entry.object.id === action.card || entry.object.name === action.card)
+    ) ?? byRef(action.card);
+    if (!attacker) return null;
+
+    attacker.object.attacking = true;
+    if (target) attacker.object.attackingTarget = target;
+    return next;
+  }
+
+  const blocker = objects.find(entry =>
+    entry.controller !== next.activePlayer
+    && !entry.object.blocking
+    && (entry.object.id === action.card || entry.object.name === action.card)
+  ) ?? byRef(action.card);
+  const attacker = target ? byRef(target) : objects.find(entry => entry.object.attacking);
+  if (!blocker || !attacker) return null;
+
+  blocker.object.blocking = attacker.object.id ?? attacker.object.name;
+  return next;
+}
+
+/**
+ * Attach the simulated combat outcome to every attack and block action
+ */
+export function attachCombatOutcomes(
+  legalActions: LegalAction[],
+  state: GameState,
+  cardDatabase: Record<string, CardData>
+): LegalAction[] {
+  return legalActions.map(action => {
+    const applied = applyCombatAction(state, action);
+    return applied ? { ...action, combatOutcome: simulateCombat(applied, cardDatabase) } : action;
+  });
+}
+
+// ============ Strategist Checks ============
+
+export interface CombatCheck {
+  actionId: string;
+  card?: string;
+  simulated: { selfLife?: number; opponentLife?: number };
+  expected: { selfLife?: number; opponentLife?: number };
+  agrees: boolean;
+  mismatches: string[];
+}
+
+/**
+ * Compare the Strategist's expected life totals for combat lines with the simulator
+ */
+export function checkCombatOutcomes(
+  legalActions: LegalAction[],
+  rankedLines: RankedLine[],
+  state: GameState
+): CombatCheck[] {
+  const perspective = getPerspective(state);
+  const checks: CombatCheck[] = [];
+
+  for (const line of rankedLines) {
+    const action = legalActions.find(a => a.id === line.actionId);
+    const outcome = action?.combatOutcome;
+    if (!action || !outcome) continue;
+
+    // The opponent whose life changes most; otherwise the first one
+    const opponents = getOpponents(state, perspective);
+    const opponent = [...opponents].sort(
+      (a, b) => (outcome.lifeChanges[a.id] ?? 0) - (outcome.lifeChanges[b.id] ?? 0)
+    )[0];
+
+    const simulated = {
+      selfLife: outcome.lifeAfter[perspective] ?? getPlayer(state, perspective)?.life,
+      opponentLife: opponent ? outcome.lifeAfter[opponent.id] ?? opponent.life : undefined,
+    };
+    const expected = {
+      selfLife: line.expectedOutcome.selfLife,
+      opponentLife: line.expectedOutcome.opponentLife,
+    };
+
+    const mismatches: string[] = [];
+    if (expected.selfLife !== undefined && expected.selfLife !== simulated.selfLife) {
+      mismatches.push(`Expected your life to be ${expected.selfLife}, combat leaves it at ${simulated.selfLife}`);
+    }
+    if (expected.opponentLife !== undefined && expected.opponentLife !== simulated.opponentLife) {
+      mismatches.push(`Expected ${opponent?.id ?? 'opponent'} at ${expected.opponentLife} life, combat leaves them at ${simulated.opponentLife}`);
+    }
+
+    checks.push({
+      actionId: action.id,
+      card: action.card,
+      simulated,
+      expected,
+      agrees: mismatches.length === 0,
+      mismatches,
+    });
+  }
+
+  return checks;
+}
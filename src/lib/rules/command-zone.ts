@@ -0,0 +1,168 @@
+/**
+ * Command zone objects as ongoing effects
+ * Resolves emblems, dungeons, planes and schemes to their text - from their
+ * own card data, the planeswalker that made an emblem, or the text given in
+ * the state - and works out where a dungeon's venture marker can go next.
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import {
+  emblemCardName,
+  getPlayers,
+  isCommandObject,
+  type CommandObject,
+  type GameState,
+} from '@/lib/schemas/game-state';
+import { normalizeName } from '@/lib/utils/card-names';
+import { buildCardIndex, type CardIndex } from './card-lookup';
+
+// ============ Schemas ============
+
+export const DungeonRoomSchema = z.object({
+  name: z.string(),
+  effect: z.string(),
+  next: z.array(z.string()), // Rooms the marker can move to; empty for the last room
+});
+
+export type DungeonRoom = z.infer<typeof DungeonRoomSchema>;
+
+export const CommandEffectSchema = z.object({
+  player: z.string(), // Owner
+  type: z.enum(['emblem', 'dungeon', 'plane', 'scheme']),
+  name: z.string(),
+  id: z.string().optional(),
+  text: z.string().nullable(), // Ongoing text; null when nothing resolved
+  textFrom: z.enum(['card', 'source', 'state']).optional(), // Own card, creating planeswalker, or the state
+  room: DungeonRoomSchema.optional(), // Dungeons: the room the venture marker is on
+  nextRooms: z.array(DungeonRoomSchema).optional(), // Dungeons: where the next venture can go
+  ongoing: z.boolean().optional(), // Schemes
+  notes: z.array(z.string()).optional(),
+});
+
+export type CommandEffect = z.infer<typeof CommandEffectSchema>;
+
+// ============ Text Extraction ============
+
+/**
+ * Split a dungeon's Oracle text into rooms:
+ * "Cave Entrance — Scry 1. (→ Goblin Lair or Mine Tunnels)"
+ */
+export function parseDungeonRooms(oracleText: string): DungeonRoom[] {
+  const rooms: DungeonRoom[] = [];
+
+  for (const line of oracleText.split('\n')) {
+    const match = line.match(/^(.+?) — (.+?)(?:\s*\(→ (.+)\))?$/);
+    if (!match) continue; // e.g. "You can't enter this dungeon unless you take the initiative."
+    rooms.push({
+      name: match[1].trim(),
+      effect: match[2].trim(),
+      next: match[3] ? match[3].split(/\s+or\s+/).map(room => room.trim()) : [],
+    });
+  }
+
+  return rooms;
+}
+
+/**
+ * The emblem text a planeswalker's ability creates: −6: You get an emblem with "..."
+ */
+export function extractEmblemText(oracleText: string): string | null {
+  const texts = oracleText
+    .split('\n')
+    .map(line => line.match(/you get an emblem with "(.+)"/i)?.[1])
+    .filter((text): text is string => text !== undefined);
+
+  return texts.length > 0 ? texts.join('\n') : null;
+}
+
+// ============ Command Effects ============
+
+/**
+ * Every emblem, dungeon, plane and scheme in the command zones, with its text
+ */
+export function describeCommandZone(state: GameState, cardDatabase: Record<string, CardData>): CommandEffect[] {
+  const index = buildCardIndex(cardDatabase);
+  const effects: CommandEffect[] = [];
+
+  for (const player of getPlayers(state)) {
+    for (const entry of player.zones.commandZone ?? []) {
+      if (isCommandObject(entry)) effects.push(describeCommandObject(entry, player.id, index));
+    }
+  }
+
+  return effects;
+}
+
+function describeCommandObject(object: CommandObject, player: string, index: CardIndex): CommandEffect {
+  const notes: string[] = [];
+  const effect: CommandEffect = {
+    player,
+    type: object.type,
+    name: object.name,
+    id: object.id,
+    text: null,
+  };
+
+  const lookupName = object.type === 'emblem' ? emblemCardName(object) : object.name;
+  const card = index.get({ name: lookupName, oracleId: object.oracleId });
+
+  if (card?.oracleText) {
+    effect.text = card.oracleText;
+    effect.textFrom = 'card';
+  } else if (object.type === 'emblem' && object.source) {
+    const source = index.get({ name: object.source });
+    const text = source?.oracleText ? extractEmblemText(source.oracleText) : null;
+    if (text) {
+      effect.text = text;
+      effect.textFrom = 'source';
+    }
+  }
+
+  if (object.text) {
+    if (effect.text && normalizeName(effect.text) !== normalizeName(object.text)) {
+      notes.push('The text given in the state differs from the card data; the state\'s text is used');
+    }
+    effect.text = object.text;
+    effect.textFrom = 'state';
+  }
+
+  if (!effect.text) notes.push(`"${lookupName}" did not resolve and has no text; its effect is unknown`);
+
+  if (object.type === 'dungeon') {
+    const rooms = effect.text ? parseDungeonRooms(effect.text) : [];
+    if (object.room) {
+      const room = rooms.find(r => normalizeName(r.name) === normalizeName(object.room!));
+      if (room) {
+        effect.room = room;
+        effect.nextRooms = rooms.filter(r => room.next.some(next => normalizeName(next) === normalizeName(r.name)));
+        if (room.next.length === 0) notes.push('The venture marker is on the last room; the dungeon is completed as it leaves');
+      } else {
+        notes.push(`Room "${object.room}" is not one of ${object.name}'s rooms`);
+      }
+    } else if (rooms.length > 0) {
+      // Not yet entered: the next venture enters the first room
+      effect.nextRooms = [rooms[0]];
+    }
+  }
+
+  if (object.type === 'scheme') effect.ongoing = object.ongoing ?? false;
+  if (notes.length > 0) effect.notes = notes;
+
+  return effect;
+}
+
+/**
+ * One line per command effect for prompts
+ */
+export function describeCommandEffect(effect: CommandEffect): string {
+  const parts = [`${effect.player}'s ${effect.type === 'scheme' && effect.ongoing ? 'ongoing scheme' : effect.type} ${effect.name}`];
+  if (effect.room) parts.push(`venture marker on ${effect.room.name} (${effect.room.effect})`);
+  if (effect.nextRooms && effect.nextRooms.length > 0) {
+    parts.push(`next venture: ${effect.nextRooms.map(room => `${room.name} (${room.effect})`).join(' or ')}`);
+  }
+  if (effect.type !== 'dungeon' || (!effect.room && !effect.nextRooms)) {
+    parts.push(effect.text ? `"${effect.text.replace(/\n/g, ' / ')}"` : 'text unknown');
+  }
+  return parts.join(' - ');
+}
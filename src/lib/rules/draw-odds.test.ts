@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseDecklist } from './draw-odds';
+
+describe('parseDecklist', () => {
+  it('keeps cards after a blank line in the deck', () => {
+    const result = parseDecklist('4 Lightning Bolt\n4 Goblin Guide\n\n20 Mountain\n\nSideboard\n2 Pyroblast');
+
+    expect(result.decklist.cards).toEqual([
+      { name: 'Lightning Bolt', count: 4 },
+      { name: 'Goblin Guide', count: 4 },
+      { name: 'Mountain', count: 20 },
+    ]);
+    expect(result.sideboard).toEqual([{ name: 'Pyroblast' }, { name: 'Pyroblast' }]);
+  });
+
+  it('starts the sideboard at the blank line of an Arena export', () => {
+    const result = parseDecklist('4 Lightning Bolt (M11) 149\n20 Mountain (ZNR) 276\n\n2 Pyroblast (EMA) 142');
+
+    expect(result.decklist.cards).toEqual([
+      { name: 'Lightning Bolt', count: 4 },
+      { name: 'Mountain', count: 20 },
+    ]);
+    expect(result.sideboard).toEqual([{ name: 'Pyroblast' }, { name: 'Pyroblast' }]);
+  });
+
+  it('reads the companion of an Arena export with section headers', () => {
+    const result = parseDecklist([
+      'Companion',
+      '1 Lurrus of the Dream-Den (IKO) 226',
+      '',
+      'Deck',
+      '4 Lightning Bolt (M11) 149',
+      '',
+      'Sideboard',
+      '1 Lurrus of the Dream-Den (IKO) 226',
+      '1 Pyroblast (EMA) 142',
+    ].join('\n'));
+
+    expect(result.companion).toEqual({ name: 'Lurrus of the Dream-Den' });
+    expect(result.decklist.cards).toEqual([{ name: 'Lightning Bolt', count: 4 }]);
+    expect(result.sideboard).toEqual([{ name: 'Pyroblast' }]);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Draw odds from a decklist
+ * Subtracts the cards already seen from the advised player's decklist and
+ * computes hypergeometric odds of drawing named outs or card classes
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import {
+  getPerspective,
+  getPlayer,
+  isCommandObject,
+  type CardReference,
+  type Decklist,
+  type GameState,
+  type PlayerId,
+  type PlayerView,
+  type PlayerZones,
+} from '@/lib/schemas/game-state';
+import { normalizeName } from '@/lib/utils/card-names';
+import { buildCardIndex, getFaceCharacteristics, hasType, type CardIndex } from './card-lookup';
+
+// Odds are reported for drawing within this many draws
+export const DRAW_HORIZONS = [1, 2, 3];
+
+// Card classes an out can name instead of a card
+const CARD_CLASSES: Record<string, (typeLine: string) => boolean> = {
+  land: typeLine => hasType(typeLine, 'Land'),
+  nonland: typeLine => !hasType(typeLine, 'Land'),
+  creature: typeLine => hasType(typeLine, 'Creature'),
+  instant: typeLine => hasType(typeLine, 'Instant'),
+  sorcery: typeLine => hasType(typeLine, 'Sorcery'),
+  artifact: typeLine => hasType(typeLine, 'Artifact'),
+  enchantment: typeLine => hasType(typeLine, 'Enchantment'),
+  planeswalker: typeLine => hasType(typeLine, 'Planeswalker'),
+};
+
+const DEFAULT_CLASSES = ['land', 'nonland', 'creature'];
+
+// ============ Schemas ============
+
+export const DrawOutSchema = z.object({
+  out: z.string(), // Card name or class
+  kind: z.enum(['card', 'class']),
+  copies: z.number().int().min(0), // Copies left in the unknown part of the library
+  knownTop: z.number().int().min(0).optional(), // Copies among the known top cards
+  odds: z.array(z.number().min(0).max(1)), // Chance of at least one, per DRAW_HORIZONS entry
+});
+
+export type DrawOut = z.infer<typeof DrawOutSchema>;
+
+export const DrawOddsSchema = z.object({
+  player: z.string(),
+  librarySize: z.number().int().min(0),
+  unknownCards: z.number().int().min(0), // Library minus the known top and bottom cards
+  knownTop: z.array(z.string()),
+  draws: z.array(z.number().int().positive()),
+  outs: z.array(DrawOutSchema),
+  warnings: z.array(z.string()).optional(), // Seen cards missing from the decklist, size mismatches
+});
+
+export type DrawOdds = z.infer<typeof DrawOddsSchema>;
+
+// ============ Decklists ============
+
+export interface DecklistParseResult {
+  decklist: Decklist;
+  sideboard: CardReference[]; // One entry per copy
+  companion?: CardReference;
+  errors: Array<{ line: number; message: string }>;
+}
+
+type DecklistSection = 'deck' | 'commander' | 'sideboard' | 'companion' | 'ignored';
+
+const SECTION_HEADERS: Array<[RegExp, DecklistSection]> = [
+  [/^(deck|main ?deck)$/i, 'deck'],
+  [/^commander$/i, 'commander'],
+  [/^sideboard$/i, 'sideboard'],
+  [/^companion$/i, 'companion'],
+  [/^maybeboard$/i, 'ignored'],
+];
+
+// Arena exports give every card its set and collector number: "4 Lightning Bolt (M11) 149"
+const ARENA_CARD_LINE = /^\d+\s+.+\s+\([A-Z0-9]+\)\s+\S+$/i;
+
+/**
+ * Parse a text decklist: "4 Lightning Bolt" or "4x Lightning Bolt" per line.
+ * Cards after a "Sideboard" header, or after the blank line in an Arena
+ * export (elsewhere blank lines are just spacing), go to the sideboard, and
+ * a "Companion" section names the companion; set codes like "(M11) 149" are
+ * ignored.
+ */
+export function parseDecklist(text: string): DecklistParseResult {
+  const counts = new Map<string, { name: string; count: number }>();
+  const sideboard: CardReference[] = [];
+  let companion: CardReference | undefined;
+  const errors: DecklistParseResult['errors'] = [];
+  let section: DecklistSection = 'deck';
+  let seenCards = false;
+
+  const lines = text.split(/\r?\n/);
+  const arenaExport = lines.some(line => ARENA_CARD_LINE.test(line.trim()));
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (!line) {
+      // Arena exports put the sideboard after a blank line, and the deck after the commander or companion
+      if (section === 'deck' && seenCards && arenaExport) section = 'sideboard';
+      else if (section === 'commander' || (section === 'companion' && companion)) section = 'deck';
+      continue;
+    }
+    if (line.startsWith('//') || line.startsWith('#')) continue;
+
+    const header = SECTION_HEADERS.find(([pattern]) => pattern.test(line.replace(/:$/, '')));
+    if (header) {
+      section = header[1];
+      continue;
+    }
+    if (section === 'ignored') continue;
+
+    const match = line.match(/^(\d+)x?\s+(.+?)(?:\s+\([A-Z0-9]+\)(?:\s+\S+)?)?$/i);
+    if (!match) {
+      errors.push({ line: i + 1, message: `Expected "<count> <card name>", got "${line}"` });
+      continue;
+    }
+
+    const name = match[2].trim();
+    const count = parseInt(match[1], 10);
+
+    if (section === 'companion') {
+      if (companion) errors.push({ line: i + 1, message: `Only one companion can be named, got "${name}" after "${companion.name}"` });
+      else companion = { name };
+    } else if (section === 'sideboard') {
+      for (let copy = 0; copy < count; copy++) sideboard.push({ name });
+    } else {
+      const key = normalizeName(name);
+      const entry = counts.get(key) ?? { name, count: 0 };
+      entry.count += count;
+      counts.set(key, entry);
+      seenCards = true;
+    }
+  }
+
+  // Arena lists the companion in the sideboard as well
+  const listed = companion ? sideboard.findIndex(card => normalizeName(card.name) === normalizeName(companion!.name)) : -1;
+  if (listed >= 0) sideboard.splice(listed, 1);
+
+  return { decklist: { cards: [...counts.values()] }, sideboard, companion, errors };
+}
+
+/**
+ * Attach a parsed decklist to a player's side of the state (the advised
+ * player by default). A sideboard or companion replaces the one in the state.
+ */
+export function attachDecklist(
+  state: GameState,
+  { decklist, sideboard, companion }: Omit<DecklistParseResult, 'errors'>,
+  playerId: PlayerId = getPerspective(state)
+): GameState {
+  const withDeck = (zones: PlayerZones): PlayerZones => ({
+    ...zones,
+    decklist,
+    sideboard: sideboard.length > 0 ? sideboard : zones.sideboard,
+    companion: companion ?? zones.companion,
+  });
+
+  if (state.players) {
+    return {
+      ...state,
+      players: state.players.map(player =>
+        player.id === playerId ? { ...player, zones: withDeck(player.zones) } : player
+      ),
+    };
+  }
+
+  const side = playerId === 'opponent' ? 'opponent' : 'you';
+  return { ...state, [side]: withDeck(state[side] ?? { battlefield: [], hand: [], graveyard: [], exile: [] }) };
+}
+
+// ============ Remaining Library ============
+
+/**
+ * Cards of a player's that are visible outside their library
+ */
+function seenCards(state: GameState, player: PlayerView): CardReference[] {
+  const { zones } = player;
+  const seen: CardReference[] = [
+    ...(Array.isArray(zones.hand) ? zones.hand : zones.hand.known ?? []),
+    ...zones.graveyard,
+    ...zones.exile,
+    ...(zones.commandZone ?? []).filter(entry => !isCommandObject(entry)),
+    ...state.stack.filter(item => item.type === 'spell' && item.controller === player.id).map(item => item.source),
+  ];
+
+  for (const object of zones.battlefield) {
+    if ('type' in object && object.type === 'token') continue;
+    seen.push(object);
+  }
+
+  return seen;
+}
+
+/**
+ * The decklist minus every seen card, as name -> copies left in the library
+ */
+export function remainingLibrary(
+  state: GameState,
+  playerId: PlayerId
+): { remaining: Map<string, { name: string; count: number }>; warnings: string[] } {
+  const player = getPlayer(state, playerId);
+  const remaining = new Map<string, { name: string; count: number }>();
+  const warnings: string[] = [];
+  if (!player?.zones.decklist) return { remaining, warnings };
+
+  for (const entry of player.zones.decklist.cards) {
+    const key = normalizeName(entry.name);
+    const existing = remaining.get(key);
+    remaining.set(key, { name: existing?.name ?? entry.name, count: (existing?.count ?? 0) + entry.count });
+  }
+
+  for (const card of seenCards(state, player)) {
+    const entry = remaining.get(normalizeName(card.name));
+    if (!entry || entry.count === 0) {
+      warnings.push(`"${card.name}" is not in the decklist (or more copies were seen than listed)`);
+      continue;
+    }
+    entry.count--;
+  }
+
+  return { remaining, warnings };
+}
+
+// ============ Odds ============
+
+/**
+ * Chance of drawing at least one of `successes` cards in `draws` draws from `population`
+ */
+export function hypergeometricAtLeastOne(population: number, successes: number, draws: number): number {
+  if (successes <= 0 || draws <= 0 || population <= 0) return 0;
+  if (draws >= population || successes >= population) return 1;
+
+  // 1 - C(N-K, n) / C(N, n), as a running product to stay in floating-point range
+  let miss = 1;
+  for (let i = 0; i < draws; i++) {
+    miss *= (population - successes - i) / (population - i);
+    if (miss <= 0) return 1;
+  }
+  return 1 - miss;
+}
+
+/**
+ * Compute draw odds for the advised player's decklist, or undefined without one
+ */
+export function computeDrawOdds(
+  state: GameState,
+  cardDatabase: Record<string, CardData>,
+  playerId: PlayerId = getPerspective(state)
+): DrawOdds | undefined {
+  const player = getPlayer(state, playerId);
+  const decklist = player?.zones.decklist;
+  if (!player || !decklist) return undefined;
+
+  const index = buildCardIndex(cardDatabase);
+  const { remaining, warnings } = remainingLibrary(state, playerId);
+
+  const knownTop = player.zones.library?.knownTop ?? [];
+  const knownBottom = player.zones.library?.knownBottom ?? [];
+  const known = [...knownTop, ...knownBottom];
+
+  // Known library cards are accounted for, so they leave the unknown pool
+  const unknown = new Map([...remaining].map(([key, entry]) => [key, { ...entry }]));
+  for (const card of known) {
+    const entry = unknown.get(normalizeName(card.name));
+    if (entry && entry.count > 0) entry.count--;
+  }
+
+  const listedSize = [...remaining.values()].reduce((sum, entry) => sum + entry.count, 0);
+  const librarySize = player.zones.library?.count ?? listedSize;
+  if (player.zones.library && librarySize !== listedSize) {
+    warnings.push(`Library has ${librarySize} cards but the decklist leaves ${listedSize}; odds use the library count with the listed copies`);
+  }
+  const unknownCards = Math.max(0, librarySize - known.length);
+
+  const odds = (matches: (name: string) => boolean): Pick<DrawOut, 'copies' | 'knownTop' | 'odds'> => {
+    const copies = Math.min(
+      unknownCards,
+      [...unknown.values()].filter(entry => matches(entry.name)).reduce((sum, entry) => sum + entry.count, 0)
+    );
+    const topHits = knownTop.map(card => matches(card.name));
+
+    return {
+      copies,
+      knownTop: topHits.some(Boolean) ? topHits.filter(Boolean).length : undefined,
+      odds: DRAW_HORIZONS.map(draws => {
+        // Known top cards come first
+        if (topHits.slice(0, draws).some(Boolean)) return 1;
+        return round(hypergeometricAtLeastOne(unknownCards, copies, draws - Math.min(draws, knownTop.length)));
+      }),
+    };
+  };
+
+  const outs: DrawOut[] = [];
+  const requested = decklist.outs ?? [];
+
+  for (const out of [...requested, ...DEFAULT_CLASSES.filter(c => !requested.includes(c))]) {
+    const classMatcher = CARD_CLASSES[out.toLowerCase()];
+    if (classMatcher) {
+      const matches = (name: string) => {
+        const typeLine = cardTypeLine(index, name);
+        return typeLine !== null && classMatcher(typeLine);
+      };
+      outs.push({ out: out.toLowerCase(), kind: 'class', ...odds(matches) });
+    } else {
+      outs.push({ out, kind: 'card', ...odds(name => normalizeName(name) === normalizeName(out)) });
+    }
+  }
+
+  // Every card still in the library, most copies first
+  const named = new Set(outs.filter(o => o.kind === 'card').map(o => normalizeName(o.out)));
+  const cardsLeft = [...unknown.values()]
+    .filter(entry => entry.count > 0 && !named.has(normalizeName(entry.name)))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  for (const entry of cardsLeft) {
+    outs.push({ out: entry.name, kind: 'card', ...odds(name => normalizeName(name) === normalizeName(entry.name)) });
+  }
+
+  const unresolved = [...unknown.values()].filter(entry => entry.count > 0 && cardTypeLine(index, entry.name) === null);
+  if (unresolved.length > 0) {
+    warnings.push(`Card classes leave out unresolved cards: ${unresolved.map(entry => entry.name).join(', ')}`);
+  }
+
+  return {
+    player: playerId,
+    librarySize,
+    unknownCards,
+    knownTop: knownTop.map(card => card.name),
+    draws: DRAW_HORIZONS,
+    outs,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+function cardTypeLine(index: CardIndex, name: string): string | null {
+  const card = index.get({ name });
+  return card ? getFaceCharacteristics(card).typeLine : null;
+}
+
+function round(probability: number): number {
+  return Math.round(probability * 1000) / 1000;
+}
+
+/**
+ * Format an out's odds for prompts, e.g. "Lightning Bolt (3 left): 11% / 21% / 30%"
+ */
+export function describeDrawOut(out: DrawOut): string {
+  const percentages = out.odds.map(p => `${Math.round(p * 100)}%`).join(' / ');
+  const top = out.knownTop ? `, ${out.knownTop} on top` : '';
+  return `${out.out} (${out.copies} left${top}): ${percentages}`;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { GameStateSchema, type ActiveEffect, type GameState, type Phase } from '@/lib/schemas/game-state';
+import { clearExpiredEffects, isEffectExpired } from './effects';
+
+function state(turn: number, phase: Phase): GameState {
+  return GameStateSchema.parse({
+    turn,
+    phase,
+    priority: 'you',
+    activePlayer: 'you',
+    life: { you: 20, opponent: 20 },
+    you: { battlefield: [], hand: [], graveyard: [], exile: [] },
+    opponent: { battlefield: [], hand: { count: 7 }, graveyard: [], exile: [] },
+  });
+}
+
+const ephemerate: ActiveEffect = {
+  kind: 'delayed_trigger',
+  source: 'Ephemerate',
+  text: 'Return the exiled card to the battlefield',
+  duration: 'next_end_step',
+};
+
+describe('next_end_step', () => {
+  it('triggers at the end step of the turn it was made in', () => {
+    const effect = { ...ephemerate, createdTurn: 4, createdPhase: 'precombat_main' as const };
+
+    expect(isEffectExpired(effect, state(4, 'postcombat_main'))).toBe(false);
+    expect(isEffectExpired(effect, state(4, 'end'))).toBe(true);
+  });
+
+  it('waits for the next turn when made during an end step', () => {
+    const effect = { ...ephemerate, createdTurn: 4, createdPhase: 'end' as const };
+
+    expect(isEffectExpired(effect, state(4, 'end'))).toBe(false);
+    expect(isEffectExpired(effect, state(5, 'precombat_main'))).toBe(false);
+    expect(isEffectExpired(effect, state(5, 'end'))).toBe(true);
+  });
+
+  it('stamps an unstamped effect with the phase it was first seen in', () => {
+    const { state: next, cleared } = clearExpiredEffects({ ...state(4, 'end'), effects: [ephemerate] });
+
+    expect(cleared).toEqual([]);
+    expect(next.effects).toEqual([{ ...ephemerate, createdTurn: 4, createdPhase: 'end' }]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Effects ledger upkeep
+ * Works out which ledger entries (continuous effects, delayed triggers, extra
+ * turns and combats, skips) the current turn and phase have moved past, so
+ * the ledger clears itself as the game advances.
+ */
+
+import {
+  PhaseSchema,
+  getPlayers,
+  type ActiveEffect,
+  type GameState,
+  type Phase,
+} from '@/lib/schemas/game-state';
+
+const PHASES = PhaseSchema.options;
+
+function phaseIndex(phase: Phase): number {
+  return PHASES.indexOf(phase);
+}
+
+// ============ Expiry ============
+
+/**
+ * Check whether the state has moved past an effect's duration (or, for a
+ * delayed trigger, past the point where it triggers)
+ */
+export function isEffectExpired(effect: ActiveEffect, state: GameState): boolean {
+  const created = effect.createdTurn ?? state.turn;
+  const laterTurn = state.turn > created;
+  const phase = phaseIndex(state.phase);
+
+  switch (effect.duration) {
+    case 'end_of_turn':
+      return laterTurn || phase >= phaseIndex('cleanup');
+
+    case 'end_of_combat':
+      return laterTurn || phase > phaseIndex('end_combat');
+
+    case 'next_end_step': {
+      // Made during an end step, it waits for the next turn's
+      const createdInEnd = effect.createdPhase !== undefined && phaseIndex(effect.createdPhase) >= phaseIndex('end');
+      if (createdInEnd) return laterTurn && (state.turn > created + 1 || phase >= phaseIndex('end'));
+      return laterTurn || phase >= phaseIndex('end');
+    }
+
+    case 'next_upkeep':
+      return laterTurn && (state.turn > created + 1 || phase >= phaseIndex('upkeep'));
+
+    case 'next_turn': {
+      if (!laterTurn) return false;
+      const controller = effect.controller ?? state.activePlayer;
+      // A full round guarantees the controller's turn came up, even if the state skipped it
+      const fullRound = state.turn - created >= getPlayers(state).length;
+      if (state.activePlayer !== controller) return fullRound;
+      // A skip lasts until its step has passed in that turn
+      return effect.kind === 'skip' && effect.step && !fullRound ? phase > phaseIndex(effect.step) : true;
+    }
+
+    case 'while_source':
+      return !isOnBattlefield(state, effect.source);
+
+    case 'permanent':
+      return false;
+  }
+}
+
+function isOnBattlefield(state: GameState, source: string): boolean {
+  return getPlayers(state).some(player =>
+    player.zones.battlefield.some(object => object.id === source || object.name === source)
+  );
+}
+
+// ============ Clearing ============
+
+export interface ClearedEffects {
+  state: GameState;
+  cleared: ActiveEffect[];
+}
+
+/**
+ * Drop the effects the state has moved past. Effects without a createdTurn
+ * are stamped with the current turn and phase so they can expire later.
+ */
+export function clearExpiredEffects(state: GameState): ClearedEffects {
+  if (!state.effects) return { state, cleared: [] };
+
+  const stamped = state.effects.map(effect => effect.createdTurn !== undefined
+    ? effect
+    : { ...effect, createdTurn: state.turn, createdPhase: effect.createdPhase ?? state.phase });
+  const cleared = stamped.filter(effect => isEffectExpired(effect, state));
+  const remaining = stamped.filter(effect => !cleared.includes(effect));
+
+  return {
+    state: { ...state, effects: remaining.length > 0 ? remaining : undefined },
+    cleared,
+  };
+}
+
+/**
+ * Carry the ledger of a previous state into the next one (e.g. a fresh Arena
+ * import, which has no ledger of its own) and clear what has expired
+ */
+export function carryOverEffects(previous: GameState | null, next: GameState): ClearedEffects {
+  if (next.effects || !previous?.effects) return clearExpiredEffects(next);
+  return clearExpiredEffects({ ...next, effects: previous.effects });
+}
+
+// ============ Description ============
+
+const DURATION_LABELS: Record<ActiveEffect['duration'], string> = {
+  end_of_turn: 'until end of turn',
+  end_of_combat: 'until end of combat',
+  next_end_step: 'at the beginning of the next end step',
+  next_upkeep: 'at the beginning of the next upkeep',
+  next_turn: 'until its controller\'s next turn',
+  while_source: 'for as long as its source is on the battlefield',
+  permanent: 'for the rest of the game',
+};
+
+// Delayed triggers name when they trigger rather than when they end
+const TRIGGER_LABELS: Partial<Record<ActiveEffect['duration'], string>> = {
+  end_of_turn: 'triggers at end of turn',
+  end_of_combat: 'triggers at end of combat',
+  next_end_step: 'triggers at the beginning of the next end step',
+  next_upkeep: 'triggers at the beginning of the next upkeep',
+  next_turn: 'triggers at its controller\'s next turn',
+};
+
+/**
+ * One line per effect for prompts, e.g.
+ * "Giant Growth (you, turn 4): Target creature gets +3/+3 [until end of turn]"
+ */
+export function describeEffect(effect: ActiveEffect): string {
+  const owner = [effect.controller, effect.createdTurn !== undefined ? `turn ${effect.createdTurn}` : null]
+    .filter(Boolean)
+    .join(', ');
+  const kind = effect.kind === 'continuous' ? '' : `${effect.kind.replace(/_/g, ' ')}${effect.step ? ` (${effect.step})` : ''}: `;
+  const timing = effect.duration === 'next_turn' && effect.kind === 'extra_turn'
+    ? 'taken as its controller\'s next turn'
+    : effect.duration === 'next_turn' && effect.kind === 'skip'
+      ? 'in its controller\'s next turn'
+      : (effect.kind === 'delayed_trigger' && TRIGGER_LABELS[effect.duration]) || DURATION_LABELS[effect.duration];
+  const affects = effect.affects && effect.affects.length > 0 ? `; affects ${effect.affects.join(', ')}` : '';
+
+  return `${effect.source}${owner ? ` (${owner})` : ''}: ${kind}${effect.text} [${timing}${affects}]`;
+}
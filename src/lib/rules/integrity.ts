@@ -0,0 +1,298 @@
+/**
+ * Referential integrity linter
+ * A game state can pass schema validation and still be nonsense: ids that
+ * point nowhere, permanents sharing an id, blockers on the attacking side.
+ * Each issue carries the JSON path of the field at fault.
+ */
+
+import { z } from 'zod';
+import {
+  PhaseSchema,
+  type CardReference,
+  type CommandObject,
+  type GameState,
+  type Permanent,
+  type PlayerId,
+  type PlayerZones,
+  type Token,
+} from '@/lib/schemas/game-state';
+
+const PHASES = PhaseSchema.options;
+
+// ============ Schemas ============
+
+export const IntegrityIssueCodeSchema = z.enum([
+  'duplicate_id',
+  'unknown_reference', // Points at an id that doesn't exist
+  'name_reference', // Points at an object by name rather than id
+  'unknown_player',
+  'self_reference',
+  'not_on_battlefield',
+  'attacking_side', // Attacking for a player who isn't the active player
+  'blocking_side', // Blocking on the active player's side
+  'combat_mismatch', // Attack and block markings that don't agree
+  'combat_phase', // Combat markings outside the step they belong to
+]);
+
+export type IntegrityIssueCode = z.infer<typeof IntegrityIssueCodeSchema>;
+
+export const IntegrityIssueSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  code: IntegrityIssueCodeSchema,
+  path: z.string(), // JSON path, e.g. "$.you.battlefield[2].attachedTo"
+  message: z.string(),
+});
+
+export type IntegrityIssue = z.infer<typeof IntegrityIssueSchema>;
+
+// ============ Collection ============
+
+type PathSegment = string | number;
+
+interface Seat {
+  id: PlayerId;
+  zones: PlayerZones;
+  path: PathSegment[]; // Path of the seat's zones
+}
+
+interface LocatedObject {
+  object: Permanent | Token | CardReference | CommandObject;
+  path: PathSegment[];
+  zone: 'battlefield' | 'hand' | 'graveyard' | 'exile' | 'library' | 'commandZone' | 'sideboard' | 'companion' | 'outsideGame';
+  controller: PlayerId;
+}
+
+/**
+ * Render path segments as a JSON path: ['you', 'battlefield', 2] -> "$.you.battlefield[2]"
+ */
+export function toJsonPath(segments: PathSegment[]): string {
+  return segments.reduce<string>(
+    (path, segment) => (typeof segment === 'number' ? `${path}[${segment}]` : `${path}.${segment}`),
+    '$'
+  );
+}
+
+/**
+ * Seats with the paths of their zones. Unlike getPlayers, multiplayer seats
+ * keep their index in the players array.
+ */
+function getSeats(state: GameState): Seat[] {
+  if (state.players) {
+    return state.players.map((player, index) => ({
+      id: player.id,
+      zones: player.zones,
+      path: ['players', index, 'zones'],
+    }));
+  }
+
+  return (['you', 'opponent'] as const)
+    .filter(seat => state[seat])
+    .map(seat => ({ id: seat, zones: state[seat]!, path: [seat] }));
+}
+
+function collectObjects(seats: Seat[]): LocatedObject[] {
+  const objects: LocatedObject[] = [];
+
+  for (const seat of seats) {
+    const { zones, path } = seat;
+    const add = (zone: LocatedObject['zone'], entries: LocatedObject['object'][], zonePath: PathSegment[]) => {
+      entries.forEach((object, index) => {
+        const controller = zone === 'battlefield' ? (object as Permanent).controller ?? seat.id : seat.id;
+        objects.push({ object, path: [...path, ...zonePath, index], zone, controller });
+      });
+    };
+
+    add('battlefield', zones.battlefield, ['battlefield']);
+    if (Array.isArray(zones.hand)) add('hand', zones.hand, ['hand']);
+    else add('hand', zones.hand.known ?? [], ['hand', 'known']);
+    add('graveyard', zones.graveyard, ['graveyard']);
+    add('exile', zones.exile, ['exile']);
+    add('library', zones.library?.knownTop ?? [], ['library', 'knownTop']);
+    add('library', zones.library?.knownBottom ?? [], ['library', 'knownBottom']);
+    add('commandZone', zones.commandZone ?? [], ['commandZone']);
+    add('sideboard', zones.sideboard ?? [], ['sideboard']);
+    if (zones.companion) {
+      objects.push({ object: zones.companion, path: [...path, 'companion'], zone: 'companion', controller: seat.id });
+    }
+    add('outsideGame', zones.outsideGame ?? [], ['outsideGame']);
+  }
+
+  return objects;
+}
+
+// ============ Linter ============
+
+/**
+ * Check every id reference in a (schema-valid) game state
+ */
+export function lintGameState(state: GameState): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const report = (
+    severity: IntegrityIssue['severity'],
+    code: IntegrityIssueCode,
+    path: PathSegment[],
+    message: string
+  ) => issues.push({ severity, code, path: toJsonPath(path), message });
+
+  const seats = getSeats(state);
+  const playerIds = new Set(seats.map(seat => seat.id));
+  const objects = collectObjects(seats);
+  const battlefield = objects.filter(entry => entry.zone === 'battlefield');
+
+  // Ids must be unique across every zone and the stack
+  const idOwners = new Map<string, PathSegment[]>();
+  const claimId = (id: string | undefined, path: PathSegment[]) => {
+    if (id === undefined) return;
+    const first = idOwners.get(id);
+    if (first) {
+      report('error', 'duplicate_id', [...path, 'id'], `Duplicate id "${id}" (also used at ${toJsonPath(first)})`);
+    } else {
+      idOwners.set(id, path);
+    }
+  };
+  objects.forEach(entry => claimId(entry.object.id, entry.path));
+  state.stack.forEach((item, index) => claimId(item.id, ['stack', index]));
+
+  const checkPlayer = (id: string | undefined, path: PathSegment[]) => {
+    if (id !== undefined && !playerIds.has(id)) report('error', 'unknown_player', path, `Unknown player "${id}"`);
+  };
+
+  /**
+   * Find the battlefield object a reference names. Ids that only exist
+   * elsewhere, and references by name, are reported.
+   */
+  const resolveBattlefieldRef = (ref: string, path: PathSegment[], field: string): LocatedObject | undefined => {
+    const byId = battlefield.find(entry => entry.object.id === ref);
+    if (byId) return byId;
+
+    const elsewhere = objects.find(entry => entry.object.id === ref);
+    if (elsewhere) {
+      report('error', 'not_on_battlefield', path, `${field} "${ref}" is in ${elsewhere.zone} (${toJsonPath(elsewhere.path)}), not on the battlefield`);
+      return undefined;
+    }
+
+    const byName = battlefield.find(entry => entry.object.name === ref);
+    if (byName) {
+      report('warning', 'name_reference', path, `${field} "${ref}" matches a permanent by name; give it an id and refer to that`);
+      return byName;
+    }
+
+    report('error', 'unknown_reference', path, `${field} "${ref}" doesn't match any permanent`);
+    return undefined;
+  };
+
+  const phase = PHASES.indexOf(state.phase);
+  const inCombat = phase >= PHASES.indexOf('declare_attackers') && phase <= PHASES.indexOf('end_combat');
+  const blocksDeclared = phase >= PHASES.indexOf('declare_blockers') && phase <= PHASES.indexOf('end_combat');
+
+  for (const entry of battlefield) {
+    const object = entry.object as Permanent | Token;
+    const { path } = entry;
+
+    checkPlayer(object.controller, [...path, 'controller']);
+
+    // Attachments (Curses and the like attach to players)
+    if ('attachedTo' in object && object.attachedTo !== undefined && !playerIds.has(object.attachedTo)) {
+      if (object.attachedTo === object.id) {
+        report('error', 'self_reference', [...path, 'attachedTo'], `${object.name} is attached to itself`);
+      } else {
+        resolveBattlefieldRef(object.attachedTo, [...path, 'attachedTo'], 'attachedTo');
+      }
+    }
+
+    // Attacks
+    if (object.attacking) {
+      if (entry.controller !== state.activePlayer) {
+        report('error', 'attacking_side', [...path, 'attacking'], `${object.name} is attacking but ${entry.controller} isn't the active player`);
+      }
+      if (!inCombat) {
+        report('warning', 'combat_phase', [...path, 'attacking'], `${object.name} is marked attacking outside combat (${state.phase})`);
+      }
+    }
+
+    if (object.attackingTarget !== undefined) {
+      const targetPath = [...path, 'attackingTarget'];
+      if (!object.attacking) {
+        report('warning', 'combat_mismatch', targetPath, `${object.name} has an attackingTarget but isn't attacking`);
+      }
+      if (object.attackingTarget === entry.controller) {
+        report('error', 'attacking_side', targetPath, `${object.name} is attacking its own controller`);
+      } else if (!playerIds.has(object.attackingTarget)) {
+        const target = resolveBattlefieldRef(object.attackingTarget, targetPath, 'attackingTarget');
+        if (target && target.controller === entry.controller) {
+          report('error', 'attacking_side', targetPath, `${object.name} is attacking ${target.object.name}, which its own controller controls`);
+        }
+      }
+    }
+
+    // Blocks
+    if (object.blocking !== undefined) {
+      const blockPath = [...path, 'blocking'];
+      if (entry.controller === state.activePlayer) {
+        report('error', 'blocking_side', blockPath, `${object.name} is blocking but is on the active player's (${state.activePlayer}) side`);
+      }
+      if (!blocksDeclared) {
+        report('warning', 'combat_phase', blockPath, `${object.name} is marked blocking before blockers are declared (${state.phase})`);
+      }
+      if (object.blocking === object.id) {
+        report('error', 'self_reference', blockPath, `${object.name} is blocking itself`);
+      } else {
+        const attacker = resolveBattlefieldRef(object.blocking, blockPath, 'blocking');
+        const attackerObject = attacker?.object as Permanent | Token | undefined;
+        if (attackerObject && !attackerObject.attacking) {
+          report('error', 'combat_mismatch', blockPath, `${object.name} is blocking ${attackerObject.name}, which isn't attacking`);
+        } else if (attackerObject?.blockedBy && !refersTo(attackerObject.blockedBy, object)) {
+          report('warning', 'combat_mismatch', blockPath, `${object.name} is blocking ${attackerObject.name}, whose blockedBy doesn't list it`);
+        }
+      }
+    }
+
+    object.blockedBy?.forEach((ref, index) => {
+      const blockerPath = [...path, 'blockedBy', index];
+      if (!object.attacking) {
+        report('error', 'combat_mismatch', blockerPath, `${object.name} is blocked but isn't attacking`);
+      }
+      const blocker = resolveBattlefieldRef(ref, blockerPath, 'blockedBy');
+      const blockerObject = blocker?.object as Permanent | Token | undefined;
+      if (blocker && blocker.controller === entry.controller) {
+        report('error', 'blocking_side', blockerPath, `${object.name} is blocked by ${blocker.object.name}, which its own controller controls`);
+      } else if (blockerObject?.blocking !== undefined && !refersTo([blockerObject.blocking], object)) {
+        report('warning', 'combat_mismatch', blockerPath, `${blockerObject.name} is listed in blockedBy but is blocking "${blockerObject.blocking}"`);
+      }
+    });
+  }
+
+  // Stack
+  state.stack.forEach((item, index) => {
+    checkPlayer(item.controller, ['stack', index, 'controller']);
+
+    item.targets?.forEach((target, targetIndex) => {
+      const path = ['stack', index, 'targets', targetIndex];
+      if (playerIds.has(target) || idOwners.has(target)) {
+        if (target === item.id) report('error', 'self_reference', path, `${item.source.name} targets itself`);
+        return;
+      }
+      if (objects.some(entry => entry.object.name === target) || state.stack.some(other => other.source.name === target)) {
+        report('warning', 'name_reference', path, `Target "${target}" matches an object by name; give it an id and refer to that`);
+        return;
+      }
+      report('error', 'unknown_reference', path, `Target "${target}" doesn't match any player, object or stack item`);
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Whether a list of references names an object, by id or by name
+ */
+function refersTo(refs: string[], object: Permanent | Token): boolean {
+  return refs.some(ref => ref === object.id || ref === object.name);
+}
+
+/**
+ * One line per issue, e.g. "error $.you.battlefield[2].attachedTo: attachedTo "o9" doesn't match any permanent"
+ */
+export function formatIntegrityIssue(issue: IntegrityIssue): string {
+  return `${issue.severity} ${issue.path}: ${issue.message}`;
+}
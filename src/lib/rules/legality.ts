@@ -0,0 +1,137 @@
+/**
+ * Format legality
+ * Checks cards against the per-format legalities bulk sync stores from
+ * Scryfall ("legal", "not_legal", "banned", "restricted")
+ */
+
+import { z } from 'zod';
+import { normalizeName } from '@/lib/utils/card-names';
+
+// Scryfall's legality keys
+export const FORMATS = [
+  'standard',
+  'future',
+  'historic',
+  'timeless',
+  'gladiator',
+  'pioneer',
+  'explorer',
+  'modern',
+  'legacy',
+  'pauper',
+  'vintage',
+  'penny',
+  'commander',
+  'oathbreaker',
+  'standardbrawl',
+  'brawl',
+  'alchemy',
+  'paupercommander',
+  'duel',
+  'oldschool',
+  'premodern',
+  'predh',
+] as const;
+
+export type Format = typeof FORMATS[number];
+
+const FORMAT_ALIASES: Record<string, Format> = {
+  edh: 'commander',
+  pdh: 'paupercommander',
+  pennydreadful: 'penny',
+  historicbrawl: 'brawl',
+  duelcommander: 'duel',
+};
+
+// Layouts and types that are never part of a deck, so have no legality
+const NON_DECK_LAYOUTS = ['token', 'double_faced_token', 'emblem', 'planar', 'scheme', 'vanguard', 'art_series'];
+
+// ============ Schemas ============
+
+export const LegalityStatusSchema = z.enum(['legal', 'not_legal', 'banned', 'restricted']);
+
+export type LegalityStatus = z.infer<typeof LegalityStatusSchema>;
+
+export const LegalitiesSchema = z.record(z.string(), LegalityStatusSchema);
+
+export const LegalityIssueSchema = z.object({
+  name: z.string(),
+  format: z.string(),
+  status: z.enum(['not_legal', 'banned', 'restricted']),
+  copies: z.number().int().positive().optional(), // Restricted cards: copies in the decklist
+  message: z.string(),
+});
+
+export type LegalityIssue = z.infer<typeof LegalityIssueSchema>;
+
+export interface LegalityCard {
+  name: string;
+  layout: string;
+  typeLine: string;
+  legalities: unknown; // Json column; {} until bulk sync has stored them
+}
+
+// ============ Checking ============
+
+/**
+ * Map a format name to Scryfall's legality key ("Pauper Commander" -> "paupercommander"),
+ * or null when it isn't one
+ */
+export function normalizeFormat(format: string): Format | null {
+  const key = format.toLowerCase().replace(/[^a-z]/g, '');
+  if ((FORMATS as readonly string[]).includes(key)) return key as Format;
+  return FORMAT_ALIASES[key] ?? null;
+}
+
+/**
+ * A card's legality in a format, or null when it has no legality data (not
+ * synced yet, or something that's never in a deck, like a token or emblem)
+ */
+export function getLegality(card: LegalityCard, format: Format): LegalityStatus | null {
+  if (NON_DECK_LAYOUTS.includes(card.layout) || /\bDungeon\b/.test(card.typeLine)) return null;
+  const parsed = LegalitiesSchema.safeParse(card.legalities);
+  return parsed.success ? parsed.data[format] ?? null : null;
+}
+
+/**
+ * Check cards against a format. Banned and not-legal cards are issues;
+ * restricted cards only when the decklist has more than one copy.
+ */
+export function checkLegality(
+  cards: LegalityCard[],
+  format: Format,
+  decklistCopies: Map<string, number> = new Map() // Normalized name -> copies
+): { issues: LegalityIssue[]; unchecked: string[] } {
+  const issues: LegalityIssue[] = [];
+  const unchecked: string[] = [];
+
+  for (const card of cards) {
+    const status = getLegality(card, format);
+    if (status === null) {
+      if (!NON_DECK_LAYOUTS.includes(card.layout)) unchecked.push(card.name);
+      continue;
+    }
+
+    if (status === 'banned' || status === 'not_legal') {
+      issues.push({
+        name: card.name,
+        format,
+        status,
+        message: `${card.name} is ${status === 'banned' ? 'banned' : 'not legal'} in ${format}`,
+      });
+    } else if (status === 'restricted') {
+      const copies = decklistCopies.get(normalizeName(card.name)) ?? 0;
+      if (copies > 1) {
+        issues.push({
+          name: card.name,
+          format,
+          status,
+          copies,
+          message: `${card.name} is restricted in ${format} but the decklist has ${copies} copies`,
+        });
+      }
+    }
+  }
+
+  return { issues, unchecked };
+}
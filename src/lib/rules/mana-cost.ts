@@ -0,0 +1,254 @@
+/**
+ * Mana cost grammar
+ * Parses Scryfall's braced notation ("{2}{W/U}{G/P}{S}{X}") into symbols and
+ * a structured cost, for the state schemas, the Rules Clerk schema, the
+ * packet builder and the mana solver
+ */
+
+import { z } from 'zod';
+
+export type ManaType = 'W' | 'U' | 'B' | 'R' | 'G' | 'C';
+
+export const MANA_TYPES: ManaType[] = ['W', 'U', 'B', 'R', 'G', 'C'];
+export const COLORS: ManaType[] = ['W', 'U', 'B', 'R', 'G'];
+
+// ============ Schemas ============
+
+const ManaTypeSchema = z.enum(['W', 'U', 'B', 'R', 'G', 'C']);
+
+export const ManaSymbolSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('generic'), amount: z.number().int().min(0) }), // {2}
+  z.object({ kind: z.literal('variable'), name: z.enum(['X', 'Y', 'Z']) }), // {X}
+  z.object({ kind: z.literal('mana'), type: ManaTypeSchema }), // {W}, {C}
+  z.object({ kind: z.literal('snow') }), // {S}: one mana from a snow source
+  z.object({ kind: z.literal('hybrid'), options: z.array(ManaTypeSchema) }), // {W/U}
+  z.object({ kind: z.literal('twobrid'), type: ManaTypeSchema }), // {2/W}
+  z.object({ kind: z.literal('phyrexian'), options: z.array(ManaTypeSchema) }), // {W/P}, {W/U/P}
+]);
+
+export type ManaSymbol = z.infer<typeof ManaSymbolSchema>;
+
+export const ManaCostSchema = z.object({
+  text: z.string(), // Normalized braced notation
+  symbols: z.array(ManaSymbolSchema),
+  manaValue: z.number().int().min(0), // X counts as 0
+  generic: z.number().int().min(0),
+  requirements: z.record(z.string(), z.number()), // Fixed {W}...{C} symbols by type
+  colors: z.array(ManaTypeSchema), // Colors appearing anywhere in the cost, WUBRG order
+  hybrid: z.array(z.array(z.string())), // Alternatives per hybrid symbol, e.g. ["W", "U"] or ["2", "W"]
+  phyrexian: z.array(z.array(z.string())), // Alternatives per Phyrexian symbol, life last: ["G", "2 life"]
+  snow: z.number().int().min(0),
+  x: z.number().int().min(0), // Number of {X} (or {Y}, {Z}) symbols
+});
+
+export type ManaCost = z.infer<typeof ManaCostSchema>;
+
+export type ManaCostParseResult =
+  | { success: true; cost: ManaCost }
+  | { success: false; error: string };
+
+// ============ Parsing ============
+
+/**
+ * Parse the inside of one braced symbol ("W/U", "2", "G/P")
+ */
+export function parseManaSymbol(symbol: string): ManaSymbol | null {
+  const parts = symbol.trim().toUpperCase().split('/');
+  const isType = (part: string) => (MANA_TYPES as string[]).includes(part);
+
+  if (parts.length === 1) {
+    const [part] = parts;
+    if (/^\d+$/.test(part)) return { kind: 'generic', amount: parseInt(part, 10) };
+    if (part === 'X' || part === 'Y' || part === 'Z') return { kind: 'variable', name: part };
+    if (part === 'S') return { kind: 'snow' };
+    if (isType(part)) return { kind: 'mana', type: part as ManaType };
+    return null;
+  }
+
+  const last = parts[parts.length - 1];
+  if (last === 'P' && parts.length <= 3 && parts.slice(0, -1).every(isType)) {
+    return { kind: 'phyrexian', options: parts.slice(0, -1) as ManaType[] };
+  }
+  if (parts.length === 2 && parts[0] === '2' && isType(parts[1])) {
+    return { kind: 'twobrid', type: parts[1] as ManaType };
+  }
+  if (parts.length === 2 && parts.every(isType) && parts[0] !== parts[1]) {
+    return { kind: 'hybrid', options: parts as ManaType[] };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a braced mana cost. An empty string is a cost of zero.
+ */
+export function parseManaCost(cost: string): ManaCostParseResult {
+  const compact = cost.replace(/\s+/g, '');
+  const tokens = compact.match(/\{[^{}]*\}/g) ?? [];
+
+  if (tokens.join('') !== compact) {
+    return { success: false, error: `"${cost}" is not in braced notation like {2}{W}` };
+  }
+
+  const symbols: ManaSymbol[] = [];
+  for (const token of tokens) {
+    const symbol = parseManaSymbol(token.slice(1, -1));
+    if (!symbol) {
+      return { success: false, error: `Unknown mana symbol ${token}` };
+    }
+    symbols.push(symbol);
+  }
+
+  return { success: true, cost: summarizeManaSymbols(symbols) };
+}
+
+/**
+ * Build the structured cost for a list of symbols
+ */
+export function summarizeManaSymbols(symbols: ManaSymbol[]): ManaCost {
+  const requirements: Record<string, number> = {};
+  const colors = new Set<ManaType>();
+  const hybrid: string[][] = [];
+  const phyrexian: string[][] = [];
+  let manaValue = 0;
+  let generic = 0;
+  let snow = 0;
+  let x = 0;
+
+  for (const symbol of symbols) {
+    switch (symbol.kind) {
+      case 'generic':
+        generic += symbol.amount;
+        manaValue += symbol.amount;
+        break;
+      case 'variable':
+        x++;
+        break;
+      case 'mana':
+        requirements[symbol.type] = (requirements[symbol.type] ?? 0) + 1;
+        colors.add(symbol.type);
+        manaValue++;
+        break;
+      case 'snow':
+        snow++;
+        manaValue++;
+        break;
+      case 'hybrid':
+        hybrid.push([...symbol.options]);
+        symbol.options.forEach(type => colors.add(type));
+        manaValue++;
+        break;
+      case 'twobrid':
+        hybrid.push(['2', symbol.type]);
+        colors.add(symbol.type);
+        manaValue += 2;
+        break;
+      case 'phyrexian':
+        phyrexian.push([...symbol.options, '2 life']);
+        symbol.options.forEach(type => colors.add(type));
+        manaValue++;
+        break;
+    }
+  }
+
+  return {
+    text: formatManaCost(symbols),
+    symbols,
+    manaValue,
+    generic,
+    requirements,
+    colors: COLORS.filter(color => colors.has(color)),
+    hybrid,
+    phyrexian,
+    snow,
+    x,
+  };
+}
+
+/**
+ * Replace {X} (and {Y}, {Z}) with a generic amount
+ */
+export function substituteX(symbols: ManaSymbol[], x: number): ManaSymbol[] {
+  return symbols.map(symbol => (symbol.kind === 'variable' ? { kind: 'generic', amount: x } : symbol));
+}
+
+// ============ Formatting ============
+
+export function formatManaSymbol(symbol: ManaSymbol): string {
+  switch (symbol.kind) {
+    case 'generic':
+      return `{${symbol.amount}}`;
+    case 'variable':
+      return `{${symbol.name}}`;
+    case 'mana':
+      return `{${symbol.type}}`;
+    case 'snow':
+      return '{S}';
+    case 'hybrid':
+      return `{${symbol.options.join('/')}}`;
+    case 'twobrid':
+      return `{2/${symbol.type}}`;
+    case 'phyrexian':
+      return `{${symbol.options.join('/')}/P}`;
+  }
+}
+
+export function formatManaCost(symbols: ManaSymbol[]): string {
+  return symbols.map(formatManaSymbol).join('');
+}
+
+/**
+ * Plain-language notes for the parts of a cost that aren't fixed mana,
+ * e.g. "{G/P}: {G} or 2 life"
+ */
+export function describeManaCost(cost: ManaCost): string[] {
+  const notes: string[] = [];
+
+  for (const symbol of cost.symbols) {
+    const text = formatManaSymbol(symbol);
+    if (symbol.kind === 'hybrid') {
+      notes.push(`${text}: ${symbol.options.map(type => `{${type}}`).join(' or ')}`);
+    } else if (symbol.kind === 'twobrid') {
+      notes.push(`${text}: {${symbol.type}} or {2}`);
+    } else if (symbol.kind === 'phyrexian') {
+      notes.push(`${text}: ${symbol.options.map(type => `{${type}}`).join(' or ')} or 2 life`);
+    } else if (symbol.kind === 'snow') {
+      notes.push(`${text}: one mana from a snow source`);
+    } else if (symbol.kind === 'variable') {
+      notes.push(`${text}: chosen when cast (0 in the mana value)`);
+    }
+  }
+
+  return [...new Set(notes)];
+}
+
+// ============ Mana Pools ============
+
+export interface ManaPoolParseResult {
+  pool: Record<ManaType, number>;
+  unsupported: string[]; // Symbols that can't be floating mana, e.g. "{W/U}" or "{X}"
+}
+
+/**
+ * Parse floating mana, either braced ("{R}{R}{2}") or shorthand ("2RR").
+ * Generic amounts count as colorless mana.
+ */
+export function parseManaPool(text: string): ManaPoolParseResult {
+  const pool: Record<ManaType, number> = { W: 0, U: 0, B: 0, R: 0, G: 0, C: 0 };
+  const unsupported: string[] = [];
+  const tokens = text.match(/\{[^{}]*\}|\d+|\S/g) ?? [];
+
+  for (const token of tokens) {
+    const symbol = parseManaSymbol(token.startsWith('{') ? token.slice(1, -1) : token);
+
+    if (symbol?.kind === 'mana') {
+      pool[symbol.type]++;
+    } else if (symbol?.kind === 'generic') {
+      pool.C += symbol.amount;
+    } else {
+      unsupported.push(token);
+    }
+  }
+
+  return { pool, unsupported };
+}
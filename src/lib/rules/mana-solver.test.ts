@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import type { LegalAction } from '@/lib/llm/schemas';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
+import type { ManaType } from './mana-cost';
+import {
+  canPayCost,
+  checkLegalActionCosts,
+  findManaSources,
+  type AvailableMana,
+  type ManaSource,
+} from './mana-solver';
+
+function card(name: string, typeLine: string, oracleText: string): CardData {
+  return {
+    oracleId: name,
+    name,
+    manaCost: null,
+    cmc: 0,
+    typeLine,
+    oracleText,
+    colors: [],
+    keywords: [],
+    rulings: [],
+  };
+}
+
+const cardDatabase: Record<string, CardData> = Object.fromEntries([
+  card('Forest', 'Basic Land — Forest', '({T}: Add {G}.)'),
+  card('Mountain', 'Basic Land — Mountain', '({T}: Add {R}.)'),
+  card('Llanowar Elves', 'Creature — Elf Druid', '{T}: Add {G}.'),
+  card('Birds of Paradise', 'Creature — Bird', 'Flying\n{T}: Add one mana of any color.'),
+].map(data => [data.oracleId, data]));
+
+function state(battlefield: Record<string, unknown>[]): GameState {
+  return GameStateSchema.parse({
+    turn: 3,
+    phase: 'precombat_main',
+    priority: 'you',
+    activePlayer: 'you',
+    life: { you: 20, opponent: 20 },
+    you: {
+      battlefield: battlefield.map(permanent => ({ tapped: false, summoningSick: false, ...permanent })),
+      hand: [],
+      graveyard: [],
+      exile: [],
+    },
+    opponent: { battlefield: [], hand: { count: 7 }, graveyard: [], exile: [] },
+  });
+}
+
+const land = (type: ManaType): ManaSource => ({ name: `${type} land`, options: [{ mana: [type] }] });
+
+function available(...sources: ManaSource[]): AvailableMana {
+  return { player: 'you', sources, maxTotal: sources.length };
+}
+
+describe('findManaSources', () => {
+  it('skips tapped lands and summoning-sick creatures', () => {
+    const mana = findManaSources(state([
+      { name: 'Forest' },
+      { name: 'Forest', tapped: true },
+      { name: 'Llanowar Elves', summoningSick: true },
+      { name: 'Llanowar Elves', id: 'elf' },
+    ]), cardDatabase);
+
+    expect(mana.sources.map(source => source.id ?? source.name)).toEqual(['Forest', 'elf']);
+    expect(mana.maxTotal).toBe(2);
+  });
+
+  it('reads an any-color source as one option per color', () => {
+    const mana = findManaSources(state([{ name: 'Birds of Paradise' }]), cardDatabase);
+
+    expect(mana.sources[0].options.map(option => option.mana)).toEqual([['W'], ['U'], ['B'], ['R'], ['G']]);
+  });
+});
+
+describe('canPayCost', () => {
+  it.each<[string, ManaSource[], boolean]>([
+    ['{W/U}', [land('U')], true],
+    ['{W/U}', [land('R')], false],
+    ['{2/W}', [land('W')], true],
+    ['{2/W}', [land('C'), land('C')], true],
+    ['{2/W}', [land('C')], false],
+  ])('pays %s from the given lands: %s', (cost, sources, payable) => {
+    expect(canPayCost(cost, available(...sources)).payable).toBe(payable);
+  });
+
+  it('pays Phyrexian mana with life only when there is enough of it', () => {
+    const mana = available(land('B'));
+
+    expect(canPayCost('{B}{G/P}', mana, { life: 20 })).toMatchObject({ payable: true, lifePaid: 2 });
+    expect(canPayCost('{B}{G/P}', mana, { life: 1 }).payable).toBe(false);
+    expect(canPayCost('{B}{G/P}', available(land('B'), land('G')), { life: 20 })).toMatchObject({
+      payable: true,
+      lifePaid: 0,
+    });
+  });
+
+  it('substitutes the chosen value for {X}', () => {
+    const mana = available(land('R'), land('R'), land('R'));
+
+    expect(canPayCost('{X}{R}', mana, { x: 2 }).payable).toBe(true);
+    expect(canPayCost('{X}{R}', mana, { x: 3 }).payable).toBe(false);
+  });
+
+  it('picks the color a choice source needs', () => {
+    const mana = findManaSources(state([{ name: 'Birds of Paradise' }, { name: 'Forest' }]), cardDatabase);
+    const payment = canPayCost('{U}{G}', mana);
+
+    expect(payment.payable).toBe(true);
+    expect(payment.sources).toEqual([
+      { name: 'Birds of Paradise', produced: '{U}' },
+      { name: 'Forest', produced: '{G}' },
+    ]);
+  });
+
+  it('is undetermined rather than unpayable when there are too many ways to tap the sources', () => {
+    const birds = (count: number) => findManaSources(
+      state(Array.from({ length: count }, (_, i) => ({ name: 'Birds of Paradise', id: `bird${i}` }))),
+      cardDatabase
+    );
+    // Needs {C}, which no bird makes, while naming every color so no pools collapse
+    const cost = '{W}{W}{W}{W}{W}{U}{U}{U}{U}{U}{B}{B}{B}{B}{B}{R}{R}{R}{R}{R}{G}{G}{G}{G}{G}{C}';
+
+    expect(canPayCost(cost, birds(3)).payable).toBe(false);
+    expect(canPayCost(cost, birds(20))).toMatchObject({ payable: 'undetermined', sources: [] });
+  });
+});
+
+describe('checkLegalActionCosts', () => {
+  const action = (id: string, manaCost: LegalAction['manaCost']): LegalAction => ({
+    id,
+    type: 'cast_spell',
+    card: id,
+    manaCost,
+    description: `Cast ${id}`,
+    restrictions: [],
+    triggers: [],
+  });
+
+  it('rejects a claimed cost the sources cannot pay', () => {
+    const mana = available(land('R'), land('R'));
+    const checks = checkLegalActionCosts([
+      action('Lightning Bolt', { total: 1, colors: { R: 1 } }),
+      action('Counterspell', { cost: '{U}{U}', total: 2, colors: { U: 2 } }),
+      action('Fireball', { cost: '{X}{R}', x: 2, total: 3, colors: { R: 1, generic: 2 } }),
+    ], mana, 20);
+
+    expect(checks.map(check => [check.actionId, check.claimedCost, check.payment.payable])).toEqual([
+      ['Lightning Bolt', '{R}', true],
+      ['Counterspell', '{U}{U}', false],
+      ['Fireball', '{X}{R}', false],
+    ]);
+  });
+
+  it('ignores actions that claim no mana cost', () => {
+    expect(checkLegalActionCosts([action('Land', undefined), action('Free', { total: 0, colors: {} })], available(), 20))
+      .toEqual([]);
+  });
+});
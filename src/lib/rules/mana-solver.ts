@@ -0,0 +1,555 @@
+/**
+ * Mana source solver
+ * Reads "{T}: Add ..." abilities from untapped permanents, enumerates the mana
+ * they can produce together, and decides whether a cost can be paid
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import type { LegalAction } from '@/lib/llm/schemas';
+import {
+  getPlayer,
+  type GameState,
+  type ManaPool,
+  type Permanent,
+  type PlayerId,
+} from '@/lib/schemas/game-state';
+import { buildCardIndex, getObjectCharacteristics, hasKeyword, hasType } from './card-lookup';
+import {
+  COLORS,
+  MANA_TYPES,
+  parseManaCost,
+  substituteX,
+  type ManaSymbol,
+  type ManaType,
+} from './mana-cost';
+
+// Upper bound on distinct pools explored, to keep huge boards responsive
+const MAX_COMBINATIONS = 20_000;
+
+// ============ Schemas ============
+
+export const ManaOptionSchema = z.object({
+  mana: z.array(z.enum(['W', 'U', 'B', 'R', 'G', 'C'])), // What one activation adds
+  lifeCost: z.number().int().min(0).optional(), // e.g. "{T}, Pay 1 life: Add {G}"
+});
+
+export type ManaOption = z.infer<typeof ManaOptionSchema>;
+
+export const ManaSourceSchema = z.object({
+  name: z.string(),
+  id: z.string().optional(),
+  options: z.array(ManaOptionSchema),
+  floating: z.boolean().optional(), // Already in the mana pool
+  snow: z.boolean().optional(), // A snow permanent, so its mana can pay {S}
+});
+
+export type ManaSource = z.infer<typeof ManaSourceSchema>;
+
+export const AvailableManaSchema = z.object({
+  player: z.string(),
+  sources: z.array(ManaSourceSchema),
+  maxTotal: z.number().int().min(0), // Most mana producible at once
+  unparsed: z.array(z.string()).optional(), // Untapped permanents with mana abilities we couldn't read
+});
+
+export type AvailableMana = z.infer<typeof AvailableManaSchema>;
+
+export interface ManaPayment {
+  payable: boolean | 'undetermined'; // Undetermined when there were too many ways to tap the sources to try them all
+  cost: string;
+  sources: Array<{ name: string; id?: string; produced: string }>;
+  lifePaid: number;
+  reason?: string;
+}
+
+// ============ Finding Sources ============
+
+/**
+ * Collect every mana source a player can use right now: floating mana plus
+ * untapped permanents with a "{T}: Add ..." ability
+ */
+export function findManaSources(
+  state: GameState,
+  cardDatabase: Record<string, CardData>,
+  playerId: PlayerId = state.priority
+): AvailableMana {
+  const index = buildCardIndex(cardDatabase);
+  const player = getPlayer(state, playerId);
+  const sources: ManaSource[] = [];
+  const unparsed: string[] = [];
+
+  if (!player) {
+    return { player: playerId, sources, maxTotal: 0 };
+  }
+
+  // Floating mana: one single-option source per mana
+  for (const type of MANA_TYPES) {
+    for (let i = 0; i < (player.manaPool?.[type] ?? 0); i++) {
+      sources.push({ name: 'Mana pool', options: [{ mana: [type] }], floating: true });
+    }
+  }
+
+  for (const object of player.zones.battlefield) {
+    if (object.tapped || object.phasedOut) continue;
+    if (object.controller && object.controller !== playerId) continue;
+
+    const characteristics = getObjectCharacteristics(object, index);
+    if (!characteristics?.oracleText) continue;
+
+    // Summoning-sick creatures can't use {T} abilities
+    const summoningSick = 'summoningSick' in object && (object as Permanent).summoningSick;
+    if (summoningSick && hasType(characteristics.typeLine, 'Creature') && !hasKeyword(characteristics, 'Haste')) {
+      continue;
+    }
+
+    const { abilities, unreadable } = parseManaAbilities(characteristics.oracleText);
+    if (unreadable) {
+      unparsed.push(object.name);
+    }
+
+    // A permanent with several {T} mana abilities can still only tap once
+    if (abilities.length > 0) {
+      const snow = hasType(characteristics.typeLine, 'Snow') || undefined;
+      sources.push({ name: object.name, id: object.id, options: abilities, snow });
+    }
+  }
+
+  const maxTotal = sources.reduce(
+    (sum, source) => sum + Math.max(...source.options.map(option => option.mana.length)),
+    0
+  );
+
+  return {
+    player: playerId,
+    sources,
+    maxTotal,
+    unparsed: unparsed.length > 0 ? unparsed : undefined,
+  };
+}
+
+const TAP_ABILITY_PATTERN = /^\{T\}(?:,\s*Pay (\d+) life)?:\s*Add ([^.]+)\./i;
+
+/**
+ * Read the "{T}: Add ..." abilities from Oracle text as a list of options.
+ * Mana abilities that can't be read, including ones with a cost besides {T}
+ * and life (filter lands' "{W/U}, {T}: Add ..."), make the text unreadable.
+ */
+export function parseManaAbilities(oracleText: string): { abilities: ManaOption[]; unreadable: boolean } {
+  const abilities: ManaOption[] = [];
+  let unreadable = false;
+
+  for (const rawLine of oracleText.split('\n')) {
+    // Basic lands carry their ability as reminder text: "({T}: Add {G}.)"
+    const line = rawLine.trim().replace(/^\((.*)\)$/, '$1');
+    if (!/^[^:]*\{T\}[^:]*:\s*Add\b/i.test(line)) continue;
+
+    const match = line.match(TAP_ABILITY_PATTERN);
+    const options = match ? parseManaProduction(match[2]) : null;
+    if (!match || !options) {
+      unreadable = true;
+      continue;
+    }
+
+    const lifeCost = match[1] ? parseInt(match[1], 10) : 0;
+    abilities.push(...options.map(mana => (lifeCost > 0 ? { mana, lifeCost } : { mana })));
+  }
+
+  return { abilities, unreadable };
+}
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+function parseManaProduction(text: string): ManaType[][] | null {
+  const trimmed = text.trim();
+
+  // "one mana of any color", "two mana of any one color",
+  // "one mana of any color in your commander's color identity" (treated as any color)
+  const anyColor = trimmed.match(/^(one|two|three|four|five) mana of any (?:one )?color\b/i);
+  if (anyColor) {
+    const amount = NUMBER_WORDS[anyColor[1].toLowerCase()];
+    return COLORS.map(color => Array<ManaType>(amount).fill(color));
+  }
+
+  // "{G} or {W}", "{R}, {G}, or {W}", "{C}{C}"
+  const alternatives = trimmed.split(/\s*,\s*(?:or\s+)?|\s+or\s+/);
+  const options: ManaType[][] = [];
+
+  for (const alternative of alternatives) {
+    const symbols = alternative.match(/\{([^}]+)\}/g);
+    if (!symbols || symbols.join('') !== alternative.replace(/\s+/g, '')) return null;
+
+    const option: ManaType[] = [];
+    for (const symbol of symbols) {
+      const type = symbol.slice(1, -1).toUpperCase();
+      if (!(MANA_TYPES as string[]).includes(type)) return null;
+      option.push(type as ManaType);
+    }
+    options.push(option);
+  }
+
+  return options.length > 0 ? options : null;
+}
+
+// ============ Combinations ============
+
+export interface ManaCombination {
+  pool: ManaPool;
+  used: Array<{ source: ManaSource; option: ManaOption }>;
+  lifeCost: number;
+  snow: number; // How much of the pool came from snow sources
+}
+
+/**
+ * How a cost sees mana: types it never names only pay generic, so they count
+ * as one type, and no type (or snow mana) is worth more than the cost needs
+ */
+export interface CostView {
+  mapType: (type: ManaType) => ManaType;
+  cap: number;
+  snowCap: number;
+}
+
+const FULL_VIEW: CostView = { mapType: type => type, cap: Number.POSITIVE_INFINITY, snowCap: Number.POSITIVE_INFINITY };
+
+/**
+ * Enumerate every distinct pool the sources can produce (including using
+ * only some of them) as a cost sees it, keeping the cheapest way to reach
+ * each pool. Incomplete when the enumeration hit MAX_COMBINATIONS.
+ */
+export function enumerateManaCombinations(
+  sources: ManaSource[],
+  view: CostView = FULL_VIEW
+): { combinations: ManaCombination[]; complete: boolean } {
+  let combinations = new Map<string, ManaCombination>([
+    [poolKey(emptyPool(), 0), { pool: emptyPool(), used: [], lifeCost: 0, snow: 0 }],
+  ]);
+
+  for (const [index, source] of sources.entries()) {
+    const next = new Map(combinations);
+
+    for (const combination of combinations.values()) {
+      for (const option of source.options) {
+        const pool = { ...combination.pool };
+        option.mana.forEach(type => {
+          const mapped = view.mapType(type);
+          pool[mapped] = Math.min(pool[mapped] + 1, view.cap);
+        });
+
+        const snow = Math.min(combination.snow + (source.snow ? option.mana.length : 0), view.snowCap);
+        const key = poolKey(pool, snow);
+        const candidate: ManaCombination = {
+          pool,
+          used: [...combination.used, { source, option }],
+          lifeCost: combination.lifeCost + (option.lifeCost ?? 0),
+          snow,
+        };
+
+        const existing = next.get(key);
+        if (!existing || isCheaper(candidate, existing)) {
+          next.set(key, candidate);
+        }
+      }
+    }
+
+    combinations = next;
+    if (combinations.size > MAX_COMBINATIONS && index < sources.length - 1) {
+      return { combinations: [...combinations.values()], complete: false };
+    }
+  }
+
+  return { combinations: [...combinations.values()], complete: true };
+}
+
+/**
+ * The view of mana a cost ({X} already substituted) needs
+ */
+function viewCost(symbols: ManaSymbol[]): CostView {
+  const named = new Set<ManaType>();
+  let cap = 0;
+
+  for (const symbol of symbols) {
+    if (symbol.kind === 'mana' || symbol.kind === 'twobrid') named.add(symbol.type);
+    if (symbol.kind === 'hybrid' || symbol.kind === 'phyrexian') symbol.options.forEach(type => named.add(type));
+    cap += symbol.kind === 'generic' ? symbol.amount : symbol.kind === 'twobrid' ? 2 : 1;
+  }
+
+  // Unnamed types all count as the first of them
+  const other = MANA_TYPES.find(type => !named.has(type));
+  return {
+    mapType: type => (other && !named.has(type) ? other : type),
+    cap,
+    snowCap: symbols.filter(symbol => symbol.kind === 'snow').length,
+  };
+}
+
+/**
+ * A source that always adds the same mana for free, so it can be pooled
+ * rather than enumerated
+ */
+function isFixedSource(source: ManaSource): boolean {
+  return source.options.length === 1 && !source.options[0].lifeCost;
+}
+
+/**
+ * Which fixed sources a payment drew on: whatever it spent beyond what the
+ * enumerated sources made, floating mana first
+ */
+function fixedSourcesUsed(
+  fixed: ManaSource[],
+  view: CostView,
+  spent: ManaPool,
+  fromCombination: ManaPool
+): Array<{ source: ManaSource; option: ManaOption }> {
+  const owed = emptyPool();
+  for (const type of MANA_TYPES) owed[type] = Math.max(0, spent[type] - fromCombination[type]);
+
+  const used: Array<{ source: ManaSource; option: ManaOption }> = [];
+  for (const source of fixed) {
+    const [option] = source.options;
+    const types = option.mana.map(view.mapType);
+    if (!types.some(type => owed[type] > 0)) continue;
+
+    types.forEach(type => (owed[type] = Math.max(0, owed[type] - 1)));
+    used.push({ source, option });
+  }
+  return used;
+}
+
+function isCheaper(a: ManaCombination, b: ManaCombination): boolean {
+  return a.lifeCost < b.lifeCost || (a.lifeCost === b.lifeCost && a.used.length < b.used.length);
+}
+
+// ============ Costs ============
+
+interface PoolPayment {
+  remaining: ManaPool;
+  lifePaid: number;
+}
+
+/**
+ * Try to pay cost symbols ({X} already substituted) from a fixed pool,
+ * preferring mana over life. {S} is paid like generic mana, as long as the
+ * pool holds enough mana from snow sources.
+ */
+function payFromPool(
+  symbols: ManaSymbol[],
+  pool: ManaPool,
+  lifeAvailable: number,
+  snowAvailable: number
+): PoolPayment | null {
+  // Fixed requirements first, then choices, then generic
+  const fixed = symbols.filter(s => s.kind === 'mana');
+  const choices = symbols.filter(s => s.kind === 'hybrid' || s.kind === 'twobrid' || s.kind === 'phyrexian');
+  const snow = symbols.filter(s => s.kind === 'snow').length;
+  const generic = snow + symbols.reduce((sum, s) => sum + (s.kind === 'generic' ? s.amount : 0), 0);
+
+  if (snow > snowAvailable) return null;
+
+  const remaining = { ...pool };
+  for (const symbol of fixed) {
+    if (symbol.kind !== 'mana' || remaining[symbol.type] === 0) return null;
+    remaining[symbol.type]--;
+  }
+
+  let best: PoolPayment | null = null;
+
+  const search = (i: number, current: ManaPool, lifePaid: number, genericOwed: number) => {
+    if (best && lifePaid >= best.lifePaid) return;
+
+    if (i === choices.length) {
+      const total = MANA_TYPES.reduce((sum, type) => sum + current[type], 0);
+      if (total < genericOwed) return;
+
+      const after = { ...current };
+      let owed = genericOwed;
+      for (const type of MANA_TYPES) {
+        const spent = Math.min(after[type], owed);
+        after[type] -= spent;
+        owed -= spent;
+      }
+      best = { remaining: after, lifePaid };
+      return;
+    }
+
+    const symbol = choices[i];
+    const payWith = (type: ManaType) => {
+      if (current[type] === 0) return;
+      const next = { ...current, [type]: current[type] - 1 };
+      search(i + 1, next, lifePaid, genericOwed);
+    };
+
+    if (symbol.kind === 'hybrid') {
+      symbol.options.forEach(payWith);
+    } else if (symbol.kind === 'twobrid') {
+      payWith(symbol.type);
+      search(i + 1, current, lifePaid, genericOwed + 2);
+    } else if (symbol.kind === 'phyrexian') {
+      symbol.options.forEach(payWith);
+      if (lifeAvailable - lifePaid >= 2) {
+        search(i + 1, current, lifePaid + 2, genericOwed);
+      }
+    }
+  };
+
+  search(0, remaining, 0, generic);
+  return best;
+}
+
+/**
+ * Decide whether a mana cost can be paid from the available sources, and with which
+ */
+export function canPayCost(
+  cost: string,
+  available: AvailableMana,
+  options: { x?: number; life?: number } = {}
+): ManaPayment {
+  const { x = 0, life = Number.POSITIVE_INFINITY } = options;
+  const parsed = parseManaCost(cost);
+
+  if (!parsed.success) {
+    return { payable: false, cost, sources: [], lifePaid: 0, reason: `Unrecognized mana cost: ${parsed.error}` };
+  }
+
+  const symbols = substituteX(parsed.cost.symbols, x);
+  const view = viewCost(symbols);
+
+  // Floating mana and single-ability sources like basic lands always add the
+  // same mana, so only the sources with a choice are enumerated
+  const fixed = available.sources.filter(isFixedSource);
+  const fixedPool = emptyPool();
+  let fixedSnow = 0;
+  for (const source of fixed) {
+    source.options[0].mana.forEach(type => fixedPool[view.mapType(type)]++);
+    if (source.snow) fixedSnow += source.options[0].mana.length;
+  }
+
+  const { combinations, complete } = enumerateManaCombinations(
+    available.sources.filter(source => !isFixedSource(source)),
+    view
+  );
+
+  let best: { used: ManaCombination['used']; life: number } | null = null;
+
+  // Prefer paying the least life, then tapping the fewest sources
+  for (const combination of combinations) {
+    if (combination.lifeCost > life) continue;
+
+    const pool = emptyPool();
+    for (const type of MANA_TYPES) pool[type] = combination.pool[type] + fixedPool[type];
+
+    const payment = payFromPool(symbols, pool, life - combination.lifeCost, combination.snow + fixedSnow);
+    if (!payment) continue;
+
+    const spent = emptyPool();
+    for (const type of MANA_TYPES) spent[type] = pool[type] - payment.remaining[type];
+    const used = [...combination.used, ...fixedSourcesUsed(fixed, view, spent, combination.pool)];
+
+    const totalLife = payment.lifePaid + combination.lifeCost;
+    if (!best || totalLife < best.life || (totalLife === best.life && used.length < best.used.length)) {
+      best = { used, life: totalLife };
+    }
+  }
+
+  if (!best && !complete) {
+    return {
+      payable: 'undetermined',
+      cost,
+      sources: [],
+      lifePaid: 0,
+      reason: `Too many ways to tap ${available.sources.length} sources to decide whether they can produce ${cost}`,
+    };
+  }
+
+  if (!best) {
+    return {
+      payable: false,
+      cost,
+      sources: [],
+      lifePaid: 0,
+      reason: `Available sources (${available.maxTotal} mana) cannot produce ${cost}`,
+    };
+  }
+
+  return {
+    payable: true,
+    cost,
+    sources: best.used.map(({ source, option }) => ({
+      name: source.name,
+      id: source.id,
+      produced: option.mana.map(type => `{${type}}`).join(''),
+    })),
+    lifePaid: best.life,
+  };
+}
+
+// ============ Rules Clerk Checks ============
+
+export interface ManaCostCheck {
+  actionId: string;
+  card?: string;
+  claimedCost: string;
+  payment: ManaPayment;
+}
+
+/**
+ * Convert a Rules Clerk manaCost claim to braced notation: its "cost" when given,
+ * otherwise built from { total, colors: { R: 1, generic: 1 } }
+ */
+export function manaClaimToCost(claim: NonNullable<LegalAction['manaCost']>): string {
+  if (claim.cost) return claim.cost;
+
+  let cost = '';
+  let colored = 0;
+
+  for (const [key, amount] of Object.entries(claim.colors)) {
+    const type = key.toUpperCase();
+    if ((MANA_TYPES as string[]).includes(type)) {
+      cost += `{${type}}`.repeat(amount);
+      colored += amount;
+    }
+  }
+
+  const generic = claim.colors.generic ?? Math.max(0, claim.total - colored);
+  return (generic > 0 ? `{${generic}}` : '') + cost;
+}
+
+/**
+ * Check every Rules Clerk action that claims a mana cost against the solver
+ */
+export function checkLegalActionCosts(
+  legalActions: LegalAction[],
+  available: AvailableMana,
+  life: number
+): ManaCostCheck[] {
+  return legalActions
+    .filter(action => action.manaCost && (action.manaCost.total > 0 || action.manaCost.cost))
+    .map(action => {
+      const claimedCost = manaClaimToCost(action.manaCost!);
+      return {
+        actionId: action.id,
+        card: action.card,
+        claimedCost,
+        payment: canPayCost(claimedCost, available, { life, x: action.manaCost!.x }),
+      };
+    });
+}
+
+// ============ Helpers ============
+
+function emptyPool(): ManaPool {
+  return { W: 0, U: 0, B: 0, R: 0, G: 0, C: 0 };
+}
+
+function poolKey(pool: ManaPool, snow: number): string {
+  return [...MANA_TYPES.map(type => pool[type]), snow].join(',');
+}
+
+/**
+ * Describe a source's options, e.g. "{G} or {W}"
+ */
+export function describeManaSource(source: ManaSource): string {
+  return source.options
+    .map(option => option.mana.map(type => `{${type}}`).join('') + (option.lifeCost ? ` (pay ${option.lifeCost} life)` : ''))
+    .join(' or ');
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import { GameStateSchema, type GameState } from '@/lib/schemas/game-state';
+import {
+  checkStateBasedActions,
+  compareStateBasedActions,
+  POISON_LIMIT,
+  type StateBasedAction,
+} from './state-based-actions';
+
+function card(name: string, typeLine: string, extra: Partial<CardData> = {}): CardData {
+  return {
+    oracleId: name,
+    name,
+    manaCost: null,
+    cmc: 0,
+    typeLine,
+    oracleText: null,
+    colors: [],
+    keywords: [],
+    rulings: [],
+    ...extra,
+  };
+}
+
+const cardDatabase: Record<string, CardData> = Object.fromEntries([
+  card('Grizzly Bears', 'Creature — Bear', { power: '2', toughness: '2' }),
+  card('Darksteel Myr', 'Artifact Creature — Myr', { power: '0', toughness: '1', keywords: ['Indestructible'] }),
+  card('Thalia, Guardian of Thraben', 'Legendary Creature — Human Soldier', { power: '2', toughness: '1' }),
+  card('Rancor', 'Enchantment — Aura'),
+].map(data => [data.oracleId, data]));
+
+function state(overrides: Record<string, unknown> = {}): GameState {
+  return GameStateSchema.parse({
+    turn: 4,
+    phase: 'precombat_main',
+    priority: 'you',
+    activePlayer: 'you',
+    life: { you: 20, opponent: 20 },
+    you: { battlefield: [], hand: [], graveyard: [], exile: [] },
+    opponent: { battlefield: [], hand: { count: 7 }, graveyard: [], exile: [] },
+    ...overrides,
+  });
+}
+
+function battlefield(...permanents: Record<string, unknown>[]): Record<string, unknown> {
+  return {
+    you: {
+      battlefield: permanents.map(permanent => ({ tapped: false, summoningSick: false, ...permanent })),
+      hand: [],
+      graveyard: [],
+      exile: [],
+    },
+  };
+}
+
+describe('checkStateBasedActions', () => {
+  it.each<[string, Record<string, unknown>, StateBasedAction['type'][]]>([
+    ['nothing pending', battlefield({ name: 'Grizzly Bears', damage: 1 }), []],
+    ['lethal damage', battlefield({ name: 'Grizzly Bears', damage: 2 }), ['lethal_damage']],
+    ['lethal damage on an indestructible creature', battlefield({ name: 'Darksteel Myr', damage: 3 }), []],
+    ['zero toughness from -1/-1 counters', battlefield({ name: 'Grizzly Bears', counters: { '-1/-1': 2 } }), ['zero_toughness']],
+    ['zero toughness despite indestructible', battlefield({ name: 'Darksteel Myr', counters: { '-1/-1': 1 } }), ['zero_toughness']],
+    ['0 life', { life: { you: 0, opponent: 20 } }, ['zero_life']],
+    ['one poison short of the limit', { playerCounters: { opponent: { poison: POISON_LIMIT - 1 } } }, []],
+    ['the poison limit', { playerCounters: { opponent: { poison: POISON_LIMIT } } }, ['poison']],
+    [
+      'two legends with the same name',
+      battlefield({ name: 'Thalia, Guardian of Thraben', id: 't1' }, { name: 'Thalia, Guardian of Thraben', id: 't2' }),
+      ['legend_rule'],
+    ],
+    ['an aura attached to nothing', battlefield({ name: 'Rancor' }), ['unattached_aura']],
+    ['an aura attached to a missing object', battlefield({ name: 'Rancor', attachedTo: 'gone' }), ['unattached_aura']],
+    ['an aura attached to a creature', battlefield({ name: 'Grizzly Bears', id: 'bear' }, { name: 'Rancor', attachedTo: 'bear' }), []],
+    [
+      '+1/+1 and -1/-1 counters together',
+      battlefield({ name: 'Grizzly Bears', counters: { '+1/+1': 2, '-1/-1': 1 } }),
+      ['counter_annihilation'],
+    ],
+  ])('%s', (_, overrides, expected) => {
+    const actions = checkStateBasedActions(state(overrides), cardDatabase);
+
+    expect(actions.map(action => action.type)).toEqual(expected);
+  });
+
+  it('names the affected player and objects', () => {
+    const actions = checkStateBasedActions(
+      state({
+        ...battlefield({ name: 'Thalia, Guardian of Thraben', id: 't1' }, { name: 'Thalia, Guardian of Thraben', id: 't2' }),
+        playerCounters: { opponent: { poison: POISON_LIMIT } },
+      }),
+      cardDatabase
+    );
+
+    expect(actions).toEqual([
+      expect.objectContaining({ type: 'poison', rule: 'CR 704.5c', player: 'opponent' }),
+      expect.objectContaining({
+        type: 'legend_rule',
+        rule: 'CR 704.5j',
+        player: 'you',
+        objects: [
+          { name: 'Thalia, Guardian of Thraben', id: 't1' },
+          { name: 'Thalia, Guardian of Thraben', id: 't2' },
+        ],
+      }),
+    ]);
+  });
+});
+
+describe('compareStateBasedActions', () => {
+  const computed = checkStateBasedActions(
+    state({
+      ...battlefield({ name: 'Grizzly Bears', damage: 2 }),
+      life: { you: 20, opponent: 0 },
+    }),
+    cardDatabase
+  );
+
+  it('agrees when every SBA is reported and nothing else is', () => {
+    const comparison = compareStateBasedActions(computed, [
+      'Grizzly Bears is destroyed by lethal damage',
+      'Opponent is at 0 life and loses the game',
+    ]);
+
+    expect(comparison).toEqual({ agrees: true, missedByRulesClerk: [], unverified: [] });
+  });
+
+  it('reports SBAs the Rules Clerk missed', () => {
+    const comparison = compareStateBasedActions(computed, ['Grizzly Bears is destroyed by lethal damage']);
+
+    expect(comparison.agrees).toBe(false);
+    expect(comparison.missedByRulesClerk.map(action => action.type)).toEqual(['zero_life']);
+    expect(comparison.unverified).toEqual([]);
+  });
+
+  it('does not match a player SBA without its reason', () => {
+    const comparison = compareStateBasedActions(computed, [
+      'Grizzly Bears is destroyed by lethal damage',
+      'Opponent has 10 poison counters',
+    ]);
+
+    expect(comparison.missedByRulesClerk.map(action => action.type)).toEqual(['zero_life']);
+    expect(comparison.unverified).toEqual(['Opponent has 10 poison counters']);
+  });
+
+  it('reports SBAs the Rules Clerk invented', () => {
+    const comparison = compareStateBasedActions(computed, [
+      'Grizzly Bears is destroyed by lethal damage',
+      'Opponent is at 0 life and loses the game',
+      'Legend rule: choose one Thalia, Guardian of Thraben',
+    ]);
+
+    expect(comparison.agrees).toBe(false);
+    expect(comparison.missedByRulesClerk).toEqual([]);
+    expect(comparison.unverified).toEqual(['Legend rule: choose one Thalia, Guardian of Thraben']);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Deterministic state-based action checker (CR 704)
+ * Computes the SBAs that would be performed the next time a player would
+ * receive priority, using resolved Oracle data instead of LLM judgement
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import {
+  getPlayers,
+  type GameState,
+  type Permanent,
+  type PlayerId,
+  type Token,
+} from '@/lib/schemas/game-state';
+import {
+  buildCardIndex,
+  counterModifiers,
+  getObjectCharacteristics,
+  hasKeyword,
+  hasType,
+  parseStat,
+  type FaceCharacteristics,
+} from './card-lookup';
+
+export const POISON_LIMIT = 10;
+const COMMANDER_DAMAGE_LIMIT = 21;
+
+// ============ Schemas ============
+
+export const StateBasedActionTypeSchema = z.enum([
+  'zero_life',
+  'poison',
+  'commander_damage',
+  'zero_toughness',
+  'lethal_damage',
+  'zero_loyalty',
+  'legend_rule',
+  'unattached_aura',
+  'counter_annihilation',
+]);
+
+export type StateBasedActionType = z.infer<typeof StateBasedActionTypeSchema>;
+
+export const StateBasedActionSchema = z.object({
+  type: StateBasedActionTypeSchema,
+  rule: z.string(), // e.g. "CR 704.5g"
+  description: z.string(),
+  player: z.string().optional(), // Affected player (player SBAs) or controller
+  objects: z.array(z.object({
+    name: z.string(),
+    id: z.string().optional(),
+  })).optional(),
+});
+
+export type StateBasedAction = z.infer<typeof StateBasedActionSchema>;
+
+// ============ Checker ============
+
+interface BattlefieldObject {
+  object: Permanent | Token;
+  controller: PlayerId;
+  characteristics: FaceCharacteristics | null;
+}
+
+/**
+ * Compute all pending state-based actions for a game state
+ */
+export function checkStateBasedActions(
+  state: GameState,
+  cardDatabase: Record<string, CardData>
+): StateBasedAction[] {
+  const index = buildCardIndex(cardDatabase);
+  const actions: StateBasedAction[] = [];
+  const players = getPlayers(state).filter(player => !player.eliminated);
+
+  // Player SBAs
+  for (const player of players) {
+    if (player.life <= 0) {
+      actions.push({
+        type: 'zero_life',
+        rule: 'CR 704.5a',
+        description: `Player "${player.id}" is at ${player.life} life and loses the game`,
+        player: player.id,
+      });
+    }
+
+    const poison = player.counters.poison ?? 0;
+    if (poison >= POISON_LIMIT) {
+      actions.push({
+        type: 'poison',
+        rule: 'CR 704.5c',
+        description: `Player "${player.id}" has ${poison} poison counters and loses the game`,
+        player: player.id,
+      });
+    }
+
+    for (const [source, damage] of Object.entries(player.commanderDamage)) {
+      if (damage >= COMMANDER_DAMAGE_LIMIT) {
+        actions.push({
+          type: 'commander_damage',
+          rule: 'CR 704.6c',
+          description: `Player "${player.id}" has taken ${damage} combat damage from commander ${source} and loses the game`,
+          player: player.id,
+        });
+      }
+    }
+  }
+
+  // Collect every object on every battlefield; phased-out ones don't exist for SBAs
+  const battlefield: BattlefieldObject[] = players.flatMap(player =>
+    player.zones.battlefield.filter(object => !object.phasedOut).map(object => ({
+      object,
+      controller: object.controller ?? player.id,
+      characteristics: getObjectCharacteristics(object, index),
+    }))
+  );
+
+  const objectIds = new Set(
+    battlefield.map(entry => entry.object.id).filter((id): id is string => id !== undefined)
+  );
+  const playerIds = new Set(players.map(player => player.id));
+
+  for (const entry of battlefield) {
+    actions.push(...checkObject(entry, objectIds, playerIds));
+  }
+
+  actions.push(...checkLegendRule(battlefield));
+
+  return actions;
+}
+
+function checkObject(
+  { object, controller, characteristics }: BattlefieldObject,
+  objectIds: Set<string>,
+  playerIds: Set<PlayerId>
+): StateBasedAction[] {
+  const actions: StateBasedAction[] = [];
+  const ref = { name: object.name, id: object.id };
+  const counters = object.counters ?? {};
+
+  // +1/+1 and -1/-1 counters annihilate in pairs
+  const plus = counters['+1/+1'] ?? 0;
+  const minus = counters['-1/-1'] ?? 0;
+  if (plus > 0 && minus > 0) {
+    const removed = Math.min(plus, minus);
+    actions.push({
+      type: 'counter_annihilation',
+      rule: 'CR 704.5q',
+      description: `Remove ${removed} +1/+1 and ${removed} -1/-1 counter${removed > 1 ? 's' : ''} from ${object.name}`,
+      player: controller,
+      objects: [ref],
+    });
+  }
+
+  if (!characteristics) return actions;
+
+  const isToken = 'type' in object && object.type === 'token';
+  const typeLine = characteristics.typeLine;
+  const isCreature = hasType(typeLine, 'Creature') || (isToken && typeLine === '' && characteristics.toughness !== null);
+
+  if (isCreature) {
+    const baseToughness = parseStat(characteristics.toughness);
+    if (baseToughness !== null) {
+      const toughness = baseToughness + counterModifiers(counters).toughness;
+      const damage = object.damage ?? 0;
+
+      if (toughness <= 0) {
+        actions.push({
+          type: 'zero_toughness',
+          rule: 'CR 704.5f',
+          description: `${object.name} has toughness ${toughness} and is put into its owner's graveyard`,
+          player: controller,
+          objects: [ref],
+        });
+      } else if (damage >= toughness && !hasKeyword(characteristics, 'Indestructible')) {
+        actions.push({
+          type: 'lethal_damage',
+          rule: 'CR 704.5g',
+          description: `${object.name} has ${damage} damage marked with toughness ${toughness} and is destroyed`,
+          player: controller,
+          objects: [ref],
+        });
+      }
+    }
+  }
+
+  if (hasType(typeLine, 'Planeswalker') && counters.loyalty === 0) {
+    actions.push({
+      type: 'zero_loyalty',
+      rule: 'CR 704.5i',
+      description: `${object.name} has 0 loyalty and is put into its owner's graveyard`,
+      player: controller,
+      objects: [ref],
+    });
+  }
+
+  if (hasType(typeLine, 'Aura')) {
+    const attachedTo = (object as Permanent).attachedTo;
+    if (!attachedTo || (!objectIds.has(attachedTo) && !playerIds.has(attachedTo))) {
+      actions.push({
+        type: 'unattached_aura',
+        rule: 'CR 704.5m',
+        description: attachedTo
+          ? `${object.name} is attached to "${attachedTo}", which is not on the battlefield, and is put into its owner's graveyard`
+          : `${object.name} is not attached to anything and is put into its owner's graveyard`,
+        player: controller,
+        objects: [ref],
+      });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Two or more legendary permanents with the same name controlled by the same player
+ */
+function checkLegendRule(battlefield: BattlefieldObject[]): StateBasedAction[] {
+  const groups = new Map<string, BattlefieldObject[]>();
+
+  for (const entry of battlefield) {
+    if (!entry.characteristics || !hasType(entry.characteristics.typeLine, 'Legendary')) continue;
+    const key = `${entry.controller}\u0000${entry.characteristics.name}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  const actions: StateBasedAction[] = [];
+  for (const entries of groups.values()) {
+    if (entries.length < 2) continue;
+    const { controller, characteristics } = entries[0];
+    actions.push({
+      type: 'legend_rule',
+      rule: 'CR 704.5j',
+      description: `Player "${controller}" controls ${entries.length} legendary permanents named ${characteristics!.name} and must choose one, putting the rest into their owners' graveyards`,
+      player: controller,
+      objects: entries.map(entry => ({ name: entry.object.name, id: entry.object.id })),
+    });
+  }
+
+  return actions;
+}
+
+// ============ Comparison ============
+
+// Words a Rules Clerk entry must contain to match a player-level SBA
+const PLAYER_SBA_KEYWORDS: Partial<Record<StateBasedActionType, string>> = {
+  zero_life: 'life',
+  poison: 'poison',
+  commander_damage: 'commander',
+};
+
+export interface StateBasedActionComparison {
+  agrees: boolean;
+  missedByRulesClerk: StateBasedAction[]; // Computed here, not mentioned by the LLM
+  unverified: string[]; // Reported by the LLM, not found here (may depend on effects we can't see)
+}
+
+/**
+ * Compare computed SBAs with the free-text list returned by the Rules Clerk.
+ * An SBA counts as reported when a Rules Clerk entry mentions one of its objects,
+ * or for player SBAs, the player together with the reason (life, poison, commander).
+ */
+export function compareStateBasedActions(
+  computed: StateBasedAction[],
+  reported: string[]
+): StateBasedActionComparison {
+  const reportedLower = reported.map(text => text.toLowerCase());
+  const matchedReports = new Set<number>();
+  const missedByRulesClerk: StateBasedAction[] = [];
+
+  for (const action of computed) {
+    const keyword = PLAYER_SBA_KEYWORDS[action.type];
+    const subjects = keyword
+      ? [action.player ?? '']
+      : (action.objects ?? []).map(object => object.name.toLowerCase());
+
+    const matches = reportedLower
+      .map((text, i) => {
+        const mentioned = keyword
+          ? text.includes(keyword) && subjects.some(subject => text.includes(subject.toLowerCase()))
+          : subjects.some(subject => text.includes(subject));
+        return mentioned ? i : -1;
+      })
+      .filter(i => i >= 0);
+
+    if (matches.length === 0) {
+      missedByRulesClerk.push(action);
+    }
+    matches.forEach(i => matchedReports.add(i));
+  }
+
+  const unverified = reported.filter((_, i) => !matchedReports.has(i));
+
+  return {
+    agrees: missedByRulesClerk.length === 0 && unverified.length === 0,
+    missedByRulesClerk,
+    unverified,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Card-type-aware zone validation
+ * Checks resolved cards against the zone they're in: nonpermanents on the
+ * battlefield, lands cast as spells, tokens outside the battlefield and
+ * summoning sickness on noncreatures
+ */
+
+import { z } from 'zod';
+import type { CardData } from '@/lib/schemas/grounding-packet';
+import {
+  getPlayers,
+  isCommandObject,
+  type CardReference,
+  type GameState,
+  type Permanent,
+} from '@/lib/schemas/game-state';
+import { normalizeName } from '@/lib/utils/card-names';
+import {
+  buildCardIndex,
+  getFaceCharacteristics,
+  getObjectCharacteristics,
+  hasType,
+  type CardIndex,
+  type FaceCharacteristics,
+} from './card-lookup';
+
+// ============ Schemas ============
+
+export const ZoneIssueCategorySchema = z.enum([
+  'battlefield_type', // An instant or sorcery on the battlefield
+  'stack_type', // A spell that can't be cast: a land, token or emblem
+  'token_zone', // A token or emblem card in a zone it can't be in
+  'summoning_sickness', // summoningSick on something that can't be a creature
+]);
+
+export type ZoneIssueCategory = z.infer<typeof ZoneIssueCategorySchema>;
+
+export const ZoneIssueSchema = z.object({
+  category: ZoneIssueCategorySchema,
+  player: z.string(), // Zone owner, or the controller for the stack
+  zone: z.string(),
+  name: z.string(),
+  id: z.string().optional(),
+  typeLine: z.string().nullable(), // null when the issue doesn't come from card data
+  message: z.string(),
+});
+
+export type ZoneIssue = z.infer<typeof ZoneIssueSchema>;
+
+export class ZoneValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: ZoneIssue[]
+  ) {
+    super(message);
+    this.name = 'ZoneValidationError';
+  }
+}
+
+// ============ Validation ============
+
+/**
+ * Check every resolved card's type line against its zone. Unresolved cards
+ * are skipped; face-down permanents are 2/2 creatures whatever they are.
+ */
+export function validateZones(state: GameState, cardDatabase: Record<string, CardData>): ZoneIssue[] {
+  const index = buildCardIndex(cardDatabase);
+  const issues: ZoneIssue[] = [];
+  const players = getPlayers(state);
+
+  // Cards named in hand, graveyard or exile resolve through the card index, which
+  // has no token cards, so a token there with no Token type line to go on is
+  // recognized by sharing a name with a token on the battlefield
+  const tokenNames = new Set(
+    players.flatMap(player =>
+      player.zones.battlefield
+        .filter(object => 'type' in object && object.type === 'token')
+        .map(object => normalizeName(object.name))
+    )
+  );
+
+  for (const player of players) {
+    const { zones } = player;
+
+    for (const object of zones.battlefield) {
+      const isToken = 'type' in object && object.type === 'token';
+      const characteristics = getObjectCharacteristics(object, index);
+      if (!characteristics) continue;
+      const { typeLine } = characteristics;
+      const base = { player: player.id, zone: 'battlefield', name: object.name, id: object.id, typeLine };
+
+      if (!isToken && !(object as Permanent).faceDown && (hasType(typeLine, 'Instant') || hasType(typeLine, 'Sorcery'))) {
+        issues.push({
+          ...base,
+          category: 'battlefield_type',
+          message: `${object.name} is ${article(typeLine)} ${typeLine} and can't be on the battlefield`,
+        });
+      }
+
+      if ('summoningSick' in object && object.summoningSick && !canBecomeCreature(characteristics)) {
+        issues.push({
+          ...base,
+          category: 'summoning_sickness',
+          message: `${object.name} is marked summoning sick but isn't a creature (${typeLine})`,
+        });
+      }
+    }
+
+    const otherZones: Array<[string, CardReference[]]> = [
+      ['hand', Array.isArray(zones.hand) ? zones.hand : zones.hand.known ?? []],
+      ['graveyard', zones.graveyard],
+      ['exile', zones.exile],
+      ['library', [...(zones.library?.knownTop ?? []), ...(zones.library?.knownBottom ?? [])]],
+      ['commandZone', (zones.commandZone ?? []).filter(entry => !isCommandObject(entry))],
+      ['sideboard', zones.sideboard ?? []],
+      ['companion', zones.companion ? [zones.companion] : []],
+      ['outsideGame', zones.outsideGame ?? []],
+    ];
+
+    for (const [zone, cards] of otherZones) {
+      for (const card of cards) {
+        const typeLine = cardTypeLine(index, card);
+        if (!isTokenOrEmblem(typeLine, card, tokenNames)) continue;
+        const what = typeLine ? `${article(typeLine)} ${typeLine}` : 'a token';
+        issues.push({
+          category: 'token_zone',
+          player: player.id,
+          zone,
+          name: card.name,
+          id: card.id,
+          typeLine,
+          message: zone === 'commandZone'
+            ? `${card.name} is ${what}; emblems go in the command zone as { "type": "emblem" } objects`
+            : `${card.name} is ${what}; tokens and emblems can't be in ${zone}`,
+        });
+      }
+    }
+  }
+
+  for (const item of state.stack) {
+    if (item.type !== 'spell') continue;
+
+    const card = index.get(item.source);
+    const typeLine = cardTypeLine(index, item.source);
+    const base = { player: item.controller, zone: 'stack', name: item.source.name, id: item.id, typeLine };
+
+    // Modal double-faced cards with a land face are castable through their other face
+    const faces = item.source.faceIndex !== undefined || !card?.faces
+      ? [typeLine]
+      : card.faces.map(face => face.typeLine);
+    if (faces.every(face => face !== null && hasType(face, 'Land'))) {
+      issues.push({
+        ...base,
+        category: 'stack_type',
+        message: `${item.source.name} is a land; lands are played, not cast, so it can't be a spell on the stack`,
+      });
+    } else if (isTokenOrEmblem(typeLine, item.source, tokenNames)) {
+      issues.push({
+        ...base,
+        category: 'stack_type',
+        message: `${item.source.name} is a token or emblem and can't be cast; use type "ability" or "trigger" for its abilities`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function cardTypeLine(index: CardIndex, ref: CardReference): string | null {
+  const card = index.get(ref);
+  return card ? getFaceCharacteristics(card, ref.faceIndex ?? 0).typeLine : null;
+}
+
+/**
+ * Creatures, and Vehicles and lands that can become one, care about summoning sickness
+ */
+function canBecomeCreature({ typeLine, oracleText }: FaceCharacteristics): boolean {
+  return hasType(typeLine, 'Creature')
+    || hasType(typeLine, 'Vehicle')
+    || hasType(typeLine, 'Spacecraft')
+    || /becomes? an? .*creature/i.test(oracleText ?? '');
+}
+
+function isTokenOrEmblem(typeLine: string | null, card: CardReference, tokenNames: Set<string>): boolean {
+  if (typeLine) return hasType(typeLine, 'Token') || hasType(typeLine, 'Emblem');
+  return tokenNames.has(normalizeName(card.name));
+}
+
+function article(typeLine: string): string {
+  return /^[aeiou]/i.test(typeLine) ? 'an' : 'a';
+}
+
+/**
+ * One line per issue for warnings, e.g. "[battlefield_type] opponent: Lightning Bolt is an Instant ..."
+ */
+export function describeZoneIssue(issue: ZoneIssue): string {
+  return `[${issue.category}] ${issue.player}: ${issue.message}`;
+}
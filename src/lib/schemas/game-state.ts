@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { parseManaPool } from '@/lib/rules/mana-cost';
 
 // ============ Card References ============
 
@@ -11,10 +12,51 @@ export const CardReferenceSchema = z.object({
   name: z.string().min(1, 'Card name is required'),
   oracleId: z.string().optional(),
   faceIndex: z.number().int().min(0).max(1).optional(),
+  id: z.string().optional(), // Stable object ID, kept as the card changes zones
 });
 
 export type CardReference = z.infer<typeof CardReferenceSchema>;
 
+// ============ Players ============
+
+// Two-player states use the ids 'you' and 'opponent'; multiplayer states use
+// whatever ids the players array declares.
+export const PlayerIdSchema = z.string().min(1, 'Player ID is required');
+
+export type PlayerId = z.infer<typeof PlayerIdSchema>;
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+export const DEFAULT_PERSPECTIVE: PlayerId = 'you';
+
+// ============ Permanent Status ============
+
+// Face-down permanents are nameless 2/2 creatures (CR 708.2); `name` is the
+// card underneath
+export const FaceDownSchema = z.object({
+  kind: z.enum(['morph', 'megamorph', 'manifest', 'disguise', 'cloak', 'other']).default('other'),
+  known: z.boolean().optional(), // Whether the viewer knows the card; defaults to true for their own
+});
+
+export type FaceDown = z.infer<typeof FaceDownSchema>;
+
+export const PowerToughnessEffectSchema = z.object({
+  power: z.number().int(),
+  toughness: z.number().int(),
+  mode: z.enum(['modify', 'set']).default('modify'), // "+2/+2" or "base power and toughness 0/1"
+  source: z.string().optional(), // e.g. "Giant Growth"
+});
+
+export type PowerToughnessEffect = z.infer<typeof PowerToughnessEffectSchema>;
+
+// Shared by cards and tokens on the battlefield
+const BattlefieldStatusShape = {
+  phasedOut: z.boolean().optional(), // Treated as though it doesn't exist (CR 702.26)
+  copyOf: CardReferenceSchema.optional(), // Has the copiable values of this card (Clone, token copies)
+  grantedAbilities: z.array(z.string()).optional(), // From other effects, e.g. "Flying", "Hexproof"
+  powerToughnessEffects: z.array(PowerToughnessEffectSchema).optional(),
+};
+
 // ============ Permanents ============
 
 export const PermanentSchema = CardReferenceSchema.extend({
@@ -23,9 +65,15 @@ export const PermanentSchema = CardReferenceSchema.extend({
   summoningSick: z.boolean().default(false),
   counters: z.record(z.string(), z.number()).optional(),
   attachedTo: z.string().optional(), // ID of permanent this is attached to
-  controller: z.enum(['you', 'opponent']).optional(),
+  controller: PlayerIdSchema.optional(),
   damage: z.number().int().min(0).optional(),
 
+  // Characteristics
+  faceDown: FaceDownSchema.optional(),
+  transformed: z.boolean().optional(), // Back face of a transforming DFC is up (faceIndex 1)
+  flipped: z.boolean().optional(), // Flip card turned around (faceIndex 1)
+  ...BattlefieldStatusShape,
+
   // Combat state
   attacking: z.boolean().optional(),
   attackingTarget: z.string().optional(), // Player ID or planeswalker ID
@@ -52,8 +100,9 @@ export const TokenSchema = z.object({
   createdBy: z.string().optional(), // oracle_id of the card that created it
   tapped: z.boolean().default(false),
   counters: z.record(z.string(), z.number()).optional(),
-  controller: z.enum(['you', 'opponent']).optional(),
+  controller: PlayerIdSchema.optional(),
   damage: z.number().int().min(0).optional(),
+  ...BattlefieldStatusShape,
 
   // Combat state
   attacking: z.boolean().optional(),
@@ -72,7 +121,7 @@ export const StackItemSchema = z.object({
   source: CardReferenceSchema,
   abilityText: z.string().optional(), // For abilities/triggers
   targets: z.array(z.string()).optional(),
-  controller: z.enum(['you', 'opponent']),
+  controller: PlayerIdSchema,
   modes: z.array(z.string()).optional(), // For modal spells/abilities
 });
 
@@ -94,13 +143,89 @@ export const HandSchema = z.union([
   }),
 ]);
 
+export const DecklistEntrySchema = z.object({
+  name: z.string().min(1, 'Card name is required'),
+  count: z.number().int().positive(),
+});
+
+export const DecklistSchema = z.object({
+  cards: z.array(DecklistEntrySchema), // Main deck, including cards already drawn or played
+  outs: z.array(z.string()).optional(), // Card names or classes ("land", "creature") to report draw odds for
+});
+
+export type Decklist = z.infer<typeof DecklistSchema>;
+
+// ============ Command Zone ============
+
+const CommandObjectShape = {
+  name: z.string().min(1, 'Name is required'),
+  oracleId: z.string().optional(),
+  id: z.string().optional(), // Stable object ID
+  text: z.string().optional(), // Its own text, for objects that don't resolve
+};
+
+// An emblem, named like Scryfall's "Chandra, Torch of Defiance Emblem" (CR 114)
+export const EmblemSchema = z.object({
+  type: z.literal('emblem'),
+  ...CommandObjectShape,
+  source: z.string().optional(), // Planeswalker or card that created it
+});
+
+// A dungeon being ventured through (CR 309)
+export const DungeonSchema = z.object({
+  type: z.literal('dungeon'),
+  ...CommandObjectShape,
+  room: z.string().optional(), // Room the venture marker is on
+});
+
+// The face-up plane or phenomenon in Planechase (CR 311, 312)
+export const PlaneSchema = z.object({
+  type: z.literal('plane'),
+  ...CommandObjectShape,
+});
+
+// An Archenemy scheme; ongoing schemes stay face up until abandoned (CR 314)
+export const SchemeSchema = z.object({
+  type: z.literal('scheme'),
+  ...CommandObjectShape,
+  ongoing: z.boolean().optional(),
+});
+
+export const CommandObjectSchema = z.discriminatedUnion('type', [EmblemSchema, DungeonSchema, PlaneSchema, SchemeSchema]);
+
+export type CommandObject = z.infer<typeof CommandObjectSchema>;
+export type CommandObjectType = CommandObject['type'];
+
+/**
+ * Check whether a command zone entry is an emblem, dungeon, plane or scheme rather than a card
+ */
+export function isCommandObject(entry: CardReference | CommandObject): entry is CommandObject {
+  return 'type' in entry;
+}
+
+/**
+ * The Scryfall name of an emblem: "Chandra, Torch of Defiance" -> "Chandra, Torch of Defiance Emblem"
+ */
+export function emblemCardName(emblem: { name: string }): string {
+  return /\bemblem$/i.test(emblem.name) ? emblem.name : `${emblem.name} Emblem`;
+}
+
 export const PlayerZonesSchema = z.object({
-  battlefield: z.array(z.union([PermanentSchema, TokenSchema])).default([]),
+  // Tokens first: PermanentSchema would otherwise match them and strip their type
+  battlefield: z.array(z.union([TokenSchema, PermanentSchema])).default([]),
   hand: HandSchema.default([]),
   graveyard: z.array(CardReferenceSchema).default([]),
   exile: z.array(CardReferenceSchema).default([]),
   library: LibrarySchema.optional(),
-  commandZone: z.array(CardReferenceSchema).optional(), // For Commander
+  // Commanders and other cards, plus emblems, dungeons, planes and schemes.
+  // Command objects first: CardReferenceSchema would otherwise strip their type
+  commandZone: z.array(z.union([CommandObjectSchema, CardReferenceSchema])).optional(),
+  decklist: DecklistSchema.optional(), // For draw odds; only meaningful for the advised player
+
+  // Outside the game (CR 400.11)
+  sideboard: z.array(CardReferenceSchema).optional(), // Bo3 sideboard; Wishes and Learn fetch from it in tournaments
+  companion: CardReferenceSchema.optional(), // Revealed companion, until it's put into hand
+  outsideGame: z.array(CardReferenceSchema).optional(), // Other cards outside the game, e.g. a casual wish board
 });
 
 export type PlayerZones = z.infer<typeof PlayerZonesSchema>;
@@ -159,28 +284,128 @@ export const ArenaStateSchema = z.object({
   fullControlEnabled: z.boolean().optional(),
 });
 
+// ============ Effects Ledger ============
+
+// When an effect ends, or when a delayed trigger triggers
+export const EffectDurationSchema = z.enum([
+  'end_of_turn', // "until end of turn": ends in the cleanup step (CR 514.2)
+  'end_of_combat', // "until end of combat"
+  'next_end_step', // "at the beginning of the next end step"
+  'next_upkeep', // "at the beginning of the next upkeep"
+  'next_turn', // "until your next turn", or the controller's next turn for extra turns and skips
+  'while_source', // "for as long as" its source stays on the battlefield
+  'permanent', // Rest of the game
+]);
+
+export type EffectDuration = z.infer<typeof EffectDurationSchema>;
+
+// Effects that don't live on a permanent: continuous effects from resolved
+// spells and abilities, delayed triggers, extra turns and combats, skips
+export const ActiveEffectSchema = z.object({
+  id: z.string().optional(),
+  kind: z.enum(['continuous', 'delayed_trigger', 'extra_turn', 'extra_combat', 'skip']),
+  source: z.string(), // Card or object ID that created it
+  controller: PlayerIdSchema.optional(), // Defaults to the active player
+  text: z.string(), // e.g. "Creatures you control get +2/+0", "Return the exiled card to the battlefield"
+  duration: EffectDurationSchema,
+  createdTurn: z.number().int().positive().optional(), // Stamped with the current turn when missing
+  createdPhase: PhaseSchema.optional(), // Stamped with the current phase along with createdTurn
+  step: PhaseSchema.optional(), // Skips: the step or phase skipped
+  affects: z.array(z.string()).optional(), // Object IDs or names it applies to
+}).superRefine((effect, ctx) => {
+  if (effect.kind === 'skip' && !effect.step) {
+    ctx.addIssue({ code: 'custom', message: 'A skip needs the step it skips', path: ['step'] });
+  }
+});
+
+export type ActiveEffect = z.infer<typeof ActiveEffectSchema>;
+
+// ============ Player Counters and Designations ============
+
+// Counters a player can have (CR 122.1), e.g. { poison: 3 }
+export const PLAYER_COUNTER_KINDS = ['poison', 'energy', 'experience', 'rad', 'ticket'] as const;
+
+export type PlayerCounterKind = typeof PLAYER_COUNTER_KINDS[number];
+
+export const PlayerCountersSchema = z.object({
+  poison: z.number().int().min(0).optional(), // 10 or more loses the game (CR 704.5c)
+  energy: z.number().int().min(0).optional(),
+  experience: z.number().int().min(0).optional(),
+  rad: z.number().int().min(0).optional(), // Milled at the beginning of precombat main phase
+  ticket: z.number().int().min(0).optional(),
+});
+
+export type PlayerCounters = z.infer<typeof PlayerCountersSchema>;
+
+// Designations a player can have (CR 724-725, 702.131, 702.179)
+export const PlayerDesignationsSchema = z.object({
+  monarch: z.boolean().optional(), // Draws at their end step; taken by combat damage
+  initiative: z.boolean().optional(), // Ventures into Undercity; taken by combat damage
+  citysBlessing: z.boolean().optional(), // Ascend; permanent once gained
+  speed: z.number().int().min(0).max(4).optional(), // Start your engines!; 4 is max speed
+});
+
+export type PlayerDesignations = z.infer<typeof PlayerDesignationsSchema>;
+
+// Day/night is a game designation rather than a player one (CR 730)
+export const DayNightSchema = z.enum(['day', 'night']);
+
+export type DayNight = z.infer<typeof DayNightSchema>;
+
+// ============ Seats (Multiplayer) ============
+
+export const PlayerSchema = z.object({
+  id: PlayerIdSchema,
+  name: z.string().optional(),
+  turnOrder: z.number().int().min(0), // 0 = first player in turn order
+  life: z.number().int().default(20),
+  zones: PlayerZonesSchema,
+  manaPool: ManaPoolSchema.optional(),
+  // Commander damage taken by this player, keyed by the source commander
+  // (permanent ID, oracle_id, or card name)
+  commanderDamage: z.record(z.string(), z.number().int().min(0)).optional(),
+  counters: PlayerCountersSchema.optional(),
+  designations: PlayerDesignationsSchema.optional(),
+  eliminated: z.boolean().optional(),
+});
+
+export type Player = z.infer<typeof PlayerSchema>;
+
 // ============ Full Game State ============
 
+// Bump with a migration in migrations.ts whenever a change would reject or
+// misread older documents
+export const GAME_STATE_VERSION = 2;
+
 export const GameStateSchema = z.object({
+  // Older documents go through migrateGameState first
+  schemaVersion: z.literal(GAME_STATE_VERSION).default(GAME_STATE_VERSION),
+
   // Turn structure
   turn: z.number().int().positive(),
   phase: PhaseSchema,
-  priority: z.enum(['you', 'opponent']),
-  activePlayer: z.enum(['you', 'opponent']).default('you'),
+  priority: PlayerIdSchema,
+  activePlayer: PlayerIdSchema.default('you'),
+
+  // The player being advised (defaults to 'you')
+  perspective: PlayerIdSchema.optional(),
 
-  // Life totals
+  // Seat-based players (multiplayer). When present, replaces you/opponent/life.
+  players: z.array(PlayerSchema).min(MIN_PLAYERS).max(MAX_PLAYERS).optional(),
+
+  // Life totals (two-player)
   life: z.object({
     you: z.number().int(),
     opponent: z.number().int(),
   }).default({ you: 20, opponent: 20 }),
 
-  // Mana pools
+  // Mana pools (two-player)
   manaPool: ManaPoolSchema.optional(),
   opponentManaPool: ManaPoolSchema.optional(),
 
-  // Player zones
-  you: PlayerZonesSchema,
-  opponent: PlayerZonesSchema,
+  // Player zones (two-player)
+  you: PlayerZonesSchema.optional(),
+  opponent: PlayerZonesSchema.optional(),
 
   // The stack
   stack: z.array(StackItemSchema).default([]),
@@ -192,9 +417,27 @@ export const GameStateSchema = z.object({
   // Arena-specific state
   arena: ArenaStateSchema.optional(),
 
-  // Commander-specific
+  // Commander-specific (two-player; multiplayer tracks this per player)
   commanderDamage: z.record(z.string(), z.number()).optional(),
 
+  // Player counters (two-player; multiplayer tracks these per player)
+  playerCounters: z.object({
+    you: PlayerCountersSchema.optional(),
+    opponent: PlayerCountersSchema.optional(),
+  }).optional(),
+
+  // Player designations (two-player; multiplayer tracks these per player)
+  designations: z.object({
+    you: PlayerDesignationsSchema.optional(),
+    opponent: PlayerDesignationsSchema.optional(),
+  }).optional(),
+
+  // Day/night, once it has become day or night
+  dayNight: DayNightSchema.optional(),
+
+  // Continuous effects, delayed triggers, extra turns and skips not tied to a permanent
+  effects: z.array(ActiveEffectSchema).optional(),
+
   // Revealed info tracking (for constrained info mode)
   revealedInfo: z.object({
     opponentHand: z.array(CardReferenceSchema).optional(),
@@ -204,6 +447,69 @@ export const GameStateSchema = z.object({
   // Land drops
   landsPlayedThisTurn: z.number().int().min(0).default(0),
   maxLandsPerTurn: z.number().int().min(1).default(1),
+}).superRefine((state, ctx) => {
+  // Only one player can be the monarch or have the initiative (CR 724.2, 725.2)
+  const designated = state.players
+    ? state.players.map((player, index) => ({ designations: player.designations, path: ['players', index, 'designations'] }))
+    : (['you', 'opponent'] as const).map(seat => ({ designations: state.designations?.[seat], path: ['designations', seat] }));
+  for (const designation of ['monarch', 'initiative'] as const) {
+    const holders = designated.filter(entry => entry.designations?.[designation]);
+    if (holders.length > 1) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Only one player can have the ${designation === 'monarch' ? 'monarch designation' : 'initiative'}`,
+        path: [...holders[1].path, designation],
+      });
+    }
+  }
+
+  // Two-player states know only 'you' and 'opponent'; multiplayer states the ids they declare
+  const ids = new Set<string>();
+  if (!state.players) {
+    if (!state.you || !state.opponent) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Game state needs either a players array or both you and opponent zones',
+        path: state.you ? ['opponent'] : ['you'],
+      });
+    }
+    ids.add('you');
+    ids.add('opponent');
+  } else {
+    state.players.forEach((player, index) => {
+      if (ids.has(player.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate player ID "${player.id}"`,
+          path: ['players', index, 'id'],
+        });
+      }
+      ids.add(player.id);
+    });
+  }
+
+  const checkPlayerRef = (id: string | undefined, path: (string | number)[]) => {
+    if (id !== undefined && !ids.has(id)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unknown player ID "${id}"`,
+        path,
+      });
+    }
+  };
+
+  const battlefields = state.players
+    ? state.players.map((player, index) => ({ battlefield: player.zones.battlefield, path: ['players', index, 'zones', 'battlefield'] }))
+    : (['you', 'opponent'] as const).map(seat => ({ battlefield: state[seat]?.battlefield ?? [], path: [seat, 'battlefield'] }));
+  for (const { battlefield, path } of battlefields) {
+    battlefield.forEach((object, index) => checkPlayerRef(object.controller, [...path, index, 'controller']));
+  }
+
+  state.stack.forEach((item, index) => checkPlayerRef(item.controller, ['stack', index, 'controller']));
+  state.effects?.forEach((effect, index) => checkPlayerRef(effect.controller, ['effects', index, 'controller']));
+  checkPlayerRef(state.priority, ['priority']);
+  checkPlayerRef(state.activePlayer, ['activePlayer']);
+  checkPlayerRef(state.perspective ?? DEFAULT_PERSPECTIVE, ['perspective']);
 });
 
 export type GameState = z.infer<typeof GameStateSchema>;
@@ -213,7 +519,7 @@ export type GameState = z.infer<typeof GameStateSchema>;
 export const MinimumGameStateSchema = z.object({
   turn: z.number().int().positive(),
   phase: PhaseSchema,
-  priority: z.enum(['you', 'opponent']),
+  priority: PlayerIdSchema,
 });
 
 export type MinimumGameState = z.infer<typeof MinimumGameStateSchema>;
@@ -229,8 +535,11 @@ export const QuickEntrySchema = z.object({
   yourTurn: z.boolean().default(true),
   havePriority: z.boolean().default(true),
 
-  // Available mana (text like "WUBRG" or "2WW")
-  availableMana: z.string().optional(),
+  // Available mana (text like "WUBRG", "2WW" or "{R}{R}")
+  availableMana: z.string().refine(
+    mana => parseManaPool(mana).unsupported.length === 0,
+    { message: 'Available mana may only contain W, U, B, R, G, C and generic amounts' }
+  ).optional(),
 
   // Cards (simple name lists)
   yourBattlefield: z.array(z.string()).default([]),
@@ -262,32 +571,12 @@ export function expandSimplifiedPhase(simple: z.infer<typeof SimplifiedPhaseSche
 }
 
 /**
- * Parse mana string like "2WW" or "WUBRG" into ManaPool
+ * Parse mana string like "2WW", "WUBRG" or "{R}{R}{2}" into ManaPool.
+ * Symbols that can't be floating mana ({W/U}, {X}) are ignored; use
+ * parseManaPool to find out which.
  */
 export function parseManaString(manaStr: string): ManaPool {
-  const pool: ManaPool = { W: 0, U: 0, B: 0, R: 0, G: 0, C: 0 };
-
-  let i = 0;
-  while (i < manaStr.length) {
-    const char = manaStr[i].toUpperCase();
-
-    if (['W', 'U', 'B', 'R', 'G', 'C'].includes(char)) {
-      pool[char as keyof ManaPool]++;
-      i++;
-    } else if (/\d/.test(char)) {
-      // Parse numeric colorless mana
-      let num = '';
-      while (i < manaStr.length && /\d/.test(manaStr[i])) {
-        num += manaStr[i];
-        i++;
-      }
-      pool.C += parseInt(num, 10);
-    } else {
-      i++; // Skip unknown characters
-    }
-  }
-
-  return pool;
+  return parseManaPool(manaStr).pool;
 }
 
 /**
@@ -340,6 +629,142 @@ export function validateMinimumState(state: unknown): state is MinimumGameState
   return MinimumGameStateSchema.safeParse(state).success;
 }
 
+/**
+ * Seat view of a player, shared by two-player and multiplayer states
+ */
+export interface PlayerView {
+  id: PlayerId;
+  name?: string;
+  turnOrder: number;
+  life: number;
+  zones: PlayerZones;
+  manaPool?: ManaPool;
+  commanderDamage: Record<string, number>;
+  counters: PlayerCounters;
+  designations: PlayerDesignations;
+  eliminated: boolean;
+}
+
+const EMPTY_ZONES: PlayerZones = {
+  battlefield: [],
+  hand: [],
+  graveyard: [],
+  exile: [],
+};
+
+/**
+ * Get all players in turn order.
+ * Two-player states are mapped onto the seats 'you' and 'opponent'.
+ */
+export function getPlayers(state: GameState): PlayerView[] {
+  if (state.players) {
+    return [...state.players]
+      .sort((a, b) => a.turnOrder - b.turnOrder)
+      .map(player => ({
+        id: player.id,
+        name: player.name,
+        turnOrder: player.turnOrder,
+        life: player.life,
+        zones: player.zones,
+        manaPool: player.manaPool,
+        commanderDamage: player.commanderDamage ?? {},
+        counters: player.counters ?? {},
+        designations: player.designations ?? {},
+        eliminated: player.eliminated ?? false,
+      }));
+  }
+
+  return [
+    {
+      id: 'you',
+      turnOrder: 0,
+      life: state.life.you,
+      zones: state.you ?? EMPTY_ZONES,
+      manaPool: state.manaPool,
+      commanderDamage: state.commanderDamage ?? {},
+      counters: state.playerCounters?.you ?? {},
+      designations: state.designations?.you ?? {},
+      eliminated: false,
+    },
+    {
+      id: 'opponent',
+      turnOrder: 1,
+      life: state.life.opponent,
+      zones: state.opponent ?? EMPTY_ZONES,
+      manaPool: state.opponentManaPool,
+      commanderDamage: {},
+      counters: state.playerCounters?.opponent ?? {},
+      designations: state.designations?.opponent ?? {},
+      eliminated: false,
+    },
+  ];
+}
+
+/**
+ * Get a single player by ID
+ */
+export function getPlayer(state: GameState, id: PlayerId): PlayerView | undefined {
+  return getPlayers(state).find(player => player.id === id);
+}
+
+/**
+ * Get the ID of the player being advised
+ */
+export function getPerspective(state: GameState): PlayerId {
+  return state.perspective ?? DEFAULT_PERSPECTIVE;
+}
+
+/**
+ * Get every player other than the given one, in turn order
+ */
+export function getOpponents(state: GameState, id: PlayerId = getPerspective(state)): PlayerView[] {
+  return getPlayers(state).filter(player => player.id !== id);
+}
+
+/**
+ * Check whether a game state uses the seat-based multiplayer model
+ */
+export function isMultiplayer(state: GameState): boolean {
+  return state.players !== undefined;
+}
+
+/**
+ * The face a permanent shows: faceIndex, or the back face when transformed or flipped
+ */
+export function getShownFaceIndex(permanent: Permanent): number {
+  return permanent.faceIndex ?? (permanent.transformed || permanent.flipped ? 1 : 0);
+}
+
+export const HIDDEN_FACE_DOWN_NAME = 'Face-down creature';
+
+/**
+ * Replace face-down permanents the viewer can't know with anonymous ones.
+ * Players know their own face-down permanents unless faceDown.known says otherwise.
+ */
+export function hideFaceDownCards(state: GameState, viewer: PlayerId = getPerspective(state)): GameState {
+  const hideZones = (zones: PlayerZones, owner: PlayerId): PlayerZones => ({
+    ...zones,
+    battlefield: zones.battlefield.map(object => {
+      if (!('faceDown' in object) || !object.faceDown) return object;
+      const known = object.faceDown.known ?? (object.controller ?? owner) === viewer;
+      if (known) return { ...object, faceDown: { ...object.faceDown, known: true } };
+
+      const hidden: Permanent = { ...object, name: HIDDEN_FACE_DOWN_NAME, faceDown: { ...object.faceDown, known: false } };
+      delete hidden.oracleId;
+      delete hidden.faceIndex;
+      delete hidden.copyOf;
+      return hidden;
+    }),
+  });
+
+  return {
+    ...state,
+    you: state.you && hideZones(state.you, 'you'),
+    opponent: state.opponent && hideZones(state.opponent, 'opponent'),
+    players: state.players?.map(player => ({ ...player, zones: hideZones(player.zones, player.id) })),
+  };
+}
+
 /**
  * Extract all card names from a game state
  */
@@ -348,34 +773,43 @@ export function extractCardNames(state: GameState): string[] {
 
   const addCardsFromZone = (cards: (CardReference | Permanent | Token)[]) => {
     for (const card of cards) {
+      // Unknown face-down cards stay unnamed
+      if ('faceDown' in card && card.faceDown?.known === false) continue;
       if ('name' in card && card.name) {
         names.push(card.name);
       }
+      if ('copyOf' in card && card.copyOf) {
+        names.push(card.copyOf.name);
+      }
     }
   };
 
-  // Your zones
-  addCardsFromZone(state.you.battlefield);
-  if (Array.isArray(state.you.hand)) {
-    addCardsFromZone(state.you.hand);
-  }
-  addCardsFromZone(state.you.graveyard);
-  addCardsFromZone(state.you.exile);
-  if (state.you.commandZone) {
-    addCardsFromZone(state.you.commandZone);
-  }
-
-  // Opponent zones
-  addCardsFromZone(state.opponent.battlefield);
-  if (Array.isArray(state.opponent.hand)) {
-    addCardsFromZone(state.opponent.hand);
-  } else if (state.opponent.hand.known) {
-    addCardsFromZone(state.opponent.hand.known);
-  }
-  addCardsFromZone(state.opponent.graveyard);
-  addCardsFromZone(state.opponent.exile);
-  if (state.opponent.commandZone) {
-    addCardsFromZone(state.opponent.commandZone);
+  for (const { zones } of getPlayers(state)) {
+    addCardsFromZone(zones.battlefield);
+    if (Array.isArray(zones.hand)) {
+      addCardsFromZone(zones.hand);
+    } else if (zones.hand.known) {
+      addCardsFromZone(zones.hand.known);
+    }
+    addCardsFromZone(zones.graveyard);
+    addCardsFromZone(zones.exile);
+    for (const entry of zones.commandZone ?? []) {
+      if (!isCommandObject(entry)) {
+        addCardsFromZone([entry]);
+      } else if (entry.type === 'emblem') {
+        // Emblems resolve as Scryfall's emblem cards, or from the text of their source
+        names.push(emblemCardName(entry));
+        if (entry.source) names.push(entry.source);
+      } else {
+        names.push(entry.name);
+      }
+    }
+    if (zones.decklist) {
+      addCardsFromZone(zones.decklist.cards);
+    }
+    addCardsFromZone(zones.sideboard ?? []);
+    if (zones.companion) addCardsFromZone([zones.companion]);
+    addCardsFromZone(zones.outsideGame ?? []);
   }
 
   // Stack
@@ -4,9 +4,41 @@
  */
 
 import { z } from 'zod';
-import { GameStateSchema, type GameState, extractCardNames } from './game-state';
+import {
+  GameStateSchema,
+  type GameState,
+  type PlayerView,
+  type PlayerZones,
+  type Permanent,
+  type Token,
+  extractCardNames,
+  getPlayer,
+  getPlayers,
+  getPerspective,
+  getShownFaceIndex,
+  hideFaceDownCards,
+  isMultiplayer,
+} from './game-state';
 import { type PresetKey, getPreset } from '@/lib/utils/presets';
-import { resolveCardNames, type CardWithRelations, type ResolveResult } from '@/lib/scryfall/card-resolver';
+import {
+  resolveCardNames,
+  resolveTokens,
+  type CardWithRelations,
+  type ResolveResult,
+  type TokenResolveResult,
+} from '@/lib/scryfall/card-resolver';
+import type { Token as TokenCard } from '@prisma/client';
+import { StateBasedActionSchema, checkStateBasedActions } from '@/lib/rules/state-based-actions';
+import { AvailableManaSchema, describeManaSource, findManaSources } from '@/lib/rules/mana-solver';
+import { buildCardIndex, getObjectCharacteristics, type CardIndex } from '@/lib/rules/card-lookup';
+import { CombatOutcomeSchema, simulateCombat } from '@/lib/rules/combat';
+import { DrawOddsSchema, computeDrawOdds, describeDrawOut } from '@/lib/rules/draw-odds';
+import { CommandEffectSchema, describeCommandEffect, describeCommandZone } from '@/lib/rules/command-zone';
+import { clearExpiredEffects, describeEffect } from '@/lib/rules/effects';
+import { ZoneValidationError, describeZoneIssue, validateZones, type ZoneIssue } from '@/lib/rules/zone-validation';
+import { ManaCostSchema, describeManaCost, parseManaCost, type ManaCost } from '@/lib/rules/mana-cost';
+import { LegalityIssueSchema, checkLegality, normalizeFormat, type LegalityIssue } from '@/lib/rules/legality';
+import { normalizeName } from '@/lib/utils/card-names';
 
 // ============ Card Data for LLM ============
 
@@ -14,14 +46,19 @@ export const CardDataSchema = z.object({
   oracleId: z.string(),
   name: z.string(),
   manaCost: z.string().nullable(),
+  parsedManaCost: ManaCostSchema.optional(), // manaCost broken into symbols
   cmc: z.number(),
   typeLine: z.string(),
   oracleText: z.string().nullable(),
+  power: z.string().nullable().optional(),
+  toughness: z.string().nullable().optional(),
+  loyalty: z.string().nullable().optional(),
   colors: z.array(z.string()),
   keywords: z.array(z.string()),
   faces: z.array(z.object({
     name: z.string(),
     manaCost: z.string().nullable(),
+    parsedManaCost: ManaCostSchema.optional(),
     typeLine: z.string(),
     oracleText: z.string().nullable(),
     power: z.string().nullable(),
@@ -49,13 +86,41 @@ export const GroundingContextSchema = z.object({
 
 export type GroundingContext = z.infer<typeof GroundingContextSchema>;
 
+// ============ Permanent Status ============
+
+// Battlefield objects whose current characteristics differ from their printed front face
+export const PermanentStatusSchema = z.object({
+  player: z.string(),
+  id: z.string().optional(),
+  name: z.string(), // As given in the game state
+  shownAs: z.string(), // Name it has now: the face up, the card it copies, or no name when face down
+  status: z.array(z.string()), // e.g. "transformed", "copy of Tarmogoyf", "phased out"
+  typeLine: z.string().nullable(),
+  oracleText: z.string().nullable(), // Text of what it is now; null when hidden or unresolved
+  power: z.string().nullable(),
+  toughness: z.string().nullable(),
+});
+
+export type PermanentStatus = z.infer<typeof PermanentStatusSchema>;
+
 // ============ Grounding Packet ============
 
+// Bump with a migration in migrations.ts, like GAME_STATE_VERSION
+export const GROUNDING_PACKET_VERSION = 2;
+
 export const GroundingPacketSchema = z.object({
+  schemaVersion: z.literal(GROUNDING_PACKET_VERSION).default(GROUNDING_PACKET_VERSION),
   gameState: GameStateSchema,
   cardDatabase: z.record(z.string(), CardDataSchema), // oracleId -> CardData
   context: GroundingContextSchema,
   unresolvedCards: z.array(z.string()).optional(), // Cards that couldn't be resolved
+  stateBasedActions: z.array(StateBasedActionSchema).optional(), // Computed deterministically
+  availableMana: AvailableManaSchema.optional(), // Mana sources of the player with priority
+  permanentStatus: z.array(PermanentStatusSchema).optional(), // Face-down, transformed, copies, phased out...
+  combat: CombatOutcomeSchema.optional(), // Simulated damage for the attacks and blocks already declared
+  drawOdds: DrawOddsSchema.optional(), // From the advised player's decklist
+  commandZone: z.array(CommandEffectSchema).optional(), // Emblems, dungeons, planes and schemes as ongoing effects
+  legality: z.array(LegalityIssueSchema).optional(), // Cards not legal in context.format
 });
 
 export type GroundingPacket = z.infer<typeof GroundingPacketSchema>;
@@ -65,7 +130,13 @@ export type GroundingPacket = z.infer<typeof GroundingPacketSchema>;
 export interface GroundingResult {
   packet: GroundingPacket;
   resolutionResults: ResolveResult[];
+  tokenResults: TokenResolveResult[]; // Battlefield tokens; unresolved ones are also tried as card names
   warnings: string[];
+  zoneIssues: ZoneIssue[]; // Cards in zones their type doesn't allow; also listed in warnings
+}
+
+export interface GroundingOptions {
+  strict?: boolean; // Throw a ZoneValidationError instead of warning about zone issues
 }
 
 // ============ Builder ============
@@ -74,16 +145,41 @@ export interface GroundingResult {
  * Build a grounding packet from game state
  */
 export async function buildGroundingPacket(
-  gameState: GameState,
+  inputState: GameState,
   presetKey: PresetKey,
-  format?: string
+  format?: string,
+  options: GroundingOptions = {}
 ): Promise<GroundingResult> {
   const preset = getPreset(presetKey);
   const warnings: string[] = [];
   const unresolvedCards: string[] = [];
 
+  // Face-down cards the advised player can't know must not leak their name or text
+  const visibleState = hideFaceDownCards(inputState);
+
+  // Effects and delayed triggers the turn and phase have moved past are dropped
+  const { state: gameState, cleared } = clearExpiredEffects(visibleState);
+  for (const effect of cleared) {
+    warnings.push(`Cleared expired effect: ${describeEffect(effect)}`);
+  }
+
+  // Battlefield tokens resolve to Scryfall's token cards, by what made them or by name
+  const tokens = getPlayers(gameState).flatMap(player =>
+    player.zones.battlefield.filter((object): object is Token => 'type' in object && object.type === 'token')
+  );
+  const tokenResults = await resolveTokens(tokens.map(token => ({
+    name: token.name,
+    createdBy: token.createdBy,
+    power: token.characteristics.power,
+    toughness: token.characteristics.toughness,
+    colors: token.characteristics.colors,
+  })));
+  const resolvedTokenNames = new Set(
+    tokenResults.filter(result => result.token).map(result => normalizeName(result.input))
+  );
+
   // Extract all card names from the game state
-  const cardNames = extractCardNames(gameState);
+  const cardNames = extractCardNames(gameState).filter(name => !resolvedTokenNames.has(normalizeName(name)));
 
   // Resolve all cards
   const resolutionResults = await resolveCardNames(cardNames);
@@ -105,6 +201,28 @@ export async function buildGroundingPacket(
     }
   }
 
+  // Rows synced before the stat columns existed have no power, toughness or loyalty
+  const missingStats = resolutionResults.filter(result => result.card && hasMissingStats(result.card));
+  if (missingStats.length > 0) {
+    warnings.push(
+      `No power/toughness or loyalty stored for ${[...new Set(missingStats.map(result => result.card!.name))].join(', ')}; `
+      + 'run a forced bulk sync to refresh card data'
+    );
+  }
+
+  for (const result of tokenResults) {
+    if (result.token) {
+      cardDatabase[result.token.oracleId] = tokenToCardData(result.token);
+    }
+  }
+
+  // Cards in zones their type lines rule out
+  const zoneIssues = validateZones(gameState, cardDatabase);
+  if (options.strict && zoneIssues.length > 0) {
+    throw new ZoneValidationError(`${zoneIssues.length} card(s) are in zones their types don't allow`, zoneIssues);
+  }
+  warnings.push(...zoneIssues.map(describeZoneIssue));
+
   // Build context
   const context: GroundingContext = {
     preset: presetKey,
@@ -115,21 +233,107 @@ export async function buildGroundingPacket(
     explanationStyle: preset.explanationStyle,
   };
 
+  // Cards the chosen format doesn't allow
+  const legality = context.format ? checkFormatLegality(context.format, gameState, resolutionResults, warnings) : [];
+
+  // Pending state-based actions, checked against the resolved Oracle data
+  const stateBasedActions = checkStateBasedActions(gameState, cardDatabase);
+
+  // Untapped mana sources of the player with priority
+  const availableMana = findManaSources(gameState, cardDatabase);
+
+  // Combat damage for creatures already attacking
+  const inCombat = getPlayers(gameState).some(player => player.zones.battlefield.some(object => object.attacking));
+  const combat = inCombat ? simulateCombat(gameState, cardDatabase) : undefined;
+
+  // Odds of drawing outs, when a decklist is attached
+  const drawOdds = computeDrawOdds(gameState, cardDatabase);
+  if (drawOdds?.warnings) warnings.push(...drawOdds.warnings);
+
+  // Emblems, dungeons, planes and schemes, with their text
+  const commandZone = describeCommandZone(gameState, cardDatabase);
+  for (const effect of commandZone) {
+    warnings.push(...(effect.notes ?? []).map(note => `${effect.type} "${effect.name}": ${note}`));
+  }
+
+  // What face-down, transformed, copied and otherwise altered permanents are right now
+  const permanentStatus = describePermanentStatus(gameState, buildCardIndex(cardDatabase));
+
   // Build the packet
   const packet: GroundingPacket = {
+    schemaVersion: GROUNDING_PACKET_VERSION,
     gameState,
     cardDatabase,
     context,
     unresolvedCards: unresolvedCards.length > 0 ? unresolvedCards : undefined,
+    stateBasedActions,
+    availableMana,
+    permanentStatus: permanentStatus.length > 0 ? permanentStatus : undefined,
+    combat,
+    drawOdds,
+    commandZone: commandZone.length > 0 ? commandZone : undefined,
+    legality: legality.length > 0 ? legality : undefined,
   };
 
   return {
     packet,
     resolutionResults,
+    tokenResults,
     warnings,
+    zoneIssues,
   };
 }
 
+/**
+ * Check every resolved card against the format, adding warnings for illegal
+ * cards and for cards or formats without legality data
+ */
+function checkFormatLegality(
+  format: string,
+  state: GameState,
+  resolutionResults: ResolveResult[],
+  warnings: string[]
+): LegalityIssue[] {
+  const formatKey = normalizeFormat(format);
+  if (!formatKey) {
+    warnings.push(`Format "${format}" has no legality data; card legality was not checked`);
+    return [];
+  }
+
+  const cards = new Map<string, CardWithRelations>();
+  for (const result of resolutionResults) {
+    if (result.card) cards.set(result.card.oracleId, result.card);
+  }
+
+  // Restricted cards are checked against the advised player's decklist
+  const decklist = getPlayer(state, getPerspective(state))?.zones.decklist;
+  const copies = new Map<string, number>();
+  for (const entry of decklist?.cards ?? []) {
+    const key = normalizeName(entry.name);
+    copies.set(key, (copies.get(key) ?? 0) + entry.count);
+  }
+
+  const { issues, unchecked } = checkLegality([...cards.values()], formatKey, copies);
+  warnings.push(...issues.map(issue => `Format legality: ${issue.message}`));
+  if (unchecked.length > 0) {
+    warnings.push(`No ${formatKey} legality data for ${unchecked.join(', ')}; run a bulk sync to check them`);
+  }
+
+  return issues;
+}
+
+/**
+ * Whether a creature or planeswalker is missing the stats SBA and combat need.
+ * Multi-faced cards keep them on the faces.
+ */
+function hasMissingStats(card: CardWithRelations): boolean {
+  const sides = card.faces.length > 0 ? card.faces : [card];
+  return sides.some(side =>
+    (/\bCreature\b/.test(side.typeLine) && (side.power === null || side.toughness === null))
+    || (/\bPlaneswalker\b/.test(side.typeLine) && side.loyalty === null)
+  );
+}
+
 /**
  * Convert database card to LLM-friendly format
  */
@@ -138,15 +342,20 @@ function cardToCardData(card: CardWithRelations): CardData {
     oracleId: card.oracleId,
     name: card.name,
     manaCost: card.manaCost,
+    parsedManaCost: toParsedManaCost(card.manaCost),
     cmc: card.cmc,
     typeLine: card.typeLine,
     oracleText: card.oracleText,
+    power: card.power,
+    toughness: card.toughness,
+    loyalty: card.loyalty,
     colors: card.colors,
     keywords: card.keywords,
     faces: card.faces.length > 0
       ? card.faces.map(face => ({
           name: face.name,
           manaCost: face.manaCost,
+          parsedManaCost: toParsedManaCost(face.manaCost),
           typeLine: face.typeLine,
           oracleText: face.oracleText,
           power: face.power,
@@ -161,6 +370,91 @@ function cardToCardData(card: CardWithRelations): CardData {
   };
 }
 
+/**
+ * Convert a token card to the same format; tokens have no cost or rulings
+ */
+function tokenToCardData(token: TokenCard): CardData {
+  return {
+    oracleId: token.oracleId,
+    name: token.name,
+    manaCost: null,
+    cmc: 0,
+    typeLine: token.typeLine,
+    oracleText: token.oracleText,
+    power: token.power,
+    toughness: token.toughness,
+    colors: token.colors,
+    keywords: token.keywords,
+    rulings: [],
+  };
+}
+
+/**
+ * List the battlefield objects whose characteristics aren't their printed front face
+ */
+function describePermanentStatus(state: GameState, index: CardIndex): PermanentStatus[] {
+  const entries: PermanentStatus[] = [];
+
+  for (const player of getPlayers(state)) {
+    for (const object of player.zones.battlefield) {
+      const status = permanentStatusLabels(object);
+      if (status.length === 0) continue;
+
+      const characteristics = getObjectCharacteristics(object, index);
+      entries.push({
+        player: object.controller ?? player.id,
+        id: object.id,
+        name: object.name,
+        shownAs: characteristics?.name ?? object.copyOf?.name ?? object.name,
+        status,
+        typeLine: characteristics?.typeLine ?? null,
+        oracleText: characteristics?.oracleText ?? null,
+        power: characteristics?.power ?? null,
+        toughness: characteristics?.toughness ?? null,
+      });
+    }
+  }
+
+  return entries;
+}
+
+function permanentStatusLabels(object: Permanent | Token): string[] {
+  const labels: string[] = [];
+  const isToken = 'type' in object && object.type === 'token';
+
+  if (!isToken) {
+    const permanent = object as Permanent;
+    if (permanent.faceDown) {
+      labels.push(`face down (${permanent.faceDown.kind})${permanent.faceDown.known ? '' : ', identity hidden'}`);
+    } else if (getShownFaceIndex(permanent) > 0) {
+      labels.push(permanent.flipped ? 'flipped' : permanent.transformed ? 'transformed' : `showing face ${getShownFaceIndex(permanent) + 1}`);
+    }
+  }
+
+  if (object.copyOf) labels.push(`copy of ${object.copyOf.name}`);
+  if (object.phasedOut) labels.push('phased out: treated as though it does not exist');
+  if (object.grantedAbilities?.length) labels.push(`has ${object.grantedAbilities.join(', ')} from other effects`);
+
+  for (const effect of object.powerToughnessEffects ?? []) {
+    const amount = effect.mode === 'set'
+      ? `base power and toughness ${effect.power}/${effect.toughness}`
+      : `${signed(effect.power)}/${signed(effect.toughness)}`;
+    labels.push(effect.source ? `${amount} from ${effect.source}` : amount);
+  }
+
+  return labels;
+}
+
+function signed(value: number): string {
+  return value >= 0 ? `+${value}` : String(value);
+}
+
+function toParsedManaCost(manaCost: string | null): ManaCost | undefined {
+  if (!manaCost) return undefined;
+  const parsed = parseManaCost(manaCost);
+  return parsed.success ? parsed.cost : undefined;
+}
+
 /**
  * Serialize grounding packet to a string for inclusion in prompts
  */
@@ -172,27 +466,82 @@ export function serializeGroundingPacket(packet: GroundingPacket): string {
  * Create a compact version of the packet for smaller context windows
  */
 export function compactGroundingPacket(packet: GroundingPacket): string {
+  const gameState = packet.gameState;
+  const players = getPlayers(gameState);
+
+  const seats = isMultiplayer(gameState)
+    ? {
+        perspective: getPerspective(gameState),
+        players: players.map(summarizePlayer),
+      }
+    : {
+        life: gameState.life,
+        mana: gameState.manaPool,
+        you: summarizeZones(players[0].zones),
+        opp: summarizeZones(players[1].zones),
+        marks: players.some(player => summarizeMarks(player))
+          ? { you: summarizeMarks(players[0]), opp: summarizeMarks(players[1]) }
+          : undefined,
+      };
+
   const compact = {
     state: {
-      turn: packet.gameState.turn,
-      phase: packet.gameState.phase,
-      priority: packet.gameState.priority,
-      active: packet.gameState.activePlayer,
-      life: packet.gameState.life,
-      mana: packet.gameState.manaPool,
-      you: summarizeZones(packet.gameState.you),
-      opp: summarizeZones(packet.gameState.opponent),
-      stack: packet.gameState.stack.map(s => ({
+      turn: gameState.turn,
+      phase: gameState.phase,
+      priority: gameState.priority,
+      active: gameState.activePlayer,
+      ...seats,
+      day: gameState.dayNight,
+      stack: gameState.stack.map(s => ({
         type: s.type,
         card: s.source.name,
         ctrl: s.controller,
       })),
+      sba: packet.stateBasedActions?.map(a => a.description),
+      combat: packet.combat && {
+        life: packet.combat.lifeAfter,
+        poison: packet.combat.poisonAfter,
+        deaths: packet.combat.deaths,
+        triggers: packet.combat.triggers,
+        notes: packet.combat.notes,
+      },
+      odds: packet.drawOdds && {
+        draws: packet.drawOdds.draws,
+        library: packet.drawOdds.librarySize,
+        outs: packet.drawOdds.outs.map(describeDrawOut),
+      },
+      cmd: packet.commandZone?.map(describeCommandEffect),
+      illegal: packet.legality?.map(issue => issue.message),
+      fx: gameState.effects?.map(describeEffect),
+      status: packet.permanentStatus?.map(entry => ({
+        card: entry.name === entry.shownAs ? entry.name : `${entry.name} as ${entry.shownAs}`,
+        ctrl: entry.player,
+        is: entry.status,
+        text: entry.oracleText,
+        pt: entry.power !== null ? `${entry.power}/${entry.toughness}` : undefined,
+      })),
+      sources: packet.availableMana && {
+        max: packet.availableMana.maxTotal,
+        list: packet.availableMana.sources
+          .filter(source => !source.floating)
+          .map(source => `${source.name}: ${describeManaSource(source)}`),
+        unparsed: packet.availableMana.unparsed,
+      },
     },
-    cards: Object.entries(packet.cardDatabase).reduce((acc, [id, card]) => {
+    cards: Object.values(packet.cardDatabase).reduce((acc, card) => {
+      const costNotes = card.parsedManaCost && describeManaCost(card.parsedManaCost);
       acc[card.name] = {
         mana: card.manaCost,
+        costNotes: costNotes?.length ? costNotes : undefined,
         type: card.typeLine,
         text: card.oracleText,
+        faces: card.faces?.map(face => ({
+          name: face.name,
+          mana: face.manaCost,
+          type: face.typeLine,
+          text: face.oracleText,
+          pt: face.power !== null ? `${face.power}/${face.toughness}` : undefined,
+        })),
         rules: card.rulings.length,
       };
       return acc;
@@ -203,7 +552,31 @@ export function compactGroundingPacket(packet: GroundingPacket): string {
   return JSON.stringify(compact);
 }
 
-function summarizeZones(zones: GameState['you']) {
+function summarizePlayer(player: PlayerView) {
+  return {
+    id: player.id,
+    name: player.name,
+    seat: player.turnOrder,
+    life: player.life,
+    mana: player.manaPool,
+    cmdDmg: Object.keys(player.commanderDamage).length > 0 ? player.commanderDamage : undefined,
+    out: player.eliminated || undefined,
+    marks: summarizeMarks(player),
+    ...summarizeZones(player.zones),
+  };
+}
+
+/**
+ * Player counters and designations, or undefined when a player has none
+ */
+function summarizeMarks(player: PlayerView) {
+  const counters = Object.fromEntries(Object.entries(player.counters).filter(([, amount]) => amount));
+  const designations = Object.fromEntries(Object.entries(player.designations).filter(([, value]) => value));
+  const marks = { ...counters, ...designations };
+  return Object.keys(marks).length > 0 ? marks : undefined;
+}
+
+function summarizeZones(zones: PlayerZones) {
   return {
     board: zones.battlefield.map((p: { name: string }) => p.name),
     hand: Array.isArray(zones.hand)
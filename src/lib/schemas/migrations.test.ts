@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { GameStateSchema } from './game-state';
+import { migrateGameState } from './migrations';
+
+// A state as saved before schemaVersion existed
+const baselineState = {
+  turn: 7,
+  phase: 'precombat_main',
+  priority: 'you',
+  activePlayer: 'you',
+  life: { you: 14, opponent: 9 },
+  you: {
+    battlefield: [{ name: 'Forest', tapped: false }],
+    hand: [],
+    graveyard: [],
+    exile: [],
+    commandZone: [{ name: 'Chandra, Torch of Defiance Emblem' }],
+  },
+  opponent: { battlefield: [], hand: { count: 3 }, graveyard: [], exile: [] },
+};
+
+describe('migrateGameState', () => {
+  it('upgrades a state without a schemaVersion to one the schema accepts', () => {
+    const result = migrateGameState(baselineState);
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.upgrade).toMatchObject({ from: 1, to: 2 });
+    expect(result.upgrade?.notes).toEqual(['Made "Chandra, Torch of Defiance Emblem" in the command zone an emblem']);
+
+    const state = GameStateSchema.parse(result.document);
+    expect(state.you?.commandZone).toEqual([{ type: 'emblem', name: 'Chandra, Torch of Defiance Emblem' }]);
+  });
+
+  it('rejects a version newer than the server supports', () => {
+    expect(migrateGameState({ ...baselineState, schemaVersion: 99 })).toMatchObject({ success: false });
+  });
+});
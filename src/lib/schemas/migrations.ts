@@ -0,0 +1,158 @@
+/**
+ * Schema migrations
+ * Game states and grounding packets carry a schemaVersion. Documents from
+ * older versions (no schemaVersion means version 1) are upgraded one step at
+ * a time through the registries below before they are validated.
+ */
+
+import { GAME_STATE_VERSION } from './game-state';
+import { GROUNDING_PACKET_VERSION } from './grounding-packet';
+
+// ============ Types ============
+
+type Document = Record<string, unknown>;
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (document: Document, notes: string[]) => Document;
+}
+
+export interface SchemaUpgrade {
+  document: 'gameState' | 'groundingPacket';
+  from: number;
+  to: number;
+  steps: string[]; // Descriptions of the migrations applied, in order
+  notes: string[]; // Data the migrations changed or dropped
+}
+
+export type MigrationResult =
+  | { success: true; document: unknown; upgrade?: SchemaUpgrade }
+  | { success: false; error: string };
+
+// ============ Game State Migrations ============
+
+// Version 1 is the shape before schemaVersion existed: two players, with
+// emblems entered as command zone cards
+export const GAME_STATE_MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Emblems in the command zone',
+    migrate: (state, notes) => {
+      const next = { ...state };
+      for (const seat of ['you', 'opponent']) {
+        if (isRecord(next[seat])) next[seat] = migrateLegacyCommandZone(next[seat], notes);
+      }
+      return next;
+    },
+  },
+];
+
+/**
+ * Turn command zone cards named "... Emblem" into emblem objects
+ */
+function migrateLegacyCommandZone(zones: unknown, notes: string[]): unknown {
+  if (!isRecord(zones) || !Array.isArray(zones.commandZone)) return zones;
+
+  return {
+    ...zones,
+    commandZone: zones.commandZone.map(entry => {
+      if (!isRecord(entry) || 'type' in entry || typeof entry.name !== 'string' || !/\semblem$/i.test(entry.name)) {
+        return entry;
+      }
+      notes.push(`Made "${entry.name}" in the command zone an emblem`);
+      return { type: 'emblem', ...entry };
+    }),
+  };
+}
+
+// ============ Grounding Packet Migrations ============
+
+export const GROUNDING_PACKET_MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Versioned packet; its game state is migrated to game state version 2',
+    migrate: (packet, notes) => {
+      const result = migrateGameState(packet.gameState);
+      if (!result.success) throw new Error(result.error);
+      notes.push(...(result.upgrade?.notes ?? []));
+      return { ...packet, gameState: result.document };
+    },
+  },
+];
+
+// ============ Runner ============
+
+/**
+ * Upgrade a game state to GAME_STATE_VERSION. Anything that isn't an object
+ * is passed through for the schema to reject.
+ */
+export function migrateGameState(input: unknown): MigrationResult {
+  return migrate(input, 'gameState', GAME_STATE_MIGRATIONS, GAME_STATE_VERSION);
+}
+
+/**
+ * Upgrade a grounding packet to GROUNDING_PACKET_VERSION, including its game state
+ */
+export function migrateGroundingPacket(input: unknown): MigrationResult {
+  return migrate(input, 'groundingPacket', GROUNDING_PACKET_MIGRATIONS, GROUNDING_PACKET_VERSION);
+}
+
+function migrate(
+  input: unknown,
+  kind: SchemaUpgrade['document'],
+  registry: Migration[],
+  currentVersion: number
+): MigrationResult {
+  if (!isRecord(input)) return { success: true, document: input };
+
+  const version = input.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { success: false, error: `Invalid ${kind} schemaVersion ${JSON.stringify(version)}` };
+  }
+  if (version > currentVersion) {
+    return { success: false, error: `${kind} schemaVersion ${version} is newer than this server supports (${currentVersion})` };
+  }
+  if (version === currentVersion) return { success: true, document: input };
+
+  let document: Document = input;
+  const steps: string[] = [];
+  const notes: string[] = [];
+
+  for (let from = version; from < currentVersion; from++) {
+    const migration = registry.find(m => m.from === from);
+    if (!migration) {
+      return { success: false, error: `No ${kind} migration from schemaVersion ${from}` };
+    }
+    try {
+      document = { ...migration.migrate(document, notes), schemaVersion: migration.to };
+    } catch (error) {
+      return {
+        success: false,
+        error: `${kind} migration ${migration.from} -> ${migration.to} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+    steps.push(`${migration.from} -> ${migration.to}: ${migration.description}`);
+  }
+
+  return {
+    success: true,
+    document,
+    upgrade: { document: kind, from: version, to: currentVersion, steps, notes },
+  };
+}
+
+/**
+ * One line for warnings, e.g. "Upgraded gameState from schemaVersion 1 to 2: Made \"Chandra, Torch of Defiance Emblem\" in the command zone an emblem"
+ */
+export function describeSchemaUpgrade(upgrade: SchemaUpgrade): string {
+  const changes = upgrade.notes.length > 0 ? `: ${upgrade.notes.join('; ')}` : '';
+  return `Upgraded ${upgrade.document} from schemaVersion ${upgrade.from} to ${upgrade.to}${changes}`;
+}
+
+function isRecord(value: unknown): value is Document {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
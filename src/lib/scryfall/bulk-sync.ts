@@ -1,11 +1,25 @@
 /**
  * Bulk sync from Scryfall to database
- * Handles streaming downloads, chunked processing, and checkpoints for resume
+ * Handles streaming downloads, chunked processing, and checkpoints for resume.
+ * The same upserts load a bulk file from disk into the offline SQLite store.
  */
 
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import { db } from '@/lib/db';
 import { SyncStatus } from '@prisma/client';
+import { getSqliteStore } from '@/lib/offline/sqlite-store';
 import { normalizeName } from '@/lib/utils/card-names';
+import {
+  toArenaCardFields,
+  toCardFields,
+  toFaceFields,
+  toPrintingFields,
+  toRulingFields,
+  toTokenFields,
+} from './card-fields';
+import { clearResolveCache } from './card-resolver';
+import { postgresCardStore, type CardStore } from './card-store';
 import {
   getBulkDataUrl,
   streamBulkData,
@@ -14,6 +28,7 @@ import {
 } from './client';
 
 const BATCH_SIZE = 500;
+const TOKEN_LAYOUTS = ['token', 'double_faced_token'];
 const MAX_RUNTIME_MS = 55_000; // Leave 5s buffer for Vercel's 60s limit
 
 export interface SyncProgress {
@@ -24,11 +39,15 @@ export interface SyncProgress {
   lastOracleId: string | null;
 }
 
+export type SyncType = 'oracle_cards' | 'default_cards' | 'rulings' | 'full';
+
 /**
- * Start a new sync run or resume a paused one
+ * Start a new sync run or resume a paused one.
+ * oracle_cards stores one card per Oracle id; default_cards stores every
+ * printing (set, collector number, Arena id), adding any card it doesn't have yet.
  */
 export async function startSync(
-  type: 'oracle_cards' | 'rulings' | 'full',
+  type: SyncType,
   options: {
     force?: boolean;
     resumeId?: string;
@@ -54,8 +73,9 @@ export async function startSync(
     return await processSyncRun(existingRun.id);
   }
 
-  // Check if we need to sync (compare updated_at from Scryfall)
-  if (!force) {
+  // Check if we need to sync (compare updated_at from Scryfall). Cards stored
+  // before newer columns existed need a sync whatever Scryfall's date says.
+  if (!force && !(type !== 'rulings' && await hasStaleCards())) {
     const lastSuccessfulSync = await db.syncRun.findFirst({
       where: { type, status: 'COMPLETED' },
       orderBy: { completedAt: 'desc' },
@@ -111,6 +131,23 @@ export async function startSync(
   }
 }
 
+/**
+ * Whether any stored card predates a column bulk sync now fills: creatures
+ * without power and toughness, or cards without legalities
+ */
+async function hasStaleCards(): Promise<boolean> {
+  const stale = await db.card.findFirst({
+    where: {
+      OR: [
+        { typeLine: { contains: 'Creature' }, power: null, faces: { none: {} } },
+        { legalities: { equals: {} } },
+      ],
+    },
+    select: { id: true },
+  });
+  return stale !== null;
+}
+
 /**
  * Process a sync run (either new or resumed)
  */
@@ -130,6 +167,11 @@ async function processSyncRun(syncRunId: string): Promise<SyncProgress> {
     data: { status: 'PROCESSING' },
   });
 
+  // Oracle ids repeat across printings, so default_cards checkpoints on the printing's id
+  const isPrintings = syncRun.type === 'default_cards';
+  const checkpointOf = (card: ScryfallCard) => (isPrintings ? card.id : card.oracle_id);
+  const upsert = isPrintings ? upsertPrinting : upsertCard;
+
   const resumeFromOracleId = syncRun.lastOracleId;
   let processed = syncRun.processed;
   let failed = syncRun.failed;
@@ -139,100 +181,72 @@ async function processSyncRun(syncRunId: string): Promise<SyncProgress> {
   try {
     // Stream and process the bulk data
     const stream = await streamBulkData(syncRun.blobUrl);
-    const reader = stream.getReader();
-    const decoder = new TextDecoder();
-
-    let buffer = '';
     let batch: ScryfallCard[] = [];
 
-    while (true) {
-      // Check timeout
-      if (Date.now() - startTime > MAX_RUNTIME_MS) {
-        // Pause for resume
+    for await (const card of readBulkObjects<ScryfallCard>(stream)) {
+      // Skip malformed lines
+      if (!card) {
+        failed++;
+        continue;
+      }
+
+      // Skip until we reach the resume point
+      if (shouldSkip) {
+        if (checkpointOf(card) === resumeFromOracleId) {
+          shouldSkip = false;
+        }
+        continue;
+      }
+
+      batch.push(card);
+      lastOracleId = checkpointOf(card);
+
+      // Process batch when full
+      if (batch.length >= BATCH_SIZE) {
+        const { success, failures } = await upsertCardBatch(postgresCardStore, batch, upsert);
+        processed += success;
+        failed += failures;
+        batch = [];
+
+        // Update checkpoint
         await db.syncRun.update({
           where: { id: syncRunId },
           data: {
-            status: 'PAUSED',
             processed,
             failed,
             lastOracleId,
           },
         });
 
-        return {
-          syncRunId,
-          status: 'PAUSED',
-          processed,
-          totalRecords: syncRun.totalRecords,
-          lastOracleId,
-        };
-      }
-
-      const { done, value } = await reader.read();
+        // Check timeout; everything up to the checkpoint is stored
+        if (Date.now() - startTime > MAX_RUNTIME_MS) {
+          // Pause for resume
+          await db.syncRun.update({
+            where: { id: syncRunId },
+            data: { status: 'PAUSED' },
+          });
 
-      if (done) {
-        // Process any remaining batch
-        if (batch.length > 0) {
-          const { success, failures } = await upsertCardBatch(batch);
-          processed += success;
-          failed += failures;
+          return {
+            syncRunId,
+            status: 'PAUSED',
+            processed,
+            totalRecords: syncRun.totalRecords,
+            lastOracleId,
+          };
         }
-        break;
       }
+    }
 
-      buffer += decoder.decode(value, { stream: true });
-
-      // Process complete JSON lines (NDJSON format)
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-      for (const line of lines) {
-        if (!line.trim() || line.trim() === '[' || line.trim() === ']') continue;
-
-        try {
-          // Handle array format (bulk files are JSON arrays, not NDJSON)
-          let cleanLine = line.trim();
-          if (cleanLine.endsWith(',')) {
-            cleanLine = cleanLine.slice(0, -1);
-          }
-
-          const card: ScryfallCard = JSON.parse(cleanLine);
-
-          // Skip until we reach the resume point
-          if (shouldSkip) {
-            if (card.oracle_id === resumeFromOracleId) {
-              shouldSkip = false;
-            }
-            continue;
-          }
-
-          batch.push(card);
-          lastOracleId = card.oracle_id;
-
-          // Process batch when full
-          if (batch.length >= BATCH_SIZE) {
-            const { success, failures } = await upsertCardBatch(batch);
-            processed += success;
-            failed += failures;
-            batch = [];
-
-            // Update checkpoint
-            await db.syncRun.update({
-              where: { id: syncRunId },
-              data: {
-                processed,
-                failed,
-                lastOracleId,
-              },
-            });
-          }
-        } catch (parseError) {
-          // Skip malformed lines
-          failed++;
-        }
-      }
+    // Process any remaining batch
+    if (batch.length > 0) {
+      const { success, failures } = await upsertCardBatch(postgresCardStore, batch, upsert);
+      processed += success;
+      failed += failures;
     }
 
+    // Cached resolutions may point at replaced card data
+    clearResolveCache();
+
     // Mark as completed
     await db.syncRun.update({
       where: { id: syncRunId },
@@ -267,15 +281,54 @@ async function processSyncRun(syncRunId: string): Promise<SyncProgress> {
 }
 
 /**
- * Upsert a batch of cards to the database
+ * Parse a bulk data file as it streams in. Bulk files are JSON arrays with
+ * one object per line (not NDJSON); malformed lines come out as null.
  */
-async function upsertCardBatch(cards: ScryfallCard[]): Promise<{ success: number; failures: number }> {
+export async function* readBulkObjects<T>(stream: ReadableStream<Uint8Array>): AsyncGenerator<T | null> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // Process complete lines, keeping an incomplete one in the buffer
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      let cleanLine = line.trim();
+      if (!cleanLine || cleanLine === '[' || cleanLine === ']') continue;
+      if (cleanLine.endsWith(',')) {
+        cleanLine = cleanLine.slice(0, -1);
+      }
+
+      try {
+        yield JSON.parse(cleanLine) as T;
+      } catch {
+        yield null;
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Upsert a batch of cards to a card store
+ */
+async function upsertCardBatch(
+  store: CardStore,
+  cards: ScryfallCard[],
+  upsert: (store: CardStore, card: ScryfallCard) => Promise<void>
+): Promise<{ success: number; failures: number }> {
   let success = 0;
   let failures = 0;
 
   for (const card of cards) {
     try {
-      await upsertCard(card);
+      await upsert(store, card);
       success++;
     } catch (error) {
       console.error(`Failed to upsert card ${card.name}:`, error);
@@ -289,76 +342,82 @@ async function upsertCardBatch(cards: ScryfallCard[]): Promise<{ success: number
 /**
  * Upsert a single card with its faces
  */
-async function upsertCard(scryfallCard: ScryfallCard): Promise<void> {
-  const normalizedCardName = normalizeName(scryfallCard.name);
-
-  // Upsert the main card
-  const card = await db.card.upsert({
-    where: { oracleId: scryfallCard.oracle_id },
-    create: {
-      oracleId: scryfallCard.oracle_id,
-      scryfallId: scryfallCard.id,
-      name: scryfallCard.name,
-      normalizedName: normalizedCardName,
-      layout: scryfallCard.layout,
-      manaCost: scryfallCard.mana_cost,
-      cmc: scryfallCard.cmc,
-      typeLine: scryfallCard.type_line,
-      oracleText: scryfallCard.oracle_text,
-      colors: scryfallCard.colors || [],
-      colorIdentity: scryfallCard.color_identity,
-      keywords: scryfallCard.keywords,
-      releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
-    },
-    update: {
-      scryfallId: scryfallCard.id,
-      name: scryfallCard.name,
-      normalizedName: normalizedCardName,
-      layout: scryfallCard.layout,
-      manaCost: scryfallCard.mana_cost,
-      cmc: scryfallCard.cmc,
-      typeLine: scryfallCard.type_line,
-      oracleText: scryfallCard.oracle_text,
-      colors: scryfallCard.colors || [],
-      colorIdentity: scryfallCard.color_identity,
-      keywords: scryfallCard.keywords,
-      releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
-    },
-  });
+async function upsertCard(store: CardStore, scryfallCard: ScryfallCard): Promise<void> {
+  const cardId = await store.upsertCard(toCardFields(scryfallCard));
 
   // Handle multi-face cards
   if (scryfallCard.card_faces && scryfallCard.card_faces.length > 0) {
-    // Delete existing faces first
-    await db.cardFace.deleteMany({
-      where: { cardId: card.id },
-    });
+    await store.replaceFaces(cardId, scryfallCard.card_faces.map(toFaceFields));
+  }
+
+  await upsertArenaCard(store, scryfallCard);
+  await syncTokens(store, scryfallCard);
+}
 
-    // Create new faces
-    for (let i = 0; i < scryfallCard.card_faces.length; i++) {
-      const face = scryfallCard.card_faces[i];
-      await db.cardFace.create({
-        data: {
-          cardId: card.id,
-          faceIndex: i,
-          name: face.name,
-          normalizedName: normalizeName(face.name),
-          manaCost: face.mana_cost,
-          typeLine: face.type_line,
-          oracleText: face.oracle_text,
-          power: face.power,
-          toughness: face.toughness,
-          loyalty: face.loyalty,
-          defense: face.defense,
-        },
-      });
+/**
+ * Upsert a single printing from default_cards. Oracle data is the same for
+ * every printing, so the card itself is only written if it's missing.
+ */
+async function upsertPrinting(store: CardStore, scryfallCard: ScryfallCard): Promise<void> {
+  if (await store.hasCard(scryfallCard.oracle_id)) {
+    await upsertArenaCard(store, scryfallCard);
+    await syncTokens(store, scryfallCard);
+  } else {
+    await upsertCard(store, scryfallCard);
+  }
+
+  await store.upsertPrinting(toPrintingFields(scryfallCard));
+}
+
+/**
+ * Remember the Arena grpId of a printing for log imports
+ */
+async function upsertArenaCard(store: CardStore, scryfallCard: ScryfallCard): Promise<void> {
+  const arenaCard = toArenaCardFields(scryfallCard);
+  if (arenaCard) await store.upsertArenaCard(arenaCard);
+}
+
+/**
+ * Store token cards and link them to the cards that create them (all_parts).
+ * Either side can be synced first: a token picks up the creators already
+ * stored, and a creator adds itself to the tokens already stored.
+ */
+async function syncTokens(store: CardStore, scryfallCard: ScryfallCard): Promise<void> {
+  const parts = scryfallCard.all_parts ?? [];
+
+  if (!TOKEN_LAYOUTS.includes(scryfallCard.layout)) {
+    for (const part of parts.filter(p => p.component === 'token')) {
+      await store.addTokenCreator(
+        { scryfallId: part.id, normalizedName: normalizeName(part.name), typeLine: part.type_line },
+        scryfallCard.oracle_id
+      );
     }
+    return;
   }
+
+  // A token's all_parts lists itself, the cards that make it, and sometimes other tokens
+  const creatorParts = parts.filter(
+    part => part.id !== scryfallCard.id && !/\b(Token|Emblem)\b/.test(part.type_line)
+  );
+  const creators = creatorParts.length > 0
+    ? await store.findOracleIds({
+        scryfallIds: creatorParts.map(part => part.id),
+        normalizedNames: creatorParts.map(part => normalizeName(part.name)),
+      })
+    : [];
+
+  const existing = await store.getTokenCreators(scryfallCard.id);
+
+  await store.upsertToken(toTokenFields(scryfallCard, [...new Set([...(existing ?? []), ...creators])]));
 }
 
 /**
  * Sync rulings for all cards in the database
  */
-export async function syncRulings(rulings: ScryfallRuling[]): Promise<{ success: number; failures: number }> {
+export async function syncRulings(
+  rulings: ScryfallRuling[],
+  store: CardStore = postgresCardStore
+): Promise<{ success: number; failures: number }> {
   let success = 0;
   let failures = 0;
 
@@ -372,32 +431,13 @@ export async function syncRulings(rulings: ScryfallRuling[]): Promise<{ success:
 
   for (const [oracleId, cardRulings] of rulingsByOracleId) {
     try {
-      // Check if card exists
-      const card = await db.card.findUnique({
-        where: { oracleId },
-      });
-
-      if (!card) {
-        // Skip rulings for cards we don't have
+      // Skip rulings for cards we don't have
+      if (!(await store.hasCard(oracleId))) {
         continue;
       }
 
-      // Delete existing rulings for this card
-      await db.ruling.deleteMany({
-        where: { oracleId },
-      });
-
-      // Insert new rulings
-      for (const ruling of cardRulings) {
-        await db.ruling.create({
-          data: {
-            oracleId,
-            publishedAt: new Date(ruling.published_at),
-            comment: ruling.comment,
-            source: ruling.source,
-          },
-        });
-      }
+      // Replace existing rulings for this card
+      await store.replaceRulings(oracleId, cardRulings.map(toRulingFields));
 
       success++;
     } catch (error) {
@@ -406,9 +446,59 @@ export async function syncRulings(rulings: ScryfallRuling[]): Promise<{ success:
     }
   }
 
+  clearResolveCache();
+
   return { success, failures };
 }
 
+/**
+ * Load a bulk data file downloaded from Scryfall (oracle_cards, default_cards
+ * or rulings) into the offline SQLite store, through the same upserts as a sync
+ */
+export async function loadBulkFile(
+  path: string,
+  type: Exclude<SyncType, 'full'> = 'oracle_cards'
+): Promise<{ processed: number; failed: number }> {
+  const store = getSqliteStore();
+  const stream = Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>;
+  const upsert = type === 'default_cards' ? upsertPrinting : upsertCard;
+
+  let processed = 0;
+  let failed = 0;
+  let batch: ScryfallCard[] = [];
+  const rulings: ScryfallRuling[] = [];
+
+  const flush = async () => {
+    const { success, failures } = await upsertCardBatch(store, batch, upsert);
+    processed += success;
+    failed += failures;
+    batch = [];
+  };
+
+  for await (const object of readBulkObjects<ScryfallCard & ScryfallRuling>(stream)) {
+    if (!object) {
+      failed++;
+    } else if (type === 'rulings') {
+      rulings.push(object);
+    } else {
+      batch.push(object);
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+  }
+
+  if (batch.length > 0) await flush();
+
+  if (rulings.length > 0) {
+    const { success, failures } = await syncRulings(rulings, store);
+    processed += success;
+    failed += failures;
+  }
+
+  clearResolveCache();
+
+  return { processed, failed };
+}
+
 /**
  * Get the status of a sync run
  */
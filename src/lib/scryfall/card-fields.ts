@@ -0,0 +1,117 @@
+/**
+ * Scryfall card objects mapped to the columns we store
+ * Shared by bulk sync, the resolver's Scryfall cache and the offline store
+ */
+
+import { normalizeName } from '@/lib/utils/card-names';
+import type { ScryfallCard, ScryfallCardFace, ScryfallRuling } from './client';
+
+export function toCardFields(scryfallCard: ScryfallCard) {
+  return {
+    oracleId: scryfallCard.oracle_id,
+    scryfallId: scryfallCard.id,
+    name: scryfallCard.name,
+    normalizedName: normalizeName(scryfallCard.name),
+    layout: scryfallCard.layout,
+    manaCost: scryfallCard.mana_cost ?? null,
+    cmc: scryfallCard.cmc,
+    typeLine: scryfallCard.type_line,
+    oracleText: scryfallCard.oracle_text ?? null,
+    power: scryfallCard.power ?? null,
+    toughness: scryfallCard.toughness ?? null,
+    loyalty: scryfallCard.loyalty ?? null,
+    colors: scryfallCard.colors || [],
+    colorIdentity: scryfallCard.color_identity,
+    keywords: scryfallCard.keywords,
+    legalities: scryfallCard.legalities ?? {},
+    releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
+  };
+}
+
+export type CardFields = ReturnType<typeof toCardFields>;
+
+export function toFaceFields(face: ScryfallCardFace, faceIndex: number) {
+  return {
+    faceIndex,
+    name: face.name,
+    normalizedName: normalizeName(face.name),
+    manaCost: face.mana_cost ?? null,
+    typeLine: face.type_line,
+    oracleText: face.oracle_text ?? null,
+    power: face.power ?? null,
+    toughness: face.toughness ?? null,
+    loyalty: face.loyalty ?? null,
+    defense: face.defense ?? null,
+  };
+}
+
+export type CardFaceFields = ReturnType<typeof toFaceFields>;
+
+export function toPrintingFields(scryfallCard: ScryfallCard) {
+  return {
+    scryfallId: scryfallCard.id,
+    oracleId: scryfallCard.oracle_id,
+    name: scryfallCard.name,
+    normalizedName: normalizeName(scryfallCard.name),
+    setCode: scryfallCard.set.toLowerCase(),
+    setName: scryfallCard.set_name,
+    collectorNumber: scryfallCard.collector_number,
+    rarity: scryfallCard.rarity,
+    lang: scryfallCard.lang,
+    arenaId: scryfallCard.arena_id ?? null,
+    mtgoId: scryfallCard.mtgo_id ?? null,
+    releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
+  };
+}
+
+export type PrintingFields = ReturnType<typeof toPrintingFields>;
+
+/**
+ * The Arena grpId mapping of a printing, or null when it isn't on Arena
+ */
+export function toArenaCardFields(scryfallCard: ScryfallCard) {
+  if (!scryfallCard.arena_id) return null;
+
+  return {
+    grpId: scryfallCard.arena_id,
+    oracleId: scryfallCard.oracle_id,
+    name: scryfallCard.name,
+    scryfallId: scryfallCard.id,
+    layout: scryfallCard.layout,
+  };
+}
+
+export type ArenaCardFields = NonNullable<ReturnType<typeof toArenaCardFields>>;
+
+/**
+ * A token card; double-faced tokens keep their text and stats on the faces
+ */
+export function toTokenFields(scryfallCard: ScryfallCard, createdBy: string[]) {
+  const frontFace = scryfallCard.card_faces?.[0];
+
+  return {
+    scryfallId: scryfallCard.id,
+    oracleId: scryfallCard.oracle_id,
+    name: scryfallCard.name,
+    normalizedName: normalizeName(scryfallCard.name),
+    typeLine: scryfallCard.type_line,
+    oracleText: scryfallCard.oracle_text ?? frontFace?.oracle_text ?? null,
+    power: scryfallCard.power ?? frontFace?.power ?? null,
+    toughness: scryfallCard.toughness ?? frontFace?.toughness ?? null,
+    colors: scryfallCard.colors || [],
+    keywords: scryfallCard.keywords,
+    createdBy,
+  };
+}
+
+export type TokenFields = ReturnType<typeof toTokenFields>;
+
+export function toRulingFields(ruling: Pick<ScryfallRuling, 'published_at' | 'comment' | 'source'>) {
+  return {
+    publishedAt: new Date(ruling.published_at),
+    comment: ruling.comment,
+    source: ruling.source,
+  };
+}
+
+export type RulingFields = ReturnType<typeof toRulingFields>;
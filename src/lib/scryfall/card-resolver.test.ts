@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { normalizeName } from '@/lib/utils/card-names';
+import { getCardStore, type CardStore, type CardWithRelations, type NameMatch } from './card-store';
+import { resolveCardName } from './card-resolver';
+
+vi.mock('./card-store', () => ({ getCardStore: vi.fn() }));
+vi.mock('@/lib/offline/mode', () => ({ isOfflineMode: () => true }));
+
+let similar: NameMatch[] = [];
+
+function match(name: string, matchedName = name, faceIndex: number | null = null): NameMatch {
+  return { oracleId: `oracle-${name}`, name, typeLine: 'Instant', matchedName: normalizeName(matchedName), faceIndex, trigram: 0.5 };
+}
+
+beforeEach(() => {
+  vi.mocked(getCardStore).mockReturnValue({
+    findCardsByName: async () => [],
+    findFacesByName: async () => [],
+    findSimilarNames: async () => similar,
+    getCardsByOracleId: async ([oracleId]) => [{ oracleId, name: oracleId.replace('oracle-', ''), faces: [], rulings: [] } as unknown as CardWithRelations],
+  } as Partial<CardStore> as CardStore);
+});
+
+describe('resolveCardName similarity thresholds', () => {
+  it('accepts a match scoring at least 0.85 and 0.1 ahead of the next', async () => {
+    similar = [match('Lightning Bolt'), match('Lightning Blast')];
+    const result = await resolveCardName('Lightnig Bolt'); // 0.929 vs 0.733
+
+    expect(result.status).toBe('fuzzy');
+    expect(result.card?.name).toBe('Lightning Bolt');
+    expect(result.score).toBeCloseTo(0.929, 3);
+  });
+
+  it('returns candidates when the next best is within 0.1', async () => {
+    similar = [match('Lightning Bolt'), match('Lightning Blast')];
+    const result = await resolveCardName('Lightning Bost'); // 0.929 vs 0.867
+
+    expect(result.status).toBe('ambiguous');
+    expect(result.card).toBeUndefined();
+    expect(result.candidates?.map(candidate => candidate.name)).toEqual(['Lightning Bolt', 'Lightning Blast']);
+  });
+
+  it('returns candidates when the next best is within 0.1 of an exact face name', async () => {
+    similar = [match('Brazen Borrower', 'Petty Theft', 1), match('Pretty Theft')];
+    const result = await resolveCardName('Petty Theft'); // 1 vs 0.917
+
+    expect(result.status).toBe('ambiguous');
+    expect(result.score).toBe(1);
+    expect(result.candidates?.[0]).toMatchObject({ name: 'Brazen Borrower', score: 1 });
+  });
+
+  it('offers a single match below 0.85 as a candidate', async () => {
+    similar = [match('Grizzly Bears')];
+    const result = await resolveCardName('Grizly Bear'); // 0.846
+
+    expect(result.status).toBe('ambiguous');
+    expect(result.candidates).toHaveLength(1);
+  });
+
+  it('gives up on a single match below 0.5', async () => {
+    similar = [match('Fiery Temper')];
+    const result = await resolveCardName('Fire');
+
+    expect(result.status).toBe('not_found');
+  });
+});
@@ -1,12 +1,31 @@
 /**
  * Card resolution logic
- * Handles exact matching, face matching for DFCs, fuzzy matching, and Scryfall fallback
+ * Handles exact matching, face matching for DFCs, fuzzy matching, printings
+ * (set and collector number, Arena ids), and Scryfall fallback (skipped in
+ * offline mode, where misses are not_found)
  */
 
-import { db } from '@/lib/db';
-import { normalizeName, parseCardNameVariants } from '@/lib/utils/card-names';
-import { getCardByName, getRulingsByCardId, type ScryfallCard } from './client';
-import type { Card, CardFace, Ruling } from '@prisma/client';
+import { isOfflineMode } from '@/lib/offline/mode';
+import {
+  nameSimilarity,
+  normalizeName,
+  parseCardNameVariants,
+  parsePrintingReference,
+  type PrintingReference,
+} from '@/lib/utils/card-names';
+import {
+  getCardByArenaId,
+  getCardByName,
+  getCardBySetAndNumber,
+  getRulingsByCardId,
+  type ScryfallCard,
+} from './client';
+import { toArenaCardFields, toCardFields, toFaceFields, toPrintingFields, toRulingFields } from './card-fields';
+import { getCardStore, type CardWithRelations } from './card-store';
+import { LruCache } from '@/lib/utils/lru-cache';
+import type { ArenaCard, Printing, Token } from '@prisma/client';
+
+export type { CardWithRelations };
 
 export type ResolveStatus =
   | 'exact'
@@ -16,16 +35,35 @@ export type ResolveStatus =
   | 'ambiguous'
   | 'not_found';
 
-export interface CardWithRelations extends Card {
-  faces: CardFace[];
-  rulings: Ruling[];
+export interface ResolveCandidate {
+  name: string;
+  oracleId: string;
+  typeLine: string;
+  score?: number; // Name similarity, 0-1
 }
 
 export interface ResolveResult {
   status: ResolveStatus;
   card?: CardWithRelations;
-  candidates?: Array<{ name: string; oracleId: string; typeLine: string }>;
+  candidates?: ResolveCandidate[]; // Best first
   matchedFace?: number;
+  score?: number; // Name similarity (0-1) of a fuzzy match
+  printing?: Printing; // When the input named a printing that's known
+  input: string;
+}
+
+// A game state token, as far as resolution is concerned
+export interface TokenQuery {
+  name: string;
+  createdBy?: string; // Oracle id of the card that made it
+  power?: string;
+  toughness?: string;
+  colors: string[];
+}
+
+export interface TokenResolveResult {
+  status: 'created_by' | 'name' | 'not_found';
+  token?: Token;
   input: string;
 }
 
@@ -33,14 +71,19 @@ export interface ResolveResult {
  * Resolve a single card name to its database entry
  */
 export async function resolveCardName(input: string): Promise<ResolveResult> {
+  // "Lightning Bolt (M11) 146", "arena:67330"
+  const printingRef = parsePrintingReference(input);
+  if (printingRef) {
+    return resolvePrintingReference(printingRef, input);
+  }
+
   const variants = parseCardNameVariants(input);
   const primaryNormalized = variants[0];
 
+  const store = getCardStore();
+
   // 1. Try exact match on full normalized name
-  let card = await db.card.findFirst({
-    where: { normalizedName: primaryNormalized },
-    include: { faces: true, rulings: true },
-  });
+  const [card] = await store.findCardsByName([primaryNormalized]);
 
   if (card) {
     return { status: 'exact', card, input };
@@ -48,14 +91,7 @@ export async function resolveCardName(input: string): Promise<ResolveResult> {
 
   // 2. Try matching on card face names (for DFC/split/adventure)
   for (const variant of variants) {
-    const face = await db.cardFace.findFirst({
-      where: { normalizedName: variant },
-      include: {
-        card: {
-          include: { faces: true, rulings: true },
-        },
-      },
-    });
+    const [face] = await store.findFacesByName([variant]);
 
     if (face) {
       return {
@@ -67,59 +103,310 @@ export async function resolveCardName(input: string): Promise<ResolveResult> {
     }
   }
 
-  // 3. Try prefix matching for potential typos
-  const candidates = await db.card.findMany({
-    where: {
-      normalizedName: {
-        startsWith: primaryNormalized.slice(0, Math.max(3, Math.floor(primaryNormalized.length / 2))),
-      },
-    },
-    take: 10,
-    select: { name: true, oracleId: true, typeLine: true },
-  });
-
-  if (candidates.length > 0) {
-    // Check if one is a very close match (could be the right one)
-    const exactCandidate = candidates.find(
-      c => normalizeName(c.name) === primaryNormalized
-    );
-
-    if (exactCandidate) {
-      // Fetch the full card
-      card = await db.card.findUnique({
-        where: { oracleId: exactCandidate.oracleId },
-        include: { faces: true, rulings: true },
-      });
-
-      if (card) {
-        return { status: 'normalized', card, input };
-      }
-    }
+  return resolveBySimilarity(input, primaryNormalized);
+}
+
+/**
+ * Steps 3 and 4, for names with no exact card or face match
+ */
+async function resolveBySimilarity(input: string, primaryNormalized: string): Promise<ResolveResult> {
+  // 3. Rank similar names (card and face names) for typos
+  const similar = await findSimilarNames(primaryNormalized);
+  const [best, runnerUp] = similar;
+
+  if (best && best.score >= AUTO_ACCEPT_SCORE && best.score - (runnerUp?.score ?? 0) >= AUTO_ACCEPT_MARGIN) {
+    const card = await getCardByOracleId(best.oracleId);
 
-    // Multiple candidates - return for disambiguation
-    if (candidates.length > 1) {
-      return { status: 'ambiguous', candidates, input };
+    if (card) {
+      return {
+        status: 'fuzzy',
+        card,
+        matchedFace: best.faceIndex ?? undefined,
+        score: best.score,
+        candidates: similar.map(toCandidate),
+        input,
+      };
     }
   }
 
+  // Several plausible names - return for disambiguation, even when the best is
+  // an exact face name with another name close behind
+  if (similar.length > 1 || (best && best.score >= MIN_CANDIDATE_SCORE)) {
+    return { status: 'ambiguous', candidates: similar.map(toCandidate), score: best.score, input };
+  }
+
   // 4. Fall back to Scryfall API
+  if (isOfflineMode()) return { status: 'not_found', input };
   return await fetchAndCacheFromScryfall(input);
 }
 
+// A fuzzy match is accepted when it's this similar and this far ahead of the next best
+const AUTO_ACCEPT_SCORE = 0.85;
+const AUTO_ACCEPT_MARGIN = 0.1;
+// A single weaker match is still offered as a candidate rather than asking Scryfall
+const MIN_CANDIDATE_SCORE = 0.5;
+const MAX_CANDIDATES = 10;
+
+interface SimilarName {
+  oracleId: string;
+  name: string;
+  typeLine: string;
+  matchedName: string; // Card or face name that matched
+  faceIndex: number | null;
+  score: number;
+}
+
+/**
+ * Find card and face names similar to a normalized name. Trigram similarity
+ * (pg_trgm's, above its 0.3 default threshold) picks the candidates; they're
+ * ranked by edit-distance similarity, best first, one per card.
+ */
+async function findSimilarNames(normalized: string): Promise<SimilarName[]> {
+  const rows = await getCardStore().findSimilarNames(normalized, 50);
+
+  const byCard = new Map<string, SimilarName>();
+  for (const { oracleId, name, typeLine, matchedName, faceIndex } of rows) {
+    const score = nameSimilarity(normalized, matchedName);
+    const existing = byCard.get(oracleId);
+    if (!existing || score > existing.score) byCard.set(oracleId, { oracleId, name, typeLine, matchedName, faceIndex, score });
+  }
+
+  return [...byCard.values()]
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_CANDIDATES);
+}
+
+function toCandidate({ name, oracleId, typeLine, score }: SimilarName): ResolveCandidate {
+  return { name, oracleId, typeLine, score: Math.round(score * 1000) / 1000 };
+}
+
+/**
+ * Resolve an input naming a printing. A set code and collector number whose
+ * printing has a different name falls back to resolving the name alone.
+ */
+async function resolvePrintingReference(ref: PrintingReference, input: string): Promise<ResolveResult> {
+  // A name and set without a collector number: any printing of the card in that set
+  if (ref.kind === 'set' && !ref.collectorNumber) {
+    const result = await resolveCardName(ref.name!);
+    if (!result.card) return { ...result, input };
+
+    const printing = await getCardStore().findPrinting({ oracleId: result.card.oracleId, setCode: ref.setCode });
+    return { ...result, printing: printing ?? undefined, input };
+  }
+
+  const printing = await findPrinting(ref);
+  if (printing && (ref.kind === 'arena' || !ref.name || printingHasName(printing, ref.name))) {
+    const card = await getCardByOracleId(printing.oracleId);
+    if (card) return { status: 'exact', card, printing, input };
+  }
+
+  // Arena ids stored before printings were synced still map to a card
+  if (ref.kind === 'arena') {
+    const [arenaCard] = await getCardStore().findArenaCards([ref.arenaId]);
+    const card = arenaCard ? await getCardByOracleId(arenaCard.oracleId) : null;
+    return card ? { status: 'exact', card, input } : { status: 'not_found', input };
+  }
+
+  if (ref.name) {
+    return { ...(await resolveCardName(ref.name)), input };
+  }
+
+  return { status: 'not_found', input };
+}
+
+/**
+ * Find a printing by Arena id or set and collector number, looking it up on
+ * Scryfall (and caching it) when bulk sync hasn't stored it
+ */
+async function findPrinting(ref: PrintingReference): Promise<Printing | null> {
+  const store = getCardStore();
+  const known = await store.findPrinting(
+    ref.kind === 'arena'
+      ? { arenaId: ref.arenaId }
+      : { setCode: ref.setCode, collectorNumber: ref.collectorNumber! }
+  );
+
+  if (known || isOfflineMode()) return known;
+
+  const scryfallCard = ref.kind === 'arena'
+    ? await getCardByArenaId(ref.arenaId)
+    : await getCardBySetAndNumber(ref.setCode, ref.collectorNumber!);
+
+  if (!scryfallCard) return null;
+
+  await cacheScryfallCard(scryfallCard);
+  return store.findPrinting({ scryfallId: scryfallCard.id });
+}
+
+/**
+ * Whether a name is a printing's name or one of its faces
+ */
+function printingHasName(printing: Printing, name: string): boolean {
+  const names = parseCardNameVariants(printing.name);
+  return parseCardNameVariants(name).some(variant => names.includes(variant));
+}
+
 /**
  * Resolve multiple card names at once
  */
 export async function resolveCardNames(inputs: string[]): Promise<ResolveResult[]> {
-  const results: ResolveResult[] = [];
+  const results = new Map<string, ResolveResult>(); // By input
+  const names: Array<{ input: string; variants: string[] }> = [];
+  const printings: string[] = [];
+
+  for (const input of new Set(inputs)) {
+    if (parsePrintingReference(input)) {
+      printings.push(input);
+      continue;
+    }
+
+    const cached = resolveCache.get(normalizeName(input));
+    if (cached) {
+      results.set(input, { ...cached, input });
+    } else {
+      names.push({ input, variants: parseCardNameVariants(input) });
+    }
+  }
+
+  // Steps 1 and 2 for every name at once: exact names, then face names
+  const store = getCardStore();
+  const cards = names.length > 0
+    ? await store.findCardsByName(names.map(name => name.variants[0]))
+    : [];
+  const cardsByName = firstByKey(cards, card => card.normalizedName);
+
+  const unmatched = names.filter(name => !cardsByName.has(name.variants[0]));
+  const faces = unmatched.length > 0
+    ? await store.findFacesByName([...new Set(unmatched.flatMap(name => name.variants))])
+    : [];
+  const facesByName = firstByKey(faces, face => face.normalizedName);
+
+  const misses: typeof names = [];
+  for (const { input, variants } of names) {
+    const card = cardsByName.get(variants[0]);
+    const face = card ? undefined : variants.map(variant => facesByName.get(variant)).find(Boolean);
+
+    if (card) {
+      results.set(input, { status: 'exact', card, input });
+    } else if (face) {
+      results.set(input, { status: 'face_match', card: face.card, matchedFace: face.faceIndex, input });
+    } else {
+      misses.push({ input, variants });
+    }
+  }
+
+  // Misses and printings are resolved one at a time
+  for (const { input, variants } of misses) {
+    results.set(input, await resolveBySimilarity(input, variants[0]));
+  }
+  for (const input of printings) {
+    results.set(input, await resolveCardName(input));
+  }
+
+  // Only found cards are cached; a sync or Scryfall lookup can fill in the rest
+  for (const { input } of names) {
+    const result = results.get(input)!;
+    if (result.card) resolveCache.set(normalizeName(input), result);
+  }
+
+  return inputs.map(input => results.get(input)!);
+}
+
+// Resolved names, keyed by normalized input. Cleared when a bulk sync completes.
+const resolveCache = new LruCache<ResolveResult>(5000, 10 * 60 * 1000);
+
+/**
+ * Forget cached resolutions, e.g. after card data changed
+ */
+export function clearResolveCache(): void {
+  resolveCache.clear();
+}
+
+function firstByKey<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  const map = new Map<string, T>();
+  for (const item of items) {
+    if (!map.has(key(item))) map.set(key(item), item);
+  }
+  return map;
+}
+
+/**
+ * Resolve a game state token to a token card synced from Scryfall: among the
+ * tokens its createdBy card makes, else by name. Many tokens share a name
+ * ("Soldier"), so ties go to the one whose power, toughness and colors match.
+ */
+export async function resolveToken(query: TokenQuery): Promise<TokenResolveResult> {
+  const normalized = normalizeName(query.name);
+  const store = getCardStore();
+
+  if (query.createdBy) {
+    const made = await store.findTokens({ createdBy: query.createdBy });
+    const named = made.filter(token => token.normalizedName === normalized);
+    // A card that makes a single token made this one, whatever it was called
+    const match = pickToken(named.length > 0 ? named : made.length === 1 ? made : [], query);
+    if (match) return { status: 'created_by', token: match, input: query.name };
+  }
+
+  const byName = await store.findTokens({ normalizedName: normalized });
+  const match = pickToken(byName, query);
 
-  for (const input of inputs) {
-    const result = await resolveCardName(input);
-    results.push(result);
+  return match ? { status: 'name', token: match, input: query.name } : { status: 'not_found', input: query.name };
+}
+
+/**
+ * Resolve multiple tokens at once
+ */
+export async function resolveTokens(queries: TokenQuery[]): Promise<TokenResolveResult[]> {
+  const results: TokenResolveResult[] = [];
+
+  for (const query of queries) {
+    results.push(await resolveToken(query));
   }
 
   return results;
 }
 
+function pickToken(tokens: Token[], query: TokenQuery): Token | null {
+  const colors = query.colors.map(color => color.toUpperCase()).sort().join('');
+  const score = (token: Token) =>
+    (query.power !== undefined && token.power === query.power ? 1 : 0)
+    + (query.toughness !== undefined && token.toughness === query.toughness ? 1 : 0)
+    + ([...token.colors].sort().join('') === colors ? 1 : 0);
+
+  let best: Token | null = null;
+  for (const token of tokens) {
+    if (!best || score(token) > score(best)) best = token;
+  }
+  return best;
+}
+
+/**
+ * Map MTG Arena grpIds to cards.
+ * Uses the grpIds stored by bulk sync and looks up the rest on Scryfall;
+ * grpIds Scryfall doesn't know (e.g. some tokens), or that aren't stored in
+ * offline mode, are left out of the result.
+ */
+export async function resolveArenaIds(grpIds: number[]): Promise<Map<number, ArenaCard>> {
+  const store = getCardStore();
+  const unique = [...new Set(grpIds)];
+  const known = await store.findArenaCards(unique);
+
+  const result = new Map(known.map(card => [card.grpId, card]));
+  if (isOfflineMode()) return result;
+
+  for (const grpId of unique) {
+    if (result.has(grpId)) continue;
+
+    const scryfallCard = await getCardByArenaId(grpId);
+    if (!scryfallCard) continue;
+
+    const card = await store.upsertArenaCard({ ...toArenaCardFields(scryfallCard)!, grpId });
+    result.set(grpId, card);
+  }
+
+  return result;
+}
+
 /**
  * Fetch a card from Scryfall and cache it in the database
  */
@@ -130,125 +417,39 @@ async function fetchAndCacheFromScryfall(input: string): Promise<ResolveResult>
     return { status: 'not_found', input };
   }
 
-  // Cache the card in our database
-  const card = await upsertCardFromScryfall(scryfallCard);
-
-  // Also fetch and cache rulings
-  try {
-    const rulings = await getRulingsByCardId(scryfallCard.id);
-    if (rulings.length > 0) {
-      await upsertRulings(scryfallCard.oracle_id, rulings);
-    }
-  } catch (error) {
-    console.error(`Failed to fetch rulings for ${scryfallCard.name}:`, error);
-  }
-
-  // Fetch the complete card with relations
-  const fullCard = await db.card.findUnique({
-    where: { oracleId: card.oracleId },
-    include: { faces: true, rulings: true },
-  });
+  const fullCard = await cacheScryfallCard(scryfallCard);
 
   return {
     status: 'fuzzy',
     card: fullCard || undefined,
+    score: Math.max(...parseCardNameVariants(scryfallCard.name).map(name => nameSimilarity(input, name))),
     input,
   };
 }
 
 /**
- * Upsert a card from Scryfall data
+ * Cache a Scryfall card, its printing and its rulings in the database
  */
-async function upsertCardFromScryfall(scryfallCard: ScryfallCard): Promise<Card> {
-  const normalizedCardName = normalizeName(scryfallCard.name);
-
-  const card = await db.card.upsert({
-    where: { oracleId: scryfallCard.oracle_id },
-    create: {
-      oracleId: scryfallCard.oracle_id,
-      scryfallId: scryfallCard.id,
-      name: scryfallCard.name,
-      normalizedName: normalizedCardName,
-      layout: scryfallCard.layout,
-      manaCost: scryfallCard.mana_cost,
-      cmc: scryfallCard.cmc,
-      typeLine: scryfallCard.type_line,
-      oracleText: scryfallCard.oracle_text,
-      colors: scryfallCard.colors || [],
-      colorIdentity: scryfallCard.color_identity,
-      keywords: scryfallCard.keywords,
-      releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
-    },
-    update: {
-      scryfallId: scryfallCard.id,
-      name: scryfallCard.name,
-      normalizedName: normalizedCardName,
-      layout: scryfallCard.layout,
-      manaCost: scryfallCard.mana_cost,
-      cmc: scryfallCard.cmc,
-      typeLine: scryfallCard.type_line,
-      oracleText: scryfallCard.oracle_text,
-      colors: scryfallCard.colors || [],
-      colorIdentity: scryfallCard.color_identity,
-      keywords: scryfallCard.keywords,
-      releasedAt: scryfallCard.released_at ? new Date(scryfallCard.released_at) : null,
-    },
-  });
-
-  // Handle multi-face cards
+async function cacheScryfallCard(scryfallCard: ScryfallCard): Promise<CardWithRelations | null> {
+  const store = getCardStore();
+  const cardId = await store.upsertCard(toCardFields(scryfallCard));
   if (scryfallCard.card_faces && scryfallCard.card_faces.length > 0) {
-    // Delete existing faces
-    await db.cardFace.deleteMany({
-      where: { cardId: card.id },
-    });
-
-    // Create new faces
-    for (let i = 0; i < scryfallCard.card_faces.length; i++) {
-      const face = scryfallCard.card_faces[i];
-      await db.cardFace.create({
-        data: {
-          cardId: card.id,
-          faceIndex: i,
-          name: face.name,
-          normalizedName: normalizeName(face.name),
-          manaCost: face.mana_cost,
-          typeLine: face.type_line,
-          oracleText: face.oracle_text,
-          power: face.power,
-          toughness: face.toughness,
-          loyalty: face.loyalty,
-          defense: face.defense,
-        },
-      });
-    }
+    await store.replaceFaces(cardId, scryfallCard.card_faces.map(toFaceFields));
   }
+  await store.upsertPrinting(toPrintingFields(scryfallCard));
 
-  return card;
-}
-
-/**
- * Upsert rulings for a card
- */
-async function upsertRulings(
-  oracleId: string,
-  rulings: Array<{ published_at: string; comment: string; source: string }>
-): Promise<void> {
-  // Delete existing rulings
-  await db.ruling.deleteMany({
-    where: { oracleId },
-  });
-
-  // Insert new rulings
-  for (const ruling of rulings) {
-    await db.ruling.create({
-      data: {
-        oracleId,
-        publishedAt: new Date(ruling.published_at),
-        comment: ruling.comment,
-        source: ruling.source,
-      },
-    });
+  // Also fetch and cache rulings
+  try {
+    const rulings = await getRulingsByCardId(scryfallCard.id);
+    if (rulings.length > 0) {
+      await store.replaceRulings(scryfallCard.oracle_id, rulings.map(toRulingFields));
+    }
+  } catch (error) {
+    console.error(`Failed to fetch rulings for ${scryfallCard.name}:`, error);
   }
+
+  // Fetch the complete card with relations
+  return getCardByOracleId(scryfallCard.oracle_id);
 }
 
 /**
@@ -260,50 +461,20 @@ export async function autocompleteCards(
 ): Promise<Array<{ name: string; oracleId: string; typeLine: string }>> {
   if (query.length < 2) return [];
 
-  const normalized = normalizeName(query);
-
-  // First try prefix matches (faster, more relevant)
-  const prefixMatches = await db.card.findMany({
-    where: { normalizedName: { startsWith: normalized } },
-    take: limit,
-    select: { name: true, oracleId: true, typeLine: true },
-    orderBy: { name: 'asc' },
-  });
-
-  if (prefixMatches.length >= limit) {
-    return prefixMatches;
-  }
-
-  // Then try contains matches
-  const containsMatches = await db.card.findMany({
-    where: {
-      normalizedName: { contains: normalized },
-      NOT: { normalizedName: { startsWith: normalized } },
-    },
-    take: limit - prefixMatches.length,
-    select: { name: true, oracleId: true, typeLine: true },
-    orderBy: { name: 'asc' },
-  });
-
-  return [...prefixMatches, ...containsMatches];
+  return getCardStore().autocomplete(normalizeName(query), limit);
 }
 
 /**
  * Get a card by oracle ID with all relations
  */
 export async function getCardByOracleId(oracleId: string): Promise<CardWithRelations | null> {
-  return db.card.findUnique({
-    where: { oracleId },
-    include: { faces: true, rulings: true },
-  });
+  const [card] = await getCardStore().getCardsByOracleId([oracleId]);
+  return card ?? null;
 }
 
 /**
  * Get multiple cards by oracle IDs
  */
 export async function getCardsByOracleIds(oracleIds: string[]): Promise<CardWithRelations[]> {
-  return db.card.findMany({
-    where: { oracleId: { in: oracleIds } },
-    include: { faces: true, rulings: true },
-  });
+  return getCardStore().getCardsByOracleId(oracleIds);
 }
@@ -0,0 +1,272 @@
+/**
+ * Card store
+ * The reads and writes card resolution and bulk sync make, so both run
+ * against Postgres or, in offline mode, the SQLite store
+ */
+
+import { db } from '@/lib/db';
+import { isOfflineMode } from '@/lib/offline/mode';
+import { getSqliteStore } from '@/lib/offline/sqlite-store';
+import type { ArenaCard, Card, CardFace, Printing, Ruling, Token } from '@prisma/client';
+import type {
+  ArenaCardFields,
+  CardFaceFields,
+  CardFields,
+  PrintingFields,
+  RulingFields,
+  TokenFields,
+} from './card-fields';
+
+export interface CardWithRelations extends Card {
+  faces: CardFace[];
+  rulings: Ruling[];
+}
+
+export interface FaceWithCard extends CardFace {
+  card: CardWithRelations;
+}
+
+// A card or face name with trigrams in common with the name looked up
+export interface NameMatch {
+  oracleId: string;
+  name: string;
+  typeLine: string;
+  matchedName: string; // Card or face name that matched
+  faceIndex: number | null;
+  trigram: number; // pg_trgm similarity, 0-1
+}
+
+export type PrintingLookup =
+  | { scryfallId: string }
+  | { arenaId: number }
+  | { setCode: string; collectorNumber: string }
+  | { oracleId: string; setCode: string }; // The set's first printing by collector number
+
+// Another card's token, as listed in its all_parts
+export interface TokenPart {
+  scryfallId: string;
+  normalizedName: string;
+  typeLine: string;
+}
+
+export interface CardStore {
+  // ============ Reads ============
+  findCardsByName(normalizedNames: string[]): Promise<CardWithRelations[]>;
+  findFacesByName(normalizedNames: string[]): Promise<FaceWithCard[]>;
+  findSimilarNames(normalized: string, limit: number): Promise<NameMatch[]>; // Best trigram match first
+  getCardsByOracleId(oracleIds: string[]): Promise<CardWithRelations[]>;
+  findPrinting(lookup: PrintingLookup): Promise<Printing | null>;
+  findArenaCards(grpIds: number[]): Promise<ArenaCard[]>;
+  findTokens(where: { createdBy: string } | { normalizedName: string }): Promise<Token[]>;
+  autocomplete(normalized: string, limit: number): Promise<Array<{ name: string; oracleId: string; typeLine: string }>>;
+
+  // ============ Writes ============
+  upsertCard(card: CardFields): Promise<string>; // The card's id
+  replaceFaces(cardId: string, faces: CardFaceFields[]): Promise<void>;
+  hasCard(oracleId: string): Promise<boolean>;
+  findOracleIds(where: { scryfallIds: string[]; normalizedNames: string[] }): Promise<string[]>;
+  upsertPrinting(printing: PrintingFields): Promise<void>;
+  upsertArenaCard(arenaCard: ArenaCardFields): Promise<ArenaCard>;
+  getTokenCreators(scryfallId: string): Promise<string[] | null>; // Null when the token isn't stored
+  upsertToken(token: TokenFields): Promise<void>;
+  addTokenCreator(part: TokenPart, oracleId: string): Promise<void>;
+  replaceRulings(oracleId: string, rulings: RulingFields[]): Promise<void>;
+}
+
+/**
+ * The store for this process: SQLite in offline mode, otherwise Postgres
+ */
+export function getCardStore(): CardStore {
+  return isOfflineMode() ? getSqliteStore() : postgresCardStore;
+}
+
+// ============ Postgres ============
+
+const withRelations = { faces: true, rulings: true } as const;
+
+export const postgresCardStore: CardStore = {
+  findCardsByName(normalizedNames) {
+    return db.card.findMany({
+      where: { normalizedName: { in: normalizedNames } },
+      include: withRelations,
+    });
+  },
+
+  findFacesByName(normalizedNames) {
+    return db.cardFace.findMany({
+      where: { normalizedName: { in: normalizedNames } },
+      include: { card: { include: withRelations } },
+    });
+  },
+
+  // pg_trgm's % operator keeps names above its 0.3 default threshold
+  findSimilarNames(normalized, limit) {
+    return db.$queryRaw<NameMatch[]>`
+      SELECT c.oracle_id AS "oracleId", c.name, c.type_line AS "typeLine",
+             c.normalized_name AS "matchedName", NULL::int AS "faceIndex",
+             similarity(c.normalized_name, ${normalized}) AS trigram
+      FROM cards c
+      WHERE c.normalized_name % ${normalized}
+      UNION ALL
+      SELECT c.oracle_id, c.name, c.type_line, f.normalized_name, f.face_index,
+             similarity(f.normalized_name, ${normalized})
+      FROM card_faces f JOIN cards c ON c.id = f.card_id
+      WHERE f.normalized_name % ${normalized}
+      ORDER BY trigram DESC
+      LIMIT ${limit}
+    `;
+  },
+
+  getCardsByOracleId(oracleIds) {
+    return db.card.findMany({
+      where: { oracleId: { in: oracleIds } },
+      include: withRelations,
+    });
+  },
+
+  findPrinting(lookup) {
+    return db.printing.findFirst({
+      where: lookup,
+      orderBy: { collectorNumber: 'asc' },
+    });
+  },
+
+  findArenaCards(grpIds) {
+    return db.arenaCard.findMany({
+      where: { grpId: { in: grpIds } },
+    });
+  },
+
+  findTokens(where) {
+    return db.token.findMany({
+      where: 'createdBy' in where ? { createdBy: { has: where.createdBy } } : where,
+    });
+  },
+
+  async autocomplete(normalized, limit) {
+    const select = { name: true, oracleId: true, typeLine: true } as const;
+
+    // First try prefix matches (faster, more relevant)
+    const prefixMatches = await db.card.findMany({
+      where: { normalizedName: { startsWith: normalized } },
+      take: limit,
+      select,
+      orderBy: { name: 'asc' },
+    });
+
+    if (prefixMatches.length >= limit) {
+      return prefixMatches;
+    }
+
+    // Then try contains matches
+    const containsMatches = await db.card.findMany({
+      where: {
+        normalizedName: { contains: normalized },
+        NOT: { normalizedName: { startsWith: normalized } },
+      },
+      take: limit - prefixMatches.length,
+      select,
+      orderBy: { name: 'asc' },
+    });
+
+    return [...prefixMatches, ...containsMatches];
+  },
+
+  async upsertCard(card) {
+    const { id } = await db.card.upsert({
+      where: { oracleId: card.oracleId },
+      create: card,
+      update: card,
+      select: { id: true },
+    });
+    return id;
+  },
+
+  async replaceFaces(cardId, faces) {
+    await db.cardFace.deleteMany({
+      where: { cardId },
+    });
+    for (const face of faces) {
+      await db.cardFace.create({
+        data: { cardId, ...face },
+      });
+    }
+  },
+
+  async hasCard(oracleId) {
+    const card = await db.card.findUnique({
+      where: { oracleId },
+      select: { id: true },
+    });
+    return card !== null;
+  },
+
+  async findOracleIds({ scryfallIds, normalizedNames }) {
+    const cards = await db.card.findMany({
+      where: {
+        OR: [
+          { scryfallId: { in: scryfallIds } },
+          { normalizedName: { in: normalizedNames } },
+        ],
+      },
+      select: { oracleId: true },
+    });
+    return cards.map(card => card.oracleId);
+  },
+
+  async upsertPrinting(printing) {
+    await db.printing.upsert({
+      where: { scryfallId: printing.scryfallId },
+      create: printing,
+      update: printing,
+    });
+  },
+
+  upsertArenaCard(arenaCard) {
+    return db.arenaCard.upsert({
+      where: { grpId: arenaCard.grpId },
+      create: arenaCard,
+      update: arenaCard,
+    });
+  },
+
+  async getTokenCreators(scryfallId) {
+    const token = await db.token.findUnique({
+      where: { scryfallId },
+      select: { createdBy: true },
+    });
+    return token?.createdBy ?? null;
+  },
+
+  async upsertToken(token) {
+    await db.token.upsert({
+      where: { scryfallId: token.scryfallId },
+      create: token,
+      update: token,
+    });
+  },
+
+  async addTokenCreator(part, oracleId) {
+    await db.token.updateMany({
+      where: {
+        OR: [
+          { scryfallId: part.scryfallId },
+          { normalizedName: part.normalizedName, typeLine: part.typeLine },
+        ],
+        NOT: { createdBy: { has: oracleId } },
+      },
+      data: { createdBy: { push: oracleId } },
+    });
+  },
+
+  async replaceRulings(oracleId, rulings) {
+    await db.ruling.deleteMany({
+      where: { oracleId },
+    });
+    for (const ruling of rulings) {
+      await db.ruling.create({
+        data: { oracleId, ...ruling },
+      });
+    }
+  },
+};
@@ -3,6 +3,8 @@
  * Respects Scryfall's rate limits: max 10 requests/second
  */
 
+import { isOfflineMode } from '@/lib/offline/mode';
+
 const SCRYFALL_BASE_URL = 'https://api.scryfall.com';
 
 const SCRYFALL_HEADERS = {
@@ -40,6 +42,12 @@ export class ScryfallError extends Error {
   }
 }
 
+function assertOnline(): void {
+  if (isOfflineMode()) {
+    throw new ScryfallError('Scryfall is unavailable in offline mode', 503, 'OFFLINE_MODE is set');
+  }
+}
+
 /**
  * Fetch from Scryfall with automatic rate limiting and backoff on 429
  */
@@ -51,6 +59,7 @@ export async function fetchWithBackoff(
   } = {}
 ): Promise<Response> {
   const { retries = 3, timeout = 30000 } = options;
+  assertOnline();
 
   for (let attempt = 0; attempt < retries; attempt++) {
     await rateLimiter.throttle();
@@ -128,7 +137,7 @@ export async function getBulkDataManifest(): Promise<BulkDataResponse> {
 /**
  * Get a specific bulk data download URL
  */
-export async function getBulkDataUrl(type: 'oracle_cards' | 'rulings' | 'all_cards'): Promise<BulkDataInfo> {
+export async function getBulkDataUrl(type: 'oracle_cards' | 'default_cards' | 'rulings' | 'all_cards'): Promise<BulkDataInfo> {
   const manifest = await getBulkDataManifest();
   const bulkData = manifest.data.find(d => d.type === type);
   if (!bulkData) {
@@ -146,14 +155,35 @@ export interface ScryfallCard {
   cmc: number;
   type_line: string;
   oracle_text?: string;
+  power?: string;
+  toughness?: string;
+  loyalty?: string;
   colors?: string[];
   color_identity: string[];
   keywords: string[];
+  legalities?: Record<string, ScryfallLegality>; // Keyed by format, e.g. "pioneer"
   released_at?: string;
+  set: string; // Set code of this printing, e.g. "m11"
+  set_name: string;
+  collector_number: string;
+  rarity: string;
+  lang: string;
+  arena_id?: number; // MTG Arena grpId of this printing
+  mtgo_id?: number;
   rulings_uri: string;
   card_faces?: ScryfallCardFace[];
+  all_parts?: ScryfallRelatedCard[]; // Tokens it makes, or for a token the cards that make it
 }
 
+export interface ScryfallRelatedCard {
+  id: string; // Scryfall id of the related printing
+  component: 'token' | 'meld_part' | 'meld_result' | 'combo_piece';
+  name: string;
+  type_line: string;
+}
+
+export type ScryfallLegality = 'legal' | 'not_legal' | 'banned' | 'restricted';
+
 export interface ScryfallCardFace {
   name: string;
   mana_cost?: string;
@@ -200,6 +230,52 @@ export async function getCardByName(
   return response.json();
 }
 
+/**
+ * Fetch a card printing by its MTG Arena ID (grpId)
+ */
+export async function getCardByArenaId(arenaId: number): Promise<ScryfallCard | null> {
+  const url = `${SCRYFALL_BASE_URL}/cards/arena/${arenaId}`;
+
+  const response = await fetchWithBackoff(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new ScryfallError(
+      'Failed to fetch card by Arena ID',
+      response.status,
+      await response.text()
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a card printing by set code and collector number
+ */
+export async function getCardBySetAndNumber(setCode: string, collectorNumber: string): Promise<ScryfallCard | null> {
+  const url = `${SCRYFALL_BASE_URL}/cards/${encodeURIComponent(setCode)}/${encodeURIComponent(collectorNumber)}`;
+
+  const response = await fetchWithBackoff(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new ScryfallError(
+      'Failed to fetch card by set and collector number',
+      response.status,
+      await response.text()
+    );
+  }
+
+  return response.json();
+}
+
 /**
  * Fetch rulings for a card by its Scryfall ID
  */
@@ -241,6 +317,7 @@ export async function autocomplete(query: string): Promise<string[]> {
  * Stream download bulk data (returns a ReadableStream)
  */
 export async function streamBulkData(downloadUrl: string): Promise<ReadableStream<Uint8Array>> {
+  assertOnline();
   const response = await fetch(downloadUrl, {
     headers: SCRYFALL_HEADERS,
   });
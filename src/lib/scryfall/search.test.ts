@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseSearchQuery, SearchQueryError, toCardWhere } from './search';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+const where = (query: string) => toCardWhere(parseSearchQuery(query));
+
+describe('toCardWhere', () => {
+  it.each([
+    ['t:goblin', { typeLine: { contains: 'goblin', mode: 'insensitive' } }],
+    ['cmc>=3', { cmc: { gte: 3 } }],
+    ['mv=2', { cmc: { equals: 2 } }],
+    ['kw:"first strike"', { keywords: { has: 'First strike' } }],
+    ['kw:FLYING', { keywords: { has: 'Flying' } }],
+    ['is:dfc', { layout: { in: ['transform', 'modal_dfc', 'meld', 'double_faced_token', 'reversible_card'] } }],
+    ['!"Lightning Bolt"', { normalizedName: 'lightning bolt' }],
+  ])('%s', (query, expected) => {
+    expect(where(query)).toEqual(expected);
+  });
+
+  it('searches card and face text with a quoted o:', () => {
+    expect(where('o:"draw a card"')).toEqual({
+      OR: [
+        { oracleText: { contains: 'draw a card', mode: 'insensitive' } },
+        { faces: { some: { oracleText: { contains: 'draw a card', mode: 'insensitive' } } } },
+      ],
+    });
+  });
+
+  it('treats c: as having every color and id<= as a subset', () => {
+    expect(where('c:ur')).toEqual({ colors: { hasEvery: ['U', 'R'] } });
+    expect(where('id<=wu')).toEqual({ NOT: { colorIdentity: { hasSome: ['B', 'R', 'G'] } } });
+    expect(where('id:wu')).toEqual(where('id<=wu'));
+  });
+
+  it('combines terms with and, or, parentheses and negation', () => {
+    expect(where('t:instant -(o:counter or cmc>2)')).toEqual({
+      AND: [
+        { typeLine: { contains: 'instant', mode: 'insensitive' } },
+        {
+          NOT: {
+            OR: [
+              {
+                OR: [
+                  { oracleText: { contains: 'counter', mode: 'insensitive' } },
+                  { faces: { some: { oracleText: { contains: 'counter', mode: 'insensitive' } } } },
+                ],
+              },
+              { cmc: { gt: 2 } },
+            ],
+          },
+        },
+      ],
+    });
+  });
+});
+
+describe('SearchQueryError', () => {
+  it.each([
+    ['cmc>=x', '"x" isn\'t a number', 0],
+    ['t:elf c:', 'Missing value for "c:"', 6],
+    ['t:elf (o:draw or o:discard', 'Unclosed parenthesis', 6],
+    ['c:wx', 'Unknown color "wx"', 0],
+    ['is:split t:', 'Missing value for "t:"', 9],
+  ])('%s', (query, message, position) => {
+    let error: unknown;
+    try {
+      where(query);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(SearchQueryError);
+    expect(error).toMatchObject({ message, position });
+  });
+});
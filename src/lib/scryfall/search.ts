@@ -0,0 +1,457 @@
+/**
+ * Local card search
+ * Runs a subset of Scryfall's query syntax against the Card and CardFace
+ * tables: t:, o:, c:, id:, cmc/mv, kw:, is:, f:, names, AND/OR, negation
+ * and parentheses.
+ */
+
+import { db } from '@/lib/db';
+import type { Prisma } from '@prisma/client';
+import { normalizeName } from '@/lib/utils/card-names';
+import { normalizeFormat } from '@/lib/rules/legality';
+
+// ============ Types ============
+
+export type SearchOperator = ':' | '=' | '!=' | '>=' | '<=' | '>' | '<';
+
+export type SearchNode =
+  | { type: 'and'; nodes: SearchNode[] }
+  | { type: 'or'; nodes: SearchNode[] }
+  | { type: 'not'; node: SearchNode }
+  | { type: 'term'; key: string; operator: SearchOperator; value: string; position: number };
+
+export class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    public position: number // Offset in the query string
+  ) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export interface SearchCard {
+  oracleId: string;
+  name: string;
+  manaCost: string | null;
+  cmc: number;
+  typeLine: string;
+  oracleText: string | null;
+  power: string | null;
+  toughness: string | null;
+  loyalty: string | null;
+  colors: string[];
+  colorIdentity: string[];
+  keywords: string[];
+  layout: string;
+  faces: Array<{ name: string; manaCost: string | null; typeLine: string; oracleText: string | null }>;
+}
+
+export interface SearchResult {
+  cards: SearchCard[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+// ============ Vocabulary ============
+
+const KEY_ALIASES: Record<string, string> = {
+  name: 'name',
+  t: 'type',
+  type: 'type',
+  o: 'oracle',
+  oracle: 'oracle',
+  c: 'color',
+  color: 'color',
+  id: 'identity',
+  identity: 'identity',
+  ci: 'identity',
+  cmc: 'cmc',
+  mv: 'cmc',
+  manavalue: 'cmc',
+  kw: 'keyword',
+  keyword: 'keyword',
+  is: 'is',
+  f: 'format',
+  format: 'format',
+  legal: 'format',
+  banned: 'banned',
+};
+
+const COLORS = ['W', 'U', 'B', 'R', 'G'];
+
+const COLOR_NAMES: Record<string, string> = {
+  white: 'W',
+  blue: 'U',
+  black: 'B',
+  red: 'R',
+  green: 'G',
+  colorless: '',
+  azorius: 'WU',
+  dimir: 'UB',
+  rakdos: 'BR',
+  gruul: 'RG',
+  selesnya: 'GW',
+  orzhov: 'WB',
+  izzet: 'UR',
+  golgari: 'BG',
+  boros: 'RW',
+  simic: 'GU',
+};
+
+// is: values and the layouts they cover
+const IS_LAYOUTS: Record<string, string[]> = {
+  dfc: ['transform', 'modal_dfc', 'meld', 'double_faced_token', 'reversible_card'],
+  mdfc: ['modal_dfc'],
+  tdfc: ['transform'],
+  transform: ['transform'],
+  meld: ['meld'],
+  split: ['split'],
+  flip: ['flip'],
+  adventure: ['adventure'],
+  leveler: ['leveler'],
+  saga: ['saga'],
+  token: ['token', 'double_faced_token'],
+};
+
+// ============ Parser ============
+
+type Token =
+  | { kind: 'open' | 'close' | 'or' | 'not'; position: number }
+  | { kind: 'word'; text: string; quoted: boolean; position: number };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: i });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+    } else {
+      // A word runs to whitespace or a parenthesis outside quotes, e.g. o:"draw a card"
+      const start = i;
+      const quoted = char === '"'; // A quoted word is always a name, even with a colon in it
+      let text = '';
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          if (end === -1) throw new SearchQueryError('Unclosed quote', i);
+          text += query.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          text += query[i++];
+        }
+      }
+
+      if (!quoted && text.toLowerCase() === 'or') {
+        tokens.push({ kind: 'or', position: start });
+      } else if (quoted || text.toLowerCase() !== 'and') {
+        tokens.push({ kind: 'word', text, quoted, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query. Terms next to each other are ANDed, "or" binds looser,
+ * "-" negates a term or group, e.g. `t:instant cmc<3 (o:counter or o:"return target")`
+ */
+export function parseSearchQuery(query: string): SearchNode {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const parseOr = (): SearchNode => {
+    const nodes = [parseAnd()];
+    while (tokens[index]?.kind === 'or') {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const nodes: SearchNode[] = [];
+    while (index < tokens.length && tokens[index].kind !== 'or' && tokens[index].kind !== 'close') {
+      nodes.push(parseUnary());
+    }
+    if (nodes.length === 0) {
+      throw new SearchQueryError('Expected a search term', tokens[index]?.position ?? query.length);
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): SearchNode => {
+    const token = tokens[index++];
+
+    if (token.kind === 'not') {
+      if (index >= tokens.length) throw new SearchQueryError('Nothing to negate', token.position);
+      return { type: 'not', node: parseUnary() };
+    }
+
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (tokens[index]?.kind !== 'close') throw new SearchQueryError('Unclosed parenthesis', token.position);
+      index++;
+      return node;
+    }
+
+    if (token.kind !== 'word') {
+      throw new SearchQueryError(`Unexpected "${token.kind === 'close' ? ')' : token.kind}"`, token.position);
+    }
+
+    return parseTerm(token);
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new SearchQueryError('Unmatched closing parenthesis', tokens[index].position);
+  }
+  return node;
+}
+
+function parseTerm(token: Extract<Token, { kind: 'word' }>): SearchNode {
+  const { text, quoted, position } = token;
+
+  if (!quoted) {
+    const match = text.match(/^([a-z]+)(!=|>=|<=|:|=|>|<)(.*)$/i);
+    if (match) {
+      const key = KEY_ALIASES[match[1].toLowerCase()];
+      if (!key) throw new SearchQueryError(`Unknown keyword "${match[1]}"`, position);
+      if (!match[3]) throw new SearchQueryError(`Missing value for "${match[1]}${match[2]}"`, position);
+      return { type: 'term', key, operator: match[2] as SearchOperator, value: match[3], position };
+    }
+
+    // !name is an exact name match
+    if (text.startsWith('!') && text.length > 1) {
+      return { type: 'term', key: 'name', operator: '=', value: text.slice(1), position };
+    }
+  }
+
+  return { type: 'term', key: 'name', operator: ':', value: text, position };
+}
+
+// ============ Prisma Filters ============
+
+/**
+ * Turn a parsed query into a Prisma filter on cards
+ */
+export function toCardWhere(node: SearchNode): Prisma.CardWhereInput {
+  switch (node.type) {
+    case 'and':
+      return { AND: node.nodes.map(toCardWhere) };
+    case 'or':
+      return { OR: node.nodes.map(toCardWhere) };
+    case 'not':
+      return { NOT: toCardWhere(node.node) };
+    case 'term':
+      return termToWhere(node);
+  }
+}
+
+function termToWhere(term: Extract<SearchNode, { type: 'term' }>): Prisma.CardWhereInput {
+  const { key, operator, value, position } = term;
+  const textOnly = () => {
+    if (operator !== ':' && operator !== '=') {
+      throw new SearchQueryError(`"${key}" only supports ":"`, position);
+    }
+  };
+
+  switch (key) {
+    case 'name': {
+      const normalized = normalizeName(value);
+      return operator === '='
+        ? { normalizedName: normalized }
+        : { normalizedName: { contains: normalized } };
+    }
+
+    case 'type':
+      textOnly();
+      return { typeLine: { contains: value, mode: 'insensitive' } };
+
+    case 'oracle':
+      textOnly();
+      // Double-faced cards keep their text on the faces
+      return {
+        OR: [
+          { oracleText: { contains: value, mode: 'insensitive' } },
+          { faces: { some: { oracleText: { contains: value, mode: 'insensitive' } } } },
+        ],
+      };
+
+    case 'color':
+      return colorWhere('colors', operator === ':' ? '>=' : operator, value, position);
+
+    case 'identity':
+      // Like Scryfall, id: finds cards that fit a commander of that identity
+      return colorWhere('colorIdentity', operator === ':' ? '<=' : operator, value, position);
+
+    case 'cmc': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) throw new SearchQueryError(`"${value}" isn't a number`, position);
+      return { cmc: numberFilter(operator, number) };
+    }
+
+    case 'keyword':
+      textOnly();
+      // Scryfall keywords are capitalized like "First strike"
+      return { keywords: { has: value.charAt(0).toUpperCase() + value.slice(1).toLowerCase() } };
+
+    case 'is': {
+      textOnly();
+      const layouts = IS_LAYOUTS[value.toLowerCase()];
+      if (!layouts) {
+        throw new SearchQueryError(`Unknown is: value "${value}" (known: ${Object.keys(IS_LAYOUTS).join(', ')})`, position);
+      }
+      return { layout: { in: layouts } };
+    }
+
+    case 'format':
+    case 'banned': {
+      textOnly();
+      const format = normalizeFormat(value);
+      if (!format) throw new SearchQueryError(`Unknown format "${value}"`, position);
+      if (key === 'banned') return { legalities: { path: [format], equals: 'banned' } };
+      return {
+        OR: [
+          { legalities: { path: [format], equals: 'legal' } },
+          { legalities: { path: [format], equals: 'restricted' } },
+        ],
+      };
+    }
+
+    default:
+      throw new SearchQueryError(`Unknown keyword "${key}"`, position);
+  }
+}
+
+function numberFilter(operator: SearchOperator, value: number): Prisma.FloatFilter {
+  switch (operator) {
+    case ':':
+    case '=':
+      return { equals: value };
+    case '!=':
+      return { not: value };
+    case '>=':
+      return { gte: value };
+    case '<=':
+      return { lte: value };
+    case '>':
+      return { gt: value };
+    case '<':
+      return { lt: value };
+  }
+}
+
+/**
+ * Compare a color array to a set of colors: >= includes them all, <= has
+ * nothing outside them, = both. "m" (multicolor) only works with ":".
+ */
+function colorWhere(
+  field: 'colors' | 'colorIdentity',
+  operator: SearchOperator,
+  value: string,
+  position: number
+): Prisma.CardWhereInput {
+  const lower = value.toLowerCase();
+
+  if (lower === 'm' || lower === 'multicolor') {
+    if (operator !== '>=') throw new SearchQueryError('Multicolor only works with ":"', position);
+    const pairs = COLORS.flatMap((a, i) => COLORS.slice(i + 1).map(b => [a, b]));
+    return { OR: pairs.map(pair => ({ [field]: { hasEvery: pair } })) };
+  }
+
+  const colors = parseColors(lower, position);
+  const others = COLORS.filter(color => !colors.includes(color));
+
+  const includes: Prisma.CardWhereInput = colors.length > 0 ? { [field]: { hasEvery: colors } } : {};
+  const within: Prisma.CardWhereInput = others.length > 0 ? { NOT: { [field]: { hasSome: others } } } : {};
+  const exact: Prisma.CardWhereInput = { AND: [includes, within] };
+
+  switch (operator) {
+    case ':':
+    case '>=':
+      return includes;
+    case '<=':
+      return within;
+    case '=':
+      return exact;
+    case '!=':
+      return { NOT: exact };
+    case '>':
+      return { AND: [includes, { [field]: { hasSome: others } }] };
+    case '<':
+      return { AND: [within, { NOT: { [field]: { hasEvery: colors } } }] };
+  }
+}
+
+function parseColors(value: string, position: number): string[] {
+  if (value in COLOR_NAMES) return [...COLOR_NAMES[value]];
+  if (value === 'c') return [];
+
+  const colors = [...value.toUpperCase()];
+  const unknown = colors.find(color => !COLORS.includes(color));
+  if (unknown) throw new SearchQueryError(`Unknown color "${value}"`, position);
+  return [...new Set(colors)];
+}
+
+// ============ Search ============
+
+/**
+ * Search cards with a Scryfall-style query, sorted by name
+ */
+export async function searchCards(
+  query: string,
+  options: { page?: number; pageSize?: number } = {}
+): Promise<SearchResult> {
+  const { page = 1, pageSize = 20 } = options;
+  const where = toCardWhere(parseSearchQuery(query));
+
+  const [total, cards] = await Promise.all([
+    db.card.count({ where }),
+    db.card.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        oracleId: true,
+        name: true,
+        manaCost: true,
+        cmc: true,
+        typeLine: true,
+        oracleText: true,
+        power: true,
+        toughness: true,
+        loyalty: true,
+        colors: true,
+        colorIdentity: true,
+        keywords: true,
+        layout: true,
+        faces: {
+          orderBy: { faceIndex: 'asc' },
+          select: { name: true, manaCost: true, typeLine: true, oracleText: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    cards,
+    total,
+    page,
+    pageSize,
+    hasMore: page * pageSize < total,
+  };
+}
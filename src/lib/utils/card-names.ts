@@ -57,3 +57,93 @@ export function isMultiFaceCardName(name: string): boolean {
 export function combineFaceNames(frontFace: string, backFace: string): string {
   return `${frontFace} // ${backFace}`;
 }
+
+export type PrintingReference =
+  | { kind: 'set'; name?: string; setCode: string; collectorNumber?: string }
+  | { kind: 'arena'; arenaId: number };
+
+/**
+ * Parse inputs that name a specific printing:
+ * "Lightning Bolt (M11) 146" and "(M11) 146" (Arena/MTGO export style),
+ * "Lightning Bolt (M11)" for any printing in a set, and "arena:67330" for a grpId.
+ * Returns null for a plain card name.
+ */
+export function parsePrintingReference(input: string): PrintingReference | null {
+  const trimmed = input.trim();
+
+  const arena = trimmed.match(/^(?:arena|grpid)\s*[:#]\s*(\d+)$/i);
+  if (arena) {
+    return { kind: 'arena', arenaId: parseInt(arena[1], 10) };
+  }
+
+  const printing = trimmed.match(/^(.*?)\s*\(([A-Za-z0-9]{2,6})\)(?:\s+(\S+))?$/);
+  if (!printing) return null;
+
+  const [, name, setCode, collectorNumber] = printing;
+  if (!name && !collectorNumber) return null;
+
+  return {
+    kind: 'set',
+    name: name || undefined,
+    setCode: setCode.toLowerCase(),
+    collectorNumber,
+  };
+}
+
+/**
+ * Similarity of two card names from 0 to 1: one minus the edit distance
+ * (insertions, deletions, substitutions and swapped neighbours) over the
+ * longer name's length. "Thoughtsieze" vs "Thoughtseize" scores 0.92.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const s = normalizeName(a);
+  const t = normalizeName(b);
+  const longest = Math.max(s.length, t.length);
+  if (longest === 0) return 1;
+
+  // Optimal string alignment distance, keeping the last two rows
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return 1 - previous[t.length] / longest;
+}
+
+/**
+ * A name's trigrams the way pg_trgm makes them: each word padded with two
+ * spaces in front and one behind ("bolt" -> "  b", " bo", "bol", "olt", "lt ")
+ */
+export function nameTrigrams(name: string): Set<string> {
+  const trigrams = new Set<string>();
+
+  for (const word of name.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) trigrams.add(padded.slice(i, i + 3));
+  }
+
+  return trigrams;
+}
+
+/**
+ * pg_trgm's similarity(): shared trigrams over all trigrams of either name
+ */
+export function trigramSimilarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const trigram of a) if (b.has(trigram)) shared++;
+
+  const total = a.size + b.size - shared;
+  return total === 0 ? 0 : shared / total;
+}